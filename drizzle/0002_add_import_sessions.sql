@@ -0,0 +1,14 @@
+CREATE TABLE `import_sessions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`source_file_name` text,
+	`strategy` text NOT NULL,
+	`created_count` integer DEFAULT 0 NOT NULL,
+	`updated_count` integer DEFAULT 0 NOT NULL,
+	`skipped_count` integer DEFAULT 0 NOT NULL,
+	`deleted_count` integer DEFAULT 0 NOT NULL,
+	`snapshot` text NOT NULL,
+	`created_at` text NOT NULL,
+	`undone_at` text
+);
+--> statement-breakpoint
+CREATE INDEX `import_sessions_created_at_idx` ON `import_sessions` (`created_at`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `books` ADD `narrators` text;
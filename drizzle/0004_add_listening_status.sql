@@ -0,0 +1,20 @@
+ALTER TABLE `books` ADD `status` text DEFAULT 'wishlist' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `books` ADD `queued_at` text;
+--> statement-breakpoint
+ALTER TABLE `books` ADD `started_at` text;
+--> statement-breakpoint
+ALTER TABLE `books` ADD `finished_at` text;
+--> statement-breakpoint
+ALTER TABLE `books` ADD `abandoned_at` text;
+--> statement-breakpoint
+CREATE INDEX `books_status_idx` ON `books` (`status`);
+--> statement-breakpoint
+-- Books in the reading queue (tagged "next") start out queued
+UPDATE `books`
+SET `status` = 'queued', `queued_at` = `date_added`
+WHERE `id` IN (
+	SELECT `book_tags`.`book_id` FROM `book_tags`
+	INNER JOIN `tags` ON `tags`.`id` = `book_tags`.`tag_id`
+	WHERE `tags`.`name` = 'next'
+);
@@ -0,0 +1,14 @@
+CREATE TABLE `series` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`total_volumes` integer,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `series_name_unique` ON `series` (`name`);
+--> statement-breakpoint
+ALTER TABLE `books` ADD `series_id` text REFERENCES series(id) ON DELETE SET NULL;
+--> statement-breakpoint
+ALTER TABLE `books` ADD `series_position` real;
+--> statement-breakpoint
+CREATE INDEX `books_series_idx` ON `books` (`series_id`,`series_position`);
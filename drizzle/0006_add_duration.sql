@@ -0,0 +1 @@
+ALTER TABLE `books` ADD `duration_minutes` integer;
@@ -0,0 +1,3 @@
+ALTER TABLE `books` ADD `personal_rating` real;
+--> statement-breakpoint
+ALTER TABLE `books` ADD `review` text;
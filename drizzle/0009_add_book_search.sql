@@ -0,0 +1,28 @@
+CREATE VIRTUAL TABLE IF NOT EXISTS `books_fts` USING fts5(
+	`book_id` UNINDEXED,
+	`title`,
+	`author`,
+	`narrators`,
+	`description`,
+	`highly_rated_for`,
+	tokenize = 'unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+INSERT INTO `books_fts` (`book_id`, `title`, `author`, `narrators`, `description`, `highly_rated_for`)
+SELECT `id`, `title`, `author`, coalesce(`narrators`, ''), coalesce(`description`, ''), coalesce(`highly_rated_for`, '')
+FROM `books`;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `books_fts_insert` AFTER INSERT ON `books` BEGIN
+	INSERT INTO `books_fts` (`book_id`, `title`, `author`, `narrators`, `description`, `highly_rated_for`)
+	VALUES (new.`id`, new.`title`, new.`author`, coalesce(new.`narrators`, ''), coalesce(new.`description`, ''), coalesce(new.`highly_rated_for`, ''));
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `books_fts_update` AFTER UPDATE OF `id`, `title`, `author`, `narrators`, `description`, `highly_rated_for` ON `books` BEGIN
+	DELETE FROM `books_fts` WHERE `book_id` = old.`id`;
+	INSERT INTO `books_fts` (`book_id`, `title`, `author`, `narrators`, `description`, `highly_rated_for`)
+	VALUES (new.`id`, new.`title`, new.`author`, coalesce(new.`narrators`, ''), coalesce(new.`description`, ''), coalesce(new.`highly_rated_for`, ''));
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `books_fts_delete` AFTER DELETE ON `books` BEGIN
+	DELETE FROM `books_fts` WHERE `book_id` = old.`id`;
+END;
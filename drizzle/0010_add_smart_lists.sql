@@ -0,0 +1,9 @@
+CREATE TABLE `smart_lists` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`filters` text NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `smart_lists_name_unique` ON `smart_lists` (`name`);
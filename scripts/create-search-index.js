@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+
+/**
+ * Add the full-text search index to a database set up with drizzle-kit push
+ * Push only creates the tables in schema.ts; the books_fts index comes from
+ * a hand-written migration, which railway-init.js runs on deployed databases.
+ */
+
+import { readFileSync } from 'fs';
+import Database from 'better-sqlite3';
+
+const SEARCH_MIGRATION = '0009_add_book_search';
+
+// Simple database path resolution, as in drizzle.config.ts
+function getDbPath() {
+    if (process.env.DATABASE_PATH) {
+        return process.env.DATABASE_PATH;
+    }
+    if (process.env.RAILWAY_VOLUME_MOUNT_PATH) {
+        return `${process.env.RAILWAY_VOLUME_MOUNT_PATH}/audiobook-wishlist.db`;
+    }
+    return './dev.db';
+}
+
+const dbPath = getDbPath();
+const db = new Database(dbPath, { fileMustExist: true });
+
+try {
+    const existing = db
+        .prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'books_fts'`)
+        .get();
+
+    if (existing) {
+        console.log(`✅ Search index already exists in ${dbPath}`);
+    } else {
+        const statements = readFileSync(`./drizzle/${SEARCH_MIGRATION}.sql`, 'utf8')
+            .split('--> statement-breakpoint')
+            .map(statement => statement.trim())
+            .filter(statement => statement.length > 0);
+
+        const hasMigrationTable = db
+            .prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = '_migrations'`)
+            .get();
+
+        db.transaction(() => {
+            for (const statement of statements) {
+                db.exec(statement);
+            }
+            // Keep railway-init.js from indexing every book a second time
+            if (hasMigrationTable) {
+                db.prepare('INSERT OR IGNORE INTO _migrations (id, applied_at) VALUES (?, ?)')
+                    .run(SEARCH_MIGRATION, new Date().toISOString());
+            }
+        })();
+
+        console.log(`✅ Search index created in ${dbPath}`);
+    }
+} finally {
+    db.close();
+}
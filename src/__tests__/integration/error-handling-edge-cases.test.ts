@@ -442,7 +442,7 @@ describe('Error Handling and Edge Cases Integration Tests', () => {
             // Mock successful updates
             vi.mocked(apiClient.updateBook).mockImplementation((id, updates) => {
                 const book = mockBooks.find(b => b.id === id);
-                return Promise.resolve({ ...book!, ...updates });
+                return Promise.resolve({ ...book!, ...updates } as Book);
             });
 
             // Perform many rapid operations
@@ -0,0 +1,7 @@
+import type { ServerInit } from '@sveltejs/kit';
+import { startBackupScheduler } from '$lib/server/db/backup.js';
+
+// Start scheduled database backups once the server is up
+export const init: ServerInit = () => {
+    startBackupScheduler();
+};
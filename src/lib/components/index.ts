@@ -4,6 +4,8 @@ export { default as BookForm } from './BookForm.svelte';
 export { default as SearchAndFilter } from './SearchAndFilter.svelte';
 export { default as PWAInstaller } from './PWAInstaller.svelte';
 export { default as ImportExport } from './ImportExport.svelte';
+export { default as SeriesOverview } from './SeriesOverview.svelte';
+export { default as BookNotes } from './BookNotes.svelte';
 
 export { default as LoadingState } from './LoadingState.svelte';
 export { default as ApiOperationFeedback } from './ApiOperationFeedback.svelte';
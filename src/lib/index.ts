@@ -4,13 +4,35 @@
 export type {
     Book,
     BookTag,
+    BookSeries,
+    BookNote,
+    SearchSnippetPart,
+    BookSearchResult,
+    ListeningStatus,
     WishlistState,
     FilterState,
+    FacetCount,
+    RatingFacet,
+    BookFacets,
     WishlistData,
     CreateBookInput,
     UpdateBookInput
 } from './types/book.js';
 
+export type {
+    SmartList,
+    CreateSmartListInput,
+    UpdateSmartListInput
+} from './types/smart-list.js';
+
+export type {
+    ImportStrategy,
+    ImportBookInput,
+    BulkImportRequest,
+    BulkImportWarning,
+    BulkImportResult
+} from './types/import.js';
+
 // Export utilities
 export {
     generateId,
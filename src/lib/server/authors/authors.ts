@@ -0,0 +1,69 @@
+/**
+ * Author totals
+ * Authors are not stored separately; they are worked out from the books'
+ * author fields each time so they can never drift from the books
+ */
+
+import { db } from '../db/connection.js';
+import { books, bookTags, tags } from '../db/schema.js';
+import { eq, inArray, or, sql, type SQL } from 'drizzle-orm';
+import { aggregateAuthors, getAuthorKey, type AuthorSummary } from '$lib/utils/authors.js';
+
+/**
+ * Condition for books by an author, co-authored books included. author_keys
+ * is registered on the connection and splits the author field with
+ * parseAuthors(), so names match exactly as getAuthorKey() groups them.
+ */
+export function byAuthor(name: string): SQL {
+    return sql`instr(author_keys(${books.author}), ${`;${getAuthorKey(name)};`}) > 0`;
+}
+
+// In the queue by status or 'next' tag, as isQueued() decides on the client
+const isQueued = sql<number>`${or(
+    eq(books.status, 'queued'),
+    inArray(
+        books.id,
+        db.select({ bookId: bookTags.bookId })
+            .from(bookTags)
+            .innerJoin(tags, eq(tags.id, bookTags.tagId))
+            .where(eq(tags.name, 'next'))
+    )
+)}`;
+
+function aggregateRows(where?: SQL): AuthorSummary[] {
+    const rows = db
+        .select({
+            author: books.author,
+            performanceRating: books.performanceRating,
+            storyRating: books.storyRating,
+            personalRating: books.personalRating,
+            queued: isQueued
+        })
+        .from(books)
+        .where(where)
+        .all();
+
+    return aggregateAuthors(rows.map(row => ({
+        author: row.author,
+        performanceRating: row.performanceRating ?? undefined,
+        storyRating: row.storyRating ?? undefined,
+        personalRating: row.personalRating ?? undefined,
+        queued: row.queued === 1
+    })));
+}
+
+/**
+ * Totals for every author on the wishlist, by name
+ */
+export function listAuthors(): AuthorSummary[] {
+    return aggregateRows();
+}
+
+/**
+ * Totals for one author, matched regardless of case and spacing
+ * @returns the author's totals, or null when no book is by them
+ */
+export function getAuthor(name: string): AuthorSummary | null {
+    const key = getAuthorKey(name);
+    return aggregateRows(byAuthor(name)).find(author => getAuthorKey(author.name) === key) ?? null;
+}
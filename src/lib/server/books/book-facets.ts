@@ -0,0 +1,118 @@
+/**
+ * Book list facets
+ * For each filter option, how many books it would leave given the other
+ * filters, so the wishlist can show counts and dim options with no books.
+ */
+
+import { db } from '../db/connection.js';
+import { books, bookTags, tags } from '../db/schema.js';
+import { buildConditions, type BookQuery } from './book-query.js';
+import { count, eq, sql, type SQLWrapper } from 'drizzle-orm';
+import { getAuthorKey, parseAuthors } from '$lib/utils/authors.js';
+import type { BookFacets, FacetCount, RatingFacet } from '$lib/types/book.js';
+
+// Minimum ratings counted for each rating facet
+const RATING_BUCKETS = [3, 3.5, 4, 4.5];
+
+function countMatching(query: BookQuery): number {
+    const [{ total }] = db
+        .select({ total: count() })
+        .from(books)
+        .where(buildConditions(query))
+        .all();
+    return total;
+}
+
+/**
+ * When tags add up (all), a tag leaves the matching books that have it. When
+ * any tag will do, a tag adds its books, so the selected tags are set aside.
+ */
+function getTagFacets(query: BookQuery): FacetCount[] {
+    const others: BookQuery = query.tagMatch === 'any' ? { ...query, tags: [] } : query;
+    const counts = new Map(
+        db
+            .select({ name: tags.name, count: count() })
+            .from(bookTags)
+            .innerJoin(tags, eq(tags.id, bookTags.tagId))
+            .innerJoin(books, eq(books.id, bookTags.bookId))
+            .where(buildConditions(others))
+            .groupBy(tags.name)
+            .all()
+            .map(row => [row.name, row.count])
+    );
+
+    return db
+        .select({ name: tags.name })
+        .from(tags)
+        .orderBy(sql`${tags.name} collate nocase`)
+        .all()
+        .map(tag => ({ value: tag.name, count: counts.get(tag.name) ?? 0 }));
+}
+
+/**
+ * Co-authors are counted separately, as on the author pages
+ */
+function getAuthorFacets(query: BookQuery): FacetCount[] {
+    const countAuthors = (rows: Array<{ author: string }>) => {
+        const counts = new Map<string, { value: string; count: number }>();
+        for (const row of rows) {
+            for (const name of parseAuthors(row.author)) {
+                const entry = counts.get(getAuthorKey(name)) ?? { value: name, count: 0 };
+                entry.count++;
+                counts.set(getAuthorKey(name), entry);
+            }
+        }
+        return counts;
+    };
+
+    const library = countAuthors(db.select({ author: books.author }).from(books).all());
+    const matching = countAuthors(
+        db.select({ author: books.author }).from(books).where(buildConditions(query)).all()
+    );
+
+    return [...library.entries()]
+        .sort(([, a], [, b]) => b.count - a.count || a.value.localeCompare(b.value))
+        .map(([key, author]) => ({ value: author.value, count: matching.get(key)?.count ?? 0 }));
+}
+
+/**
+ * Counts ignore the rating's own minimum, so every bucket can be compared,
+ * but keep its maximum
+ */
+function getRatingFacet(
+    query: BookQuery,
+    column: SQLWrapper,
+    field: 'performanceRating' | 'storyRating'
+): RatingFacet {
+    const others: BookQuery = { ...query, [field]: undefined };
+    const ratings = db
+        .select({ rating: sql<number | null>`${column}` })
+        .from(books)
+        .where(buildConditions(others))
+        .all()
+        .map(row => row.rating);
+
+    const max = query[field]?.max;
+    return {
+        buckets: RATING_BUCKETS.map(min => ({
+            min,
+            count: ratings.filter(rating => rating !== null && rating >= min && (max === undefined || rating <= max)).length
+        })),
+        unrated: ratings.filter(rating => rating === null).length
+    };
+}
+
+/**
+ * Counts for every filter option of a book list query; sort and page are ignored
+ */
+export function getBookFacets(query: BookQuery): BookFacets {
+    const filters: BookQuery = { ...query, limit: undefined, offset: undefined };
+
+    return {
+        total: countMatching(filters),
+        tags: getTagFacets(filters),
+        authors: getAuthorFacets(filters),
+        performanceRating: getRatingFacet(filters, books.performanceRating, 'performanceRating'),
+        storyRating: getRatingFacet(filters, books.storyRating, 'storyRating')
+    };
+}
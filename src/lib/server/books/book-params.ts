@@ -0,0 +1,90 @@
+/**
+ * Book list query parameters
+ * GET /api/books and GET /api/books/facets take the same filters; they are
+ * read and checked here so both endpoints agree on what a filter means.
+ */
+
+import { BOOK_SORT_FIELDS, isBookSortField, isValidRatingBound } from '$lib/utils/validation.js';
+import { parseSearchQuery } from '$lib/utils/search-query.js';
+import { LISTENING_STATUSES, isListeningStatus } from '$lib/utils/listening-status.js';
+import type { ListeningStatus } from '$lib/types/book.js';
+import type { BookQuery, RatingFilter } from './book-query.js';
+
+export type BookParamsResult =
+    | { success: true; query: BookQuery }
+    | { success: false; error: string };
+
+const RATING_PARAMS = ['minPerformance', 'maxPerformance', 'minStory', 'maxStory'];
+const LENGTH_PARAMS = ['minLength', 'maxLength'];
+const UNRATED_VALUES = ['performance', 'story'];
+
+function splitList(value: string | null): string[] {
+    return value ? value.split(',').map(item => item.trim()).filter(item => item.length > 0) : [];
+}
+
+function toNumber(value: string | null): number | undefined {
+    return value !== null ? Number(value) : undefined;
+}
+
+/**
+ * Reads a rating filter from its min/max params and the unrated list
+ */
+function toRatingFilter(params: URLSearchParams, name: 'Performance' | 'Story', unrated: string[]): RatingFilter {
+    return {
+        min: toNumber(params.get(`min${name}`)),
+        max: toNumber(params.get(`max${name}`)),
+        unrated: unrated.includes(name.toLowerCase())
+    };
+}
+
+/**
+ * Reads the filters, sort and page of a book list request, or describes the
+ * first parameter that is not valid
+ */
+export function parseBookQueryParams(params: URLSearchParams): BookParamsResult {
+    const fail = (error: string): BookParamsResult => ({ success: false, error });
+
+    const search = parseSearchQuery(params.get('q') ?? '');
+    const statuses = splitList(params.get('status'));
+    const unrated = splitList(params.get('unrated'));
+    const tagMatch = params.get('tagMatch');
+    const sort = params.get('sort');
+    const order = params.get('order');
+    const limit = params.get('limit');
+    const offset = params.get('offset');
+
+    if (!search.success) return fail(`Invalid search at character ${search.error.position + 1}: ${search.error.message}`);
+    if (!statuses.every(isListeningStatus)) return fail(`Status must be one of: ${LISTENING_STATUSES.join(', ')}`);
+    if (sort !== null && !isBookSortField(sort)) return fail(`Sort must be one of: ${BOOK_SORT_FIELDS.join(', ')}`);
+    if (order !== null && order !== 'asc' && order !== 'desc') return fail('Order must be asc or desc');
+    if (tagMatch !== null && tagMatch !== 'all' && tagMatch !== 'any') return fail('Tag match must be all or any');
+    const rating = RATING_PARAMS.find(param => params.has(param) && !isValidRatingBound(params.get(param)));
+    if (rating) return fail(`${rating} must be a number from 0 to 5`);
+    if (!unrated.every(value => UNRATED_VALUES.includes(value))) return fail(`Unrated must be one of: ${UNRATED_VALUES.join(', ')}`);
+    const length = LENGTH_PARAMS.find(param => params.has(param) && !/^\d+$/.test(params.get(param)!));
+    if (length) return fail(`${length} must be a whole number of minutes`);
+    if (limit !== null && !/^[1-9]\d*$/.test(limit)) return fail('Limit must be a positive integer');
+    if (offset !== null && !/^\d+$/.test(offset)) return fail('Offset must be a non-negative integer');
+
+    return {
+        success: true,
+        query: {
+            tags: splitList(params.get('tag')),
+            tagMatch: tagMatch === 'any' ? 'any' : 'all',
+            nextOnly: params.get('filter') === 'next',
+            excludedTags: splitList(params.get('excludeTag')),
+            search: search.query,
+            narrator: params.get('narrator')?.trim() || undefined,
+            author: params.get('author')?.trim() || undefined,
+            statuses: statuses as ListeningStatus[],
+            minDuration: toNumber(params.get('minLength')),
+            maxDuration: toNumber(params.get('maxLength')),
+            performanceRating: toRatingFilter(params, 'Performance', unrated),
+            storyRating: toRatingFilter(params, 'Story', unrated),
+            sortBy: sort !== null && isBookSortField(sort) ? sort : undefined,
+            sortOrder: order === 'desc' ? 'desc' : 'asc',
+            limit: toNumber(limit),
+            offset: offset !== null ? Number(offset) : 0
+        }
+    };
+}
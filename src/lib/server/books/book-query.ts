@@ -0,0 +1,395 @@
+/**
+ * Book list queries
+ * Filtering, sorting and pagination for GET /api/books happen in SQL, so
+ * only the requested page of books (and their tags) is ever loaded. The
+ * search and sort rules match the wishlist's client-side filters.
+ */
+
+import { db } from '../db/connection.js';
+import { books, bookTags, series, tags } from '../db/schema.js';
+import { toSeriesFields } from '../series/series.js';
+import { listNotesByBook } from '../notes/notes.js';
+import { byAuthor } from '../authors/authors.js';
+import { and, asc, count, desc, eq, inArray, not, sql, type SQL, type SQLWrapper } from 'drizzle-orm';
+import { toStatusFields } from '$lib/utils/listening-status.js';
+import { allowsTypos, foldText } from '$lib/utils/fuzzy.js';
+import { findCloseMatches, type SearchQuery, type SearchTerm, type TextField } from '$lib/utils/search-query.js';
+import type { Book, FilterState, ListeningStatus } from '$lib/types/book.js';
+
+export interface RatingFilter {
+    min?: number;
+    max?: number;
+    // Only books without the rating; the bounds are ignored
+    unrated?: boolean;
+}
+
+export interface BookQuery {
+    // Books must have every one of these tags, or any of them
+    tags?: string[];
+    tagMatch?: 'all' | 'any';
+    // Only books tagged next (filter=next), whatever the tag match
+    nextOnly?: boolean;
+    // Books must have none of these tags
+    excludedTags?: string[];
+    // Parsed search box query; every term must match
+    search?: SearchQuery;
+    narrator?: string;
+    author?: string;
+    statuses?: ListeningStatus[];
+    // Length bounds in minutes; books without a length are left out while either is set
+    minDuration?: number;
+    maxDuration?: number;
+    performanceRating?: RatingFilter;
+    storyRating?: RatingFilter;
+    sortBy?: FilterState['sortBy'];
+    sortOrder?: FilterState['sortOrder'];
+    limit?: number;
+    offset?: number;
+}
+
+export interface BookQueryResult {
+    books: Book[];
+    // Books matching the filters, before pagination
+    total: number;
+}
+
+function escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+function containsText(column: SQLWrapper, text: string): SQL {
+    return sql`${column} like ${`%${escapeLike(text)}%`} escape '\\'`;
+}
+
+function narratorContains(text: string): SQL {
+    return sql`exists (
+        select 1 from json_each(${books.narrators}) where json_each.value like ${`%${escapeLike(text)}%`} escape '\\'
+    )`;
+}
+
+function textFieldToSql(field: TextField, text: string): SQL {
+    switch (field) {
+        case 'title':
+            return containsText(books.title, text);
+        case 'author':
+            return containsText(books.author, text);
+        case 'narrator':
+            return narratorContains(text);
+        case 'series':
+            return sql`exists (
+                select 1 from ${series} where ${series.id} = ${books.seriesId} and ${containsText(series.name, text)}
+            )`;
+    }
+}
+
+/**
+ * Plain words found as they are, ignoring case and accents, in the title,
+ * author or a narrator; fold_text is registered on the connection
+ */
+function textMatches(text: string): SQL {
+    const folded = foldText(text.trim());
+    return sql`(
+        instr(fold_text(${books.title}), ${folded}) > 0
+        or instr(fold_text(${books.author}), ${folded}) > 0
+        or exists (select 1 from json_each(${books.narrators}) where instr(fold_text(json_each.value), ${folded}) > 0)
+    )`;
+}
+
+/**
+ * SQL for one search term, ignoring negation. Matches
+ * matchesSearchQuery in $lib/utils/search-query so the wishlist and the API
+ * agree; plain words match exactly here, and buildSearch adds typos as
+ * filterBySearchQuery does. Books missing a compared value never match the
+ * comparison.
+ */
+function termToSql(term: SearchTerm): SQL {
+    switch (term.type) {
+        case 'text':
+            return textMatches(term.value);
+        case 'field':
+            return textFieldToSql(term.field, term.value);
+        case 'tag':
+            return sql`exists (
+                select 1 from ${bookTags} inner join ${tags} on ${tags.id} = ${bookTags.tagId}
+                where ${bookTags.bookId} = ${books.id} and lower(${tags.name}) = lower(${term.name})
+            )`;
+        case 'status':
+            return eq(books.status, term.status);
+        case 'number': {
+            const column = books[term.field];
+            return sql`(${column} is not null and ${column} ${sql.raw(term.operator)} ${term.value})`;
+        }
+        case 'added':
+            switch (term.operator) {
+                case '=': return sql`(${books.dateAdded} >= ${term.from} and ${books.dateAdded} < ${term.to})`;
+                case '>': return sql`${books.dateAdded} >= ${term.to}`;
+                case '>=': return sql`${books.dateAdded} >= ${term.from}`;
+                case '<': return sql`${books.dateAdded} < ${term.from}`;
+                case '<=': return sql`${books.dateAdded} < ${term.to}`;
+            }
+    }
+}
+
+/**
+ * SQL for inclusive bounds on a column, or undefined when there are none.
+ * Books without a value never fall inside a range.
+ */
+function rangeToSql(column: SQLWrapper, min?: number, max?: number): SQL | undefined {
+    const bounds: SQL[] = [];
+    if (min !== undefined) bounds.push(sql`${column} >= ${min}`);
+    if (max !== undefined) bounds.push(sql`${column} <= ${max}`);
+
+    return bounds.length > 0 ? and(sql`${column} is not null`, ...bounds) : undefined;
+}
+
+function ratingToSql(column: SQLWrapper, filter: RatingFilter | undefined): SQL | undefined {
+    if (filter?.unrated) return sql`${column} is null`;
+    return rangeToSql(column, filter?.min, filter?.max);
+}
+
+/**
+ * Conditions for every filter except the plain words of the search, which
+ * buildSearch adds
+ */
+function filterConditions(query: BookQuery): SQL[] {
+    const conditions: SQL[] = [];
+
+    const hasAnyTag = (tagNames: string[]) => sql`exists (
+        select 1 from ${bookTags} inner join ${tags} on ${tags.id} = ${bookTags.tagId}
+        where ${bookTags.bookId} = ${books.id} and ${inArray(tags.name, tagNames)}
+    )`;
+
+    const tagNames = query.tags ?? [];
+    if (query.tagMatch === 'any' && tagNames.length > 0) {
+        conditions.push(hasAnyTag(tagNames));
+    } else {
+        for (const tagName of tagNames) {
+            conditions.push(hasAnyTag([tagName]));
+        }
+    }
+
+    if (query.nextOnly) {
+        conditions.push(hasAnyTag(['next']));
+    }
+
+    if (query.excludedTags && query.excludedTags.length > 0) {
+        conditions.push(not(hasAnyTag(query.excludedTags)));
+    }
+
+    for (const term of query.search?.terms ?? []) {
+        if (term.type === 'text' && !term.negated) continue;
+        conditions.push(term.negated ? not(termToSql(term)) : termToSql(term));
+    }
+
+    const narrator = query.narrator?.trim();
+    if (narrator) {
+        conditions.push(sql`exists (
+            select 1 from json_each(${books.narrators}) where lower(json_each.value) = lower(${narrator})
+        )`);
+    }
+
+    const author = query.author?.trim();
+    if (author) {
+        conditions.push(byAuthor(author));
+    }
+
+    if (query.statuses && query.statuses.length > 0) {
+        conditions.push(inArray(books.status, query.statuses));
+    }
+
+    for (const condition of [
+        rangeToSql(books.durationMinutes, query.minDuration, query.maxDuration),
+        ratingToSql(books.performanceRating, query.performanceRating),
+        ratingToSql(books.storyRating, query.storyRating)
+    ]) {
+        if (condition) conditions.push(condition);
+    }
+
+    return conditions;
+}
+
+/**
+ * Where clause for a book list query. Plain words of the search match
+ * exactly in SQL; only when no book matches them all exactly are books
+ * found despite typos, closest first, up to CLOSE_MATCH_LIMIT of them.
+ * Typos can only be scored in code: the other filters, and the words that
+ * must match exactly anyway (phrases and short words), narrow the books in
+ * SQL, and the title, author and narrators of every book left are read and
+ * scored. That costs a pass over those books per search with no exact hits.
+ */
+function buildSearch(query: BookQuery): { where: SQL | undefined; closeness?: SQL } {
+    const conditions = filterConditions(query);
+    const words = (query.search?.terms ?? []).filter(term => term.type === 'text' && !term.negated);
+    if (words.length === 0) return { where: and(...conditions) };
+
+    const exact = and(...conditions, ...words.map(termToSql));
+    if (db.select({ id: books.id }).from(books).where(exact).limit(1).get()) {
+        return { where: exact };
+    }
+
+    const exactOnly = words.filter(term => term.type === 'text' && !allowsTypos(term.value));
+    if (exactOnly.length === words.length) return { where: exact };
+
+    const candidates = db
+        .select({ id: books.id, title: books.title, author: books.author, narrators: books.narrators })
+        .from(books)
+        .where(and(...conditions, ...exactOnly.map(termToSql)))
+        .all()
+        .map(book => ({ ...book, narrators: book.narrators ?? [] }));
+    const matches = findCloseMatches(candidates, query.search!);
+    if (matches.length === 0) return { where: and(...conditions, inArray(books.id, [])) };
+
+    const cases = sql.join(matches.map(({ book, score }) => sql`when ${book.id} then ${score}`), sql` `);
+    return {
+        where: and(...conditions, inArray(books.id, matches.map(({ book }) => book.id))),
+        closeness: desc(sql`case ${books.id} ${cases} else 0 end`)
+    };
+}
+
+export function buildConditions(query: BookQuery): SQL | undefined {
+    return buildSearch(query).where;
+}
+
+/**
+ * Order for a sort field. Books missing a narrator or length stay last in
+ * both directions, and the id keeps pages stable when values tie.
+ */
+function buildOrder(sortBy: FilterState['sortBy'] | undefined, sortOrder: FilterState['sortOrder'] = 'asc'): SQL[] {
+    const direction = sortOrder === 'desc' ? desc : asc;
+    const firstNarrator = sql`json_extract(${books.narrators}, '$[0]')`;
+
+    switch (sortBy) {
+        case 'title':
+            return [direction(sql`${books.title} collate nocase`), asc(books.id)];
+        case 'author':
+            return [direction(sql`${books.author} collate nocase`), asc(books.id)];
+        case 'narrator':
+            return [asc(sql`${firstNarrator} is null`), direction(sql`${firstNarrator} collate nocase`), asc(books.id)];
+        case 'performanceRating':
+            return [direction(sql`coalesce(${books.performanceRating}, 0)`), asc(books.id)];
+        case 'storyRating':
+            return [direction(sql`coalesce(${books.storyRating}, 0)`), asc(books.id)];
+        case 'personalRating':
+            return [direction(sql`coalesce(${books.personalRating}, 0)`), asc(books.id)];
+        case 'duration':
+            return [asc(sql`${books.durationMinutes} is null`), direction(books.durationMinutes), asc(books.id)];
+        case 'dateAdded':
+            return [direction(books.dateAdded), asc(books.id)];
+        default:
+            // Newest first when no sort is asked for
+            return [desc(books.dateAdded), asc(books.id)];
+    }
+}
+
+/**
+ * Load books with their tags, series and notes, keeping the order of the ids
+ */
+export function loadBooks(bookIds: string[]): Book[] {
+    if (bookIds.length === 0) return [];
+
+    const rows = db
+        .select({
+            id: books.id,
+            title: books.title,
+            author: books.author,
+            performanceRating: books.performanceRating,
+            storyRating: books.storyRating,
+            description: books.description,
+            coverImageUrl: books.coverImageUrl,
+            audibleUrl: books.audibleUrl,
+            queuePosition: books.queuePosition,
+            dateAdded: books.dateAdded,
+            highlyRatedFor: books.highlyRatedFor,
+            narrators: books.narrators,
+            status: books.status,
+            queuedAt: books.queuedAt,
+            startedAt: books.startedAt,
+            finishedAt: books.finishedAt,
+            abandonedAt: books.abandonedAt,
+            seriesId: books.seriesId,
+            seriesName: series.name,
+            seriesTotalVolumes: series.totalVolumes,
+            seriesPosition: books.seriesPosition,
+            durationMinutes: books.durationMinutes,
+            personalRating: books.personalRating,
+            review: books.review,
+            tagId: tags.id,
+            tagName: tags.name,
+            tagColor: tags.color
+        })
+        .from(books)
+        .leftJoin(bookTags, eq(books.id, bookTags.bookId))
+        .leftJoin(tags, eq(bookTags.tagId, tags.id))
+        .leftJoin(series, eq(books.seriesId, series.id))
+        .where(inArray(books.id, bookIds))
+        .all();
+
+    const notesByBook = listNotesByBook(bookIds);
+    const booksById = new Map<string, Book>();
+
+    for (const row of rows) {
+        let book = booksById.get(row.id);
+        if (!book) {
+            book = {
+                id: row.id,
+                title: row.title,
+                author: row.author,
+                performanceRating: row.performanceRating ?? undefined,
+                storyRating: row.storyRating ?? undefined,
+                description: row.description ?? undefined,
+                coverImageUrl: row.coverImageUrl ?? undefined,
+                audibleUrl: row.audibleUrl ?? undefined,
+                queuePosition: row.queuePosition ?? undefined,
+                dateAdded: new Date(row.dateAdded),
+                highlyRatedFor: row.highlyRatedFor ?? undefined,
+                narrators: row.narrators ?? [],
+                ...toStatusFields(row),
+                ...toSeriesFields(row),
+                durationMinutes: row.durationMinutes ?? undefined,
+                personalRating: row.personalRating ?? undefined,
+                review: row.review ?? undefined,
+                notes: notesByBook.get(row.id) ?? [],
+                tags: []
+            };
+            booksById.set(row.id, book);
+        }
+
+        if (row.tagId) {
+            book.tags.push({ id: row.tagId, name: row.tagName!, color: row.tagColor! });
+        }
+    }
+
+    return bookIds.flatMap(id => booksById.get(id) ?? []);
+}
+
+/**
+ * Find one page of books matching the filters, in the requested order
+ */
+export function queryBooks(query: BookQuery): BookQueryResult {
+    const { where, closeness } = buildSearch(query);
+
+    const [{ total }] = db
+        .select({ total: count() })
+        .from(books)
+        .where(where)
+        .all();
+
+    let idQuery = db
+        .select({ id: books.id })
+        .from(books)
+        .where(where)
+        .orderBy(...(closeness ? [closeness] : []), ...buildOrder(query.sortBy, query.sortOrder))
+        .$dynamic();
+
+    if (query.limit !== undefined) {
+        idQuery = idQuery.limit(query.limit);
+    }
+    if (query.offset) {
+        // SQLite needs a LIMIT before an OFFSET; -1 means no limit
+        idQuery = idQuery.limit(query.limit ?? -1).offset(query.offset);
+    }
+
+    const bookIds = idQuery.all().map(row => row.id);
+
+    return { books: loadBooks(bookIds), total };
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import {
+    createBackup,
+    listBackups,
+    pruneBackups,
+    restoreBackup,
+    type BackupConfig
+} from '../backup.js';
+
+// Backups run against a throwaway database so dev.db is never touched
+describe('Database backups', () => {
+    let workDir: string;
+    let database: Database.Database;
+    let config: BackupConfig;
+
+    function countBooks(): number {
+        return (database.prepare('SELECT COUNT(*) AS count FROM books').get() as { count: number }).count;
+    }
+
+    beforeEach(() => {
+        // Backups are named after the time; setTimeout runs at once in tests
+        // (see src/test-setup.ts), so the clock is moved on by hand instead
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2024-05-01T10:00:00.000Z'));
+
+        workDir = mkdtempSync(join(tmpdir(), 'wishlist-backup-'));
+        database = new Database(join(workDir, 'wishlist.db'));
+        database.pragma('journal_mode = WAL');
+        database.exec('CREATE TABLE books (id TEXT PRIMARY KEY, title TEXT NOT NULL)');
+        database.prepare('INSERT INTO books (id, title) VALUES (?, ?)').run('book-1', 'Dune');
+
+        config = { directory: join(workDir, 'backups'), intervalMinutes: 0, retention: 3 };
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        database.close();
+        rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it('should write a timestamped copy to the backup directory', async () => {
+        const backup = await createBackup(config, database);
+
+        expect(backup.fileName).toMatch(/^wishlist-\d{4}-\d{2}-\d{2}T[\d-]+Z\.db$/);
+        expect(backup.size).toBeGreaterThan(0);
+
+        const copy = new Database(join(config.directory, backup.fileName), { readonly: true });
+        expect(copy.prepare('SELECT title FROM books').get()).toEqual({ title: 'Dune' });
+        copy.close();
+    });
+
+    it('should list backups newest first and ignore unrelated files', async () => {
+        const first = await createBackup(config, database);
+        vi.setSystemTime(Date.now() + 1000);
+        const second = await createBackup(config, database);
+        writeFileSync(join(config.directory, 'notes.txt'), 'not a backup');
+
+        expect(listBackups(config, database).map(backup => backup.fileName)).toEqual([
+            second.fileName,
+            first.fileName
+        ]);
+    });
+
+    it('should return no backups when the directory does not exist', () => {
+        expect(listBackups(config, database)).toEqual([]);
+    });
+
+    it('should prune backups beyond the retention count', async () => {
+        const fileNames = ['01', '02', '03', '04', '05'].map(day => `wishlist-2024-01-${day}T00-00-00-000Z.db`);
+        await createBackup(config, database);
+        for (const fileName of fileNames) {
+            writeFileSync(join(config.directory, fileName), '');
+        }
+
+        const removed = pruneBackups(config, database);
+
+        expect(removed).toEqual([fileNames[2], fileNames[1], fileNames[0]]);
+        expect(listBackups(config, database)).toHaveLength(3);
+    });
+
+    it('should restore a backup into the live database and keep a pre-restore copy', async () => {
+        const backup = await createBackup(config, database);
+        database.prepare('INSERT INTO books (id, title) VALUES (?, ?)').run('book-2', 'Emma');
+        expect(countBooks()).toBe(2);
+
+        const result = await restoreBackup(backup.fileName, config, database);
+
+        expect(result?.restored.fileName).toBe(backup.fileName);
+        expect(result?.safetyBackup.fileName).toMatch(/-pre-restore\.db$/);
+        expect(countBooks()).toBe(1);
+
+        const safetyCopy = new Database(join(config.directory, result!.safetyBackup.fileName), { readonly: true });
+        expect((safetyCopy.prepare('SELECT COUNT(*) AS count FROM books').get() as { count: number }).count).toBe(2);
+        safetyCopy.close();
+    });
+
+    it('should restore full-text indexes and triggers along with the tables', async () => {
+        database.exec(`
+            CREATE VIRTUAL TABLE books_fts USING fts5(book_id UNINDEXED, title);
+            INSERT INTO books_fts (book_id, title) SELECT id, title FROM books;
+            CREATE TRIGGER books_fts_insert AFTER INSERT ON books BEGIN
+                INSERT INTO books_fts (book_id, title) VALUES (new.id, new.title);
+            END;
+        `);
+        const backup = await createBackup(config, database);
+        database.exec('DROP TRIGGER books_fts_insert; DROP TABLE books_fts');
+
+        await restoreBackup(backup.fileName, config, database);
+        database.prepare('INSERT INTO books (id, title) VALUES (?, ?)').run('book-2', 'Emma');
+
+        const search = database.prepare('SELECT book_id FROM books_fts WHERE books_fts MATCH ?');
+        expect(search.all('dune')).toEqual([{ book_id: 'book-1' }]);
+        expect(search.all('emma')).toEqual([{ book_id: 'book-2' }]);
+    });
+
+    it('should keep pre-restore copies out of retention', async () => {
+        const backup = await createBackup(config, database);
+        const result = await restoreBackup(backup.fileName, config, database);
+        for (let i = 0; i < config.retention + 1; i++) {
+            vi.setSystemTime(Date.now() + 1000);
+            await createBackup(config, database);
+        }
+
+        const fileNames = listBackups(config, database).map(backup => backup.fileName);
+        expect(fileNames).toContain(result!.safetyBackup.fileName);
+        expect(fileNames).not.toContain(backup.fileName);
+        expect(fileNames).toHaveLength(config.retention + 1);
+    });
+
+    it('should return null for unknown or unsafe backup names', async () => {
+        await createBackup(config, database);
+
+        expect(await restoreBackup('wishlist-missing.db', config, database)).toBeNull();
+        expect(await restoreBackup('../wishlist.db', config, database)).toBeNull();
+        expect(countBooks()).toBe(1);
+    });
+
+    it('should reject a corrupt backup without touching the database', async () => {
+        const fileName = 'wishlist-2024-01-01T00-00-00-000Z.db';
+        await createBackup(config, database);
+        writeFileSync(join(config.directory, fileName), 'definitely not sqlite');
+
+        await expect(restoreBackup(fileName, config, database)).rejects.toThrow();
+        expect(countBooks()).toBe(1);
+    });
+});
@@ -0,0 +1,293 @@
+/**
+ * Database backups
+ * Takes timestamped copies of the SQLite database with the online backup API
+ * (safe while the app keeps writing), prunes old copies and restores them
+ * through the app's own connection
+ */
+
+import { env } from '$env/dynamic/private';
+import { existsSync, mkdirSync, readdirSync, statSync, unlinkSync } from 'fs';
+import { basename, dirname, extname, join } from 'path';
+import Database from 'better-sqlite3';
+import { sqlite } from './connection.js';
+import { ServerLogger } from '../utils/logger.js';
+
+export interface BackupConfig {
+    // Directory the copies are written to
+    directory: string;
+    // Minutes between scheduled backups; 0 disables the scheduler
+    intervalMinutes: number;
+    // Number of copies to keep
+    retention: number;
+}
+
+export interface BackupInfo {
+    fileName: string;
+    size: number;
+    createdAt: Date;
+}
+
+export interface RestoreBackupResult {
+    restored: BackupInfo;
+    // Copy of the database as it was right before the restore
+    safetyBackup: BackupInfo;
+}
+
+const DEFAULT_INTERVAL_MINUTES = 360;
+const DEFAULT_RETENTION = 7;
+
+// Copies taken right before a restore, so a restore can itself be undone.
+// Retention leaves them alone; they are only removed by hand.
+const PRE_RESTORE_SUFFIX = 'pre-restore';
+
+// Schema name a backup is attached under while it is restored
+const RESTORE_SCHEMA = 'restore_source';
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+
+function parseNonNegativeInt(value: string | undefined, fallback: number): number {
+    if (value === undefined || value.trim() === '') return fallback;
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Reads the backup configuration from the environment. Backups default to a
+ * `backups` directory next to the database file.
+ */
+export function getBackupConfig(database: Database.Database = sqlite): BackupConfig {
+    return {
+        directory: env.BACKUP_DIR || join(dirname(database.name), 'backups'),
+        intervalMinutes: parseNonNegativeInt(env.BACKUP_INTERVAL_MINUTES, DEFAULT_INTERVAL_MINUTES),
+        retention: Math.max(1, parseNonNegativeInt(env.BACKUP_RETENTION, DEFAULT_RETENTION))
+    };
+}
+
+function getBackupPrefix(database: Database.Database): string {
+    const name = basename(database.name);
+    return name.slice(0, name.length - extname(name).length) || 'database';
+}
+
+function createBackupFileName(database: Database.Database, suffix?: string): string {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return `${getBackupPrefix(database)}-${timestamp}${suffix ? `-${suffix}` : ''}.db`;
+}
+
+/**
+ * Checks that a file name belongs to this database's backups and cannot
+ * escape the backup directory
+ */
+function isBackupFileName(fileName: string, database: Database.Database): boolean {
+    return (
+        fileName === basename(fileName) &&
+        fileName.startsWith(`${getBackupPrefix(database)}-`) &&
+        fileName.endsWith('.db')
+    );
+}
+
+/**
+ * Lists backups, newest first
+ */
+export function listBackups(
+    config: BackupConfig = getBackupConfig(),
+    database: Database.Database = sqlite
+): BackupInfo[] {
+    if (!existsSync(config.directory)) return [];
+
+    return readdirSync(config.directory)
+        .filter(fileName => isBackupFileName(fileName, database))
+        .map(fileName => {
+            const stats = statSync(join(config.directory, fileName));
+            return { fileName, size: stats.size, createdAt: stats.mtime };
+        })
+        .sort((a, b) => b.fileName.localeCompare(a.fileName));
+}
+
+function isPreRestoreBackup(fileName: string): boolean {
+    return fileName.endsWith(`-${PRE_RESTORE_SUFFIX}.db`);
+}
+
+/**
+ * Deletes the oldest backups beyond the retention count; pre-restore copies
+ * are neither counted nor deleted
+ * @returns the file names that were removed
+ */
+export function pruneBackups(
+    config: BackupConfig = getBackupConfig(),
+    database: Database.Database = sqlite
+): string[] {
+    const expired = listBackups(config, database)
+        .filter(backup => !isPreRestoreBackup(backup.fileName))
+        .slice(config.retention);
+
+    for (const backup of expired) {
+        unlinkSync(join(config.directory, backup.fileName));
+    }
+
+    return expired.map(backup => backup.fileName);
+}
+
+/**
+ * Copies the live database into a new timestamped backup, then prunes
+ */
+export async function createBackup(
+    config: BackupConfig = getBackupConfig(),
+    database: Database.Database = sqlite,
+    suffix?: string
+): Promise<BackupInfo> {
+    mkdirSync(config.directory, { recursive: true });
+
+    const fileName = createBackupFileName(database, suffix);
+    const filePath = join(config.directory, fileName);
+    await database.backup(filePath);
+
+    const removed = pruneBackups(config, database);
+    const stats = statSync(filePath);
+
+    ServerLogger.info(`Database backup created: ${fileName}`, 'DB_BACKUP', undefined, {
+        size: stats.size,
+        pruned: removed.length
+    });
+
+    return { fileName, size: stats.size, createdAt: stats.mtime };
+}
+
+interface SchemaObject {
+    type: string;
+    name: string;
+    sql: string | null;
+}
+
+function readSchema(database: Database.Database, schema: string): SchemaObject[] {
+    return database
+        .prepare(`SELECT type, name, sql FROM "${schema}".sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY rowid`)
+        .all() as SchemaObject[];
+}
+
+function quoteName(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Replaces every table, index, view and trigger of the main database with
+ * those of the attached backup, in one transaction on the same connection.
+ * Virtual tables make their own shadow tables, which may not be written to,
+ * so they are filled through the virtual table instead. Triggers come last
+ * so copying the rows fires none of them.
+ */
+function copyAttachedDatabase(database: Database.Database): void {
+    const isVirtual = (object: SchemaObject) => /^CREATE\s+VIRTUAL\s+TABLE/i.test(object.sql ?? '');
+    const tableExists = (name: string) => !!database
+        .prepare(`SELECT 1 FROM main.sqlite_master WHERE type = 'table' AND name = ?`)
+        .get(name);
+
+    database.transaction(() => {
+        const current = readSchema(database, 'main');
+        for (const object of current.filter(object => object.type === 'trigger' || object.type === 'view')) {
+            database.exec(`DROP ${object.type.toUpperCase()} IF EXISTS ${quoteName(object.name)}`);
+        }
+        // Dropping a virtual table drops its shadow tables too
+        for (const object of [...current.filter(isVirtual), ...current.filter(object => object.type === 'table')]) {
+            database.exec(`DROP TABLE IF EXISTS ${quoteName(object.name)}`);
+        }
+
+        const restored = readSchema(database, RESTORE_SCHEMA);
+        const copied: string[] = [];
+        for (const table of restored.filter(object => object.type === 'table')) {
+            if (tableExists(table.name)) continue;
+            database.exec(table.sql!);
+            copied.push(quoteName(table.name));
+        }
+        for (const name of copied) {
+            database.exec(`INSERT INTO main.${name} SELECT * FROM ${RESTORE_SCHEMA}.${name}`);
+        }
+
+        for (const type of ['index', 'view', 'trigger']) {
+            for (const object of restored.filter(object => object.type === type && object.sql)) {
+                database.exec(object.sql!);
+            }
+        }
+    })();
+}
+
+/**
+ * Replaces the live database with a backup. A copy of the current state is
+ * taken first so the restore can be reverted. The backup is copied in through
+ * the app's own connection, so nothing else writes to the database file while
+ * it is open. Returns null when there is no backup with that name.
+ * @throws Error when the backup is not a valid database
+ */
+export async function restoreBackup(
+    fileName: string,
+    config: BackupConfig = getBackupConfig(),
+    database: Database.Database = sqlite
+): Promise<RestoreBackupResult | null> {
+    const restored = isBackupFileName(fileName, database)
+        ? listBackups(config, database).find(backup => backup.fileName === fileName)
+        : undefined;
+    if (!restored) return null;
+
+    const filePath = join(config.directory, fileName);
+    const source = new Database(filePath, { readonly: true, fileMustExist: true });
+    try {
+        const integrity = source.pragma('integrity_check', { simple: true });
+        if (integrity !== 'ok') {
+            throw new Error(`Backup failed integrity check: ${integrity}`);
+        }
+    } finally {
+        source.close();
+    }
+
+    const safetyBackup = await createBackup(config, database, PRE_RESTORE_SUFFIX);
+
+    // Foreign keys can only be switched outside a transaction
+    const foreignKeys = database.pragma('foreign_keys', { simple: true });
+    database.prepare(`ATTACH DATABASE ? AS ${RESTORE_SCHEMA}`).run(filePath);
+    try {
+        database.pragma('foreign_keys = OFF');
+        copyAttachedDatabase(database);
+    } finally {
+        database.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+        database.exec(`DETACH DATABASE ${RESTORE_SCHEMA}`);
+    }
+
+    ServerLogger.info(`Database restored from backup: ${fileName}`, 'DB_BACKUP', undefined, {
+        safetyBackup: safetyBackup.fileName
+    });
+
+    return { restored, safetyBackup };
+}
+
+/**
+ * Starts taking backups on the configured interval. Does nothing when the
+ * interval is 0 or the scheduler is already running.
+ */
+export function startBackupScheduler(config: BackupConfig = getBackupConfig()): boolean {
+    if (schedulerTimer || config.intervalMinutes === 0) return false;
+
+    schedulerTimer = setInterval(() => {
+        createBackup(config).catch(error => {
+            ServerLogger.error('Scheduled database backup failed', error as Error, 'DB_BACKUP');
+        });
+    }, config.intervalMinutes * 60 * 1000);
+
+    // Don't keep the process alive just for backups
+    schedulerTimer.unref?.();
+
+    ServerLogger.info(`Database backups scheduled every ${config.intervalMinutes} minutes`, 'DB_BACKUP', undefined, {
+        directory: config.directory,
+        retention: config.retention
+    });
+
+    return true;
+}
+
+/**
+ * Stops scheduled backups
+ */
+export function stopBackupScheduler(): void {
+    if (schedulerTimer) {
+        clearInterval(schedulerTimer);
+        schedulerTimer = null;
+    }
+}
@@ -2,6 +2,8 @@ import { drizzle } from 'drizzle-orm/better-sqlite3';
 import Database from 'better-sqlite3';
 import * as schema from './schema.js';
 import dbPath from './path.js';
+import { foldText } from '../../utils/fuzzy.js';
+import { getAuthorKey, parseAuthors } from '../../utils/authors.js';
 
 // Simple SQLite database connection
 const sqlite = new Database(dbPath, {
@@ -13,9 +15,22 @@ const sqlite = new Database(dbPath, {
 sqlite.pragma('journal_mode = WAL');
 sqlite.pragma('synchronous = NORMAL');
 
+// Case- and accent-insensitive text for search, folded the same way as in the wishlist
+sqlite.function('fold_text', { deterministic: true }, (text: unknown) =>
+    typeof text === 'string' ? foldText(text) : null
+);
+
+// Authors of a book field as ';key;key;', split and keyed as on the author pages
+sqlite.function('author_keys', { deterministic: true }, (author: unknown) =>
+    typeof author === 'string' ? `;${parseAuthors(author).map(getAuthorKey).join(';')};` : null
+);
+
 // Simple Drizzle instance
 export const db = drizzle(sqlite, { schema });
 
+// Handle passed to synchronous db.transaction() callbacks
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 // Export the raw sqlite instance for migrations
 export { sqlite };
 
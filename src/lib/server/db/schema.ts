@@ -1,5 +1,13 @@
 import { sqliteTable, text, real, integer, primaryKey, index } from 'drizzle-orm/sqlite-core';
 import { relations, sql } from 'drizzle-orm';
+import type { FilterState } from '../../types/book.js';
+
+export const series = sqliteTable('series', {
+    id: text('id').primaryKey(),
+    name: text('name').notNull().unique(),
+    totalVolumes: integer('total_volumes'),
+    createdAt: text('created_at').notNull(),
+});
 
 export const books = sqliteTable('books', {
     id: text('id').primaryKey(),
@@ -13,12 +21,30 @@ export const books = sqliteTable('books', {
     queuePosition: integer('queue_position'),
     dateAdded: text('date_added').notNull(),
     highlyRatedFor: text('highly_rated_for'),
+    // JSON array of narrator names
+    narrators: text('narrators', { mode: 'json' }).$type<string[]>(),
+    // Listening status and when the book last entered each status
+    status: text('status').notNull().default('wishlist'),
+    queuedAt: text('queued_at'),
+    startedAt: text('started_at'),
+    finishedAt: text('finished_at'),
+    abandonedAt: text('abandoned_at'),
+    // Series membership; positions are reals so novellas can sit at 1.5
+    seriesId: text('series_id').references(() => series.id, { onDelete: 'set null' }),
+    seriesPosition: real('series_position'),
+    // Length in minutes
+    durationMinutes: integer('duration_minutes'),
+    // Our own opinion, separate from the imported Audible ratings
+    personalRating: real('personal_rating'),
+    review: text('review'),
 }, (table) => ({
     // Performance indexes for common queries
     titleIdx: index('books_title_idx').on(table.title),
     authorIdx: index('books_author_idx').on(table.author),
     dateAddedIdx: index('books_date_added_idx').on(table.dateAdded),
     queuePositionIdx: index('books_queue_position_idx').on(table.queuePosition),
+    statusIdx: index('books_status_idx').on(table.status),
+    seriesIdx: index('books_series_idx').on(table.seriesId, table.seriesPosition),
     // Composite indexes for common query patterns
     titleAuthorIdx: index('books_title_author_idx').on(table.title, table.author),
     dateAddedTitleIdx: index('books_date_added_title_idx').on(table.dateAdded, table.title),
@@ -46,9 +72,51 @@ export const bookTags = sqliteTable('book_tags', {
     tagIdIdx: index('book_tags_tag_id_idx').on(table.tagId),
 }));
 
+// Private notes on a book; kept out of the imported fields so imports never touch them
+export const bookNotes = sqliteTable('book_notes', {
+    id: text('id').primaryKey(),
+    bookId: text('book_id').notNull().references(() => books.id, { onDelete: 'cascade' }),
+    body: text('body').notNull(),
+    createdAt: text('created_at').notNull(),
+    updatedAt: text('updated_at').notNull(),
+}, (table) => ({
+    bookIdIdx: index('book_notes_book_id_idx').on(table.bookId, table.createdAt),
+}));
+
+// Each applied import, with a JSON snapshot of the rows it changed so it can be undone
+export const importSessions = sqliteTable('import_sessions', {
+    id: text('id').primaryKey(),
+    sourceFileName: text('source_file_name'),
+    strategy: text('strategy').notNull(),
+    createdCount: integer('created_count').notNull().default(0),
+    updatedCount: integer('updated_count').notNull().default(0),
+    skippedCount: integer('skipped_count').notNull().default(0),
+    deletedCount: integer('deleted_count').notNull().default(0),
+    snapshot: text('snapshot').notNull(),
+    createdAt: text('created_at').notNull(),
+    undoneAt: text('undone_at'),
+}, (table) => ({
+    createdAtIdx: index('import_sessions_created_at_idx').on(table.createdAt),
+}));
+
+// Named sets of wishlist filters ("smart lists"), stored as a JSON FilterState
+export const smartLists = sqliteTable('smart_lists', {
+    id: text('id').primaryKey(),
+    name: text('name').notNull().unique(),
+    filters: text('filters', { mode: 'json' }).$type<FilterState>().notNull(),
+    createdAt: text('created_at').notNull(),
+    updatedAt: text('updated_at').notNull(),
+});
+
 // Relations
-export const booksRelations = relations(books, ({ many }) => ({
+export const booksRelations = relations(books, ({ one, many }) => ({
     bookTags: many(bookTags),
+    notes: many(bookNotes),
+    series: one(series, { fields: [books.seriesId], references: [series.id] }),
+}));
+
+export const seriesRelations = relations(series, ({ many }) => ({
+    books: many(books),
 }));
 
 export const tagsRelations = relations(tags, ({ many }) => ({
@@ -58,4 +126,8 @@ export const tagsRelations = relations(tags, ({ many }) => ({
 export const bookTagsRelations = relations(bookTags, ({ one }) => ({
     book: one(books, { fields: [bookTags.bookId], references: [books.id] }),
     tag: one(tags, { fields: [bookTags.tagId], references: [tags.id] }),
+}));
+
+export const bookNotesRelations = relations(bookNotes, ({ one }) => ({
+    book: one(books, { fields: [bookNotes.bookId], references: [books.id] }),
 }));
\ No newline at end of file
@@ -0,0 +1,221 @@
+/**
+ * Streaming export of the whole wishlist
+ * Books are read from SQLite in keyset-paginated batches so large wishlists
+ * never have to be held in memory and the connection is not kept busy
+ * between chunks
+ */
+
+import { db } from '../db/connection.js';
+import { books, bookTags, series, tags } from '../db/schema.js';
+import { asc, gt, inArray } from 'drizzle-orm';
+import { toCsv } from '$lib/utils/csv.js';
+import { bookToCsvRecord, EXPORT_CSV_HEADER } from '$lib/utils/book-export.js';
+import { toStatusFields } from '$lib/utils/listening-status.js';
+import { listNotesByBook } from '../notes/notes.js';
+import type { Book, BookSeries, BookTag } from '$lib/types/book.js';
+
+export type StreamExportFormat = 'json' | 'csv' | 'ndjson';
+
+export const STREAM_EXPORT_FORMATS: Record<StreamExportFormat, { extension: string; contentType: string }> = {
+    json: { extension: 'json', contentType: 'application/json; charset=utf-8' },
+    csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+    ndjson: { extension: 'ndjson', contentType: 'application/x-ndjson; charset=utf-8' }
+};
+
+const BATCH_SIZE = 200;
+
+/**
+ * Checks whether a query parameter names a supported export format
+ */
+export function isStreamExportFormat(format: string): format is StreamExportFormat {
+    return Object.prototype.hasOwnProperty.call(STREAM_EXPORT_FORMATS, format);
+}
+
+/**
+ * Builds the download file name for an export
+ */
+export function getExportFileName(format: StreamExportFormat, date: Date = new Date()): string {
+    return `audiobook-wishlist-${date.toISOString().split('T')[0]}.${STREAM_EXPORT_FORMATS[format].extension}`;
+}
+
+/**
+ * Reads books ordered by id, one batch at a time, with their tags, series and notes
+ */
+function* readBookBatches(tagsById: Map<string, BookTag>, seriesById: Map<string, BookSeries>): Generator<Book[]> {
+    let lastId: string | undefined;
+
+    while (true) {
+        const rows = db
+            .select()
+            .from(books)
+            .where(lastId === undefined ? undefined : gt(books.id, lastId))
+            .orderBy(asc(books.id))
+            .limit(BATCH_SIZE)
+            .all();
+
+        if (rows.length === 0) return;
+        lastId = rows[rows.length - 1].id;
+
+        const tagIdsByBook = new Map<string, string[]>();
+        const links = db
+            .select()
+            .from(bookTags)
+            .where(inArray(bookTags.bookId, rows.map(row => row.id)))
+            .all();
+        for (const link of links) {
+            if (!link.bookId || !link.tagId) continue;
+            tagIdsByBook.set(link.bookId, [...(tagIdsByBook.get(link.bookId) ?? []), link.tagId]);
+        }
+        const notesByBook = listNotesByBook(rows.map(row => row.id));
+
+        yield rows.map(row => ({
+            id: row.id,
+            title: row.title,
+            author: row.author,
+            performanceRating: row.performanceRating ?? undefined,
+            storyRating: row.storyRating ?? undefined,
+            description: row.description ?? undefined,
+            coverImageUrl: row.coverImageUrl ?? undefined,
+            audibleUrl: row.audibleUrl ?? undefined,
+            queuePosition: row.queuePosition ?? undefined,
+            dateAdded: new Date(row.dateAdded),
+            highlyRatedFor: row.highlyRatedFor ?? undefined,
+            narrators: row.narrators ?? undefined,
+            ...toStatusFields(row),
+            series: row.seriesId ? seriesById.get(row.seriesId) : undefined,
+            seriesPosition: row.seriesPosition ?? undefined,
+            durationMinutes: row.durationMinutes ?? undefined,
+            personalRating: row.personalRating ?? undefined,
+            review: row.review ?? undefined,
+            notes: notesByBook.get(row.id) ?? [],
+            tags: (tagIdsByBook.get(row.id) ?? []).flatMap(tagId => {
+                const tag = tagsById.get(tagId);
+                return tag ? [tag] : [];
+            })
+        }));
+
+        if (rows.length < BATCH_SIZE) return;
+    }
+}
+
+/**
+ * Reads all book-tag relationships, one batch of books at a time
+ */
+function* readBookTagBatches(): Generator<Array<{ bookId: string; tagId: string }>> {
+    let lastBookId: string | undefined;
+
+    while (true) {
+        const bookIds = db
+            .select({ id: books.id })
+            .from(books)
+            .where(lastBookId === undefined ? undefined : gt(books.id, lastBookId))
+            .orderBy(asc(books.id))
+            .limit(BATCH_SIZE)
+            .all()
+            .map(row => row.id);
+
+        if (bookIds.length === 0) return;
+        lastBookId = bookIds[bookIds.length - 1];
+
+        yield db
+            .select()
+            .from(bookTags)
+            .where(inArray(bookTags.bookId, bookIds))
+            .all()
+            .flatMap(link => link.bookId && link.tagId ? [{ bookId: link.bookId, tagId: link.tagId }] : []);
+
+        if (bookIds.length < BATCH_SIZE) return;
+    }
+}
+
+function serializeBook(book: Book) {
+    return { ...book, dateAdded: book.dateAdded.toISOString() };
+}
+
+/**
+ * Produces the text chunks of an export. JSON exports use the WishlistData
+ * shape (so they can be imported again) plus top-level tags and bookTags.
+ */
+function* exportChunks(format: StreamExportFormat): Generator<string> {
+    const allTags = db.select().from(tags).orderBy(asc(tags.name)).all();
+    const tagsById = new Map(allTags.map(tag => [tag.id, { id: tag.id, name: tag.name, color: tag.color }]));
+    const seriesById = new Map(db.select().from(series).all().map(row => [
+        row.id,
+        { id: row.id, name: row.name, totalVolumes: row.totalVolumes ?? undefined }
+    ]));
+    const exportedAt = new Date().toISOString();
+
+    if (format === 'csv') {
+        yield toCsv([EXPORT_CSV_HEADER]);
+        for (const batch of readBookBatches(tagsById, seriesById)) {
+            yield toCsv(batch.map(bookToCsvRecord));
+        }
+        return;
+    }
+
+    if (format === 'ndjson') {
+        yield JSON.stringify({ type: 'meta', exportedAt, version: '1.0' }) + '\n';
+        for (const tag of allTags) {
+            yield JSON.stringify({ type: 'tag', ...tag }) + '\n';
+        }
+        for (const batch of readBookBatches(tagsById, seriesById)) {
+            yield batch.map(book => JSON.stringify({ type: 'book', ...serializeBook(book) }) + '\n').join('');
+        }
+        for (const batch of readBookTagBatches()) {
+            yield batch.map(link => JSON.stringify({ type: 'bookTag', ...link }) + '\n').join('');
+        }
+        return;
+    }
+
+    yield `{"version":"1.0","exportedAt":${JSON.stringify(exportedAt)},"lastUpdated":${JSON.stringify(exportedAt)},"books":[`;
+    let first = true;
+    for (const batch of readBookBatches(tagsById, seriesById)) {
+        for (const book of batch) {
+            yield (first ? '\n' : ',\n') + JSON.stringify(serializeBook(book));
+            first = false;
+        }
+    }
+    yield `\n],"tags":${JSON.stringify(allTags)},"bookTags":[`;
+    first = true;
+    for (const batch of readBookTagBatches()) {
+        for (const link of batch) {
+            yield (first ? '\n' : ',\n') + JSON.stringify(link);
+            first = false;
+        }
+    }
+    yield '\n]}\n';
+}
+
+/**
+ * Creates a byte stream of the wishlist export in the given format.
+ * The first chunk is read immediately so database errors surface before
+ * the response starts.
+ */
+export function createExportStream(format: StreamExportFormat): ReadableStream<Uint8Array> {
+    const chunks = exportChunks(format);
+    const encoder = new TextEncoder();
+    const first = chunks.next();
+
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            if (!first.done) {
+                controller.enqueue(encoder.encode(first.value));
+            }
+        },
+        pull(controller) {
+            try {
+                const next = chunks.next();
+                if (next.done) {
+                    controller.close();
+                } else {
+                    controller.enqueue(encoder.encode(next.value));
+                }
+            } catch (error) {
+                controller.error(error);
+            }
+        },
+        cancel() {
+            chunks.return(undefined);
+        }
+    });
+}
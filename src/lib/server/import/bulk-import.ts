@@ -0,0 +1,537 @@
+/**
+ * Transactional bulk import of books
+ * Applies a whole import payload inside a single SQLite transaction so a
+ * failure part-way through leaves the wishlist untouched. The same plan is
+ * used for dry-runs, so a preview always matches what the import would do.
+ */
+
+import { db, type DbTransaction } from '../db/connection.js';
+import { bookNotes, books, bookTags, series, tags } from '../db/schema.js';
+import { eq } from 'drizzle-orm';
+import { generateId, generateTagId } from '$lib/utils/id.js';
+import { isValidCreateBookInput } from '$lib/utils/validation.js';
+import { formatNarrators, normalizeNarrators, parseNarrators } from '$lib/utils/narrators.js';
+import { getStatusTransition, isListeningStatus, reconcileQueue, type QueueState } from '$lib/utils/listening-status.js';
+import { DEFAULT_TAG_COLOR, hasNextTag, setNextTag } from '$lib/utils/tags.js';
+import { resolveSeriesId } from '../series/series.js';
+import { recordImportSession, snapshotBooks } from './import-sessions.js';
+import type { BookTag } from '$lib/types/book.js';
+import type {
+    BulkImportPreview,
+    BulkImportResult,
+    ImportBookInput,
+    ImportPreviewEntry,
+    ImportStrategy
+} from '$lib/types/import.js';
+
+/**
+ * Book columns an import can set, in the order they are shown in a diff
+ */
+const IMPORTABLE_FIELDS = [
+    'title',
+    'author',
+    'performanceRating',
+    'storyRating',
+    'description',
+    'coverImageUrl',
+    'audibleUrl',
+    'queuePosition',
+    'highlyRatedFor',
+    'narrators',
+    'status',
+    'series',
+    'seriesPosition',
+    'durationMinutes',
+    'personalRating',
+    'review'
+] as const;
+
+type ImportableField = typeof IMPORTABLE_FIELDS[number];
+// Narrators are held as a comma-separated string and the series as its name,
+// so they can be diffed like the other fields
+type BookColumns = Record<ImportableField, string | number | null>;
+
+// Current state of a book while the plan is being built
+interface PlannedBook {
+    id: string;
+    columns: BookColumns;
+    tagNames: string[];
+}
+
+interface ImportStep {
+    entry: ImportPreviewEntry;
+    input?: ImportBookInput;
+    bookId?: string;
+}
+
+interface ImportPlan {
+    steps: ImportStep[];
+    deleted: number;
+}
+
+/**
+ * Build the case-insensitive title+author key used to match books
+ */
+export function getBookMatchKey(book: { title: string; author: string }): string {
+    return `${book.title.trim().toLowerCase()}\u0000${book.author.trim().toLowerCase()}`;
+}
+
+/**
+ * Fill in missing tag ids so imported tags pass validation
+ */
+function normalizeImportedTags(input: ImportBookInput): ImportBookInput {
+    if (!Array.isArray(input?.tags)) return input;
+
+    return {
+        ...input,
+        tags: input.tags.map(tag => ({
+            ...tag,
+            id: typeof tag?.id === 'string' && tag.id.length > 0 ? tag.id : generateTagId()
+        }))
+    };
+}
+
+/**
+ * Series name and length of an imported book; exports write the series
+ * as an object
+ */
+function getImportedSeries(input: ImportBookInput): { name?: string; totalVolumes?: number } {
+    return input.seriesName !== undefined
+        ? { name: input.seriesName, totalVolumes: input.seriesTotalVolumes }
+        : { name: input.series?.name, totalVolumes: input.series?.totalVolumes };
+}
+
+/**
+ * Normalize the fields provided by an imported book into column values.
+ * Fields that are undefined are left out so merges keep existing values.
+ */
+function toBookColumns(input: ImportBookInput): Partial<BookColumns> {
+    const text = (value: string | undefined) => value?.trim() || null;
+    const columns: Partial<BookColumns> = {
+        title: input.title.trim(),
+        author: input.author.trim()
+    };
+
+    if (input.performanceRating !== undefined) columns.performanceRating = input.performanceRating;
+    if (input.storyRating !== undefined) columns.storyRating = input.storyRating;
+    if (input.description !== undefined) columns.description = text(input.description);
+    if (input.coverImageUrl !== undefined) columns.coverImageUrl = text(input.coverImageUrl);
+    if (input.audibleUrl !== undefined) columns.audibleUrl = text(input.audibleUrl);
+    if (input.queuePosition !== undefined) columns.queuePosition = input.queuePosition;
+    if (input.highlyRatedFor !== undefined) columns.highlyRatedFor = text(input.highlyRatedFor);
+    if (input.narrators !== undefined) columns.narrators = formatNarrators(normalizeNarrators(input.narrators)) || null;
+    if (input.status !== undefined) columns.status = input.status;
+    const importedSeries = getImportedSeries(input);
+    if (importedSeries.name !== undefined) columns.series = importedSeries.name.trim() || null;
+    if (input.seriesPosition !== undefined) columns.seriesPosition = input.seriesPosition;
+    if (input.durationMinutes !== undefined) columns.durationMinutes = input.durationMinutes;
+    if (input.personalRating !== undefined) columns.personalRating = input.personalRating || null;
+    if (input.review !== undefined) columns.review = text(input.review);
+
+    return columns;
+}
+
+function emptyColumns(): BookColumns {
+    return Object.fromEntries(IMPORTABLE_FIELDS.map(field => [field, null])) as BookColumns;
+}
+
+/**
+ * Parse a date from a backup, falling back to the given value
+ */
+function resolveDate<T extends string | null>(value: string | Date | undefined, fallback: T): string | T {
+    if (!value) return fallback;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? fallback : date.toISOString();
+}
+
+/**
+ * Status columns of a created book. Transition times from backups are kept;
+ * otherwise the book entered its status now.
+ */
+function resolveStatusColumns(input: ImportBookInput, now: string) {
+    const status = input.status ?? 'wishlist';
+
+    return {
+        status,
+        queuedAt: resolveDate(input.queuedAt, status === 'queued' ? now : null),
+        startedAt: resolveDate(input.startedAt, status === 'listening' ? now : null),
+        finishedAt: resolveDate(input.finishedAt, status === 'finished' ? now : null),
+        abandonedAt: resolveDate(input.abandonedAt, status === 'abandoned' ? now : null)
+    };
+}
+
+/**
+ * Keep the queued status and the "next" tag in step, as creating and editing
+ * a book do. A merge only sets the status or tags when the import gives them
+ * or when the other one changed.
+ */
+function reconcileImportedQueue(input: ImportBookInput, existing?: PlannedBook): ImportBookInput {
+    const current: QueueState = existing
+        ? {
+            status: isListeningStatus(existing.columns.status) ? existing.columns.status : 'wishlist',
+            hasNextTag: existing.tagNames.includes('next')
+        }
+        : { status: 'wishlist', hasNextTag: false };
+    const queue = reconcileQueue(current, {
+        status: input.status,
+        hasNextTag: input.tags ? hasNextTag(input.tags) : undefined
+    });
+
+    const reconciled = { ...input };
+    if (input.status !== undefined || queue.status !== current.status) {
+        reconciled.status = queue.status;
+    }
+    if (input.tags !== undefined || queue.hasNextTag !== current.hasNextTag) {
+        // Existing tags are looked up by name, so only new ones need an id and color
+        const currentTags = (existing?.tagNames ?? []).map(name => ({ id: generateTagId(), name, color: DEFAULT_TAG_COLOR }));
+        reconciled.tags = setNextTag(input.tags ?? currentTags, queue.hasNextTag);
+    }
+    return reconciled;
+}
+
+/**
+ * Load existing books with their tag and series names
+ */
+function loadExistingBooks(tx: DbTransaction): PlannedBook[] {
+    const tagRows = tx
+        .select({ bookId: bookTags.bookId, name: tags.name })
+        .from(bookTags)
+        .innerJoin(tags, eq(bookTags.tagId, tags.id))
+        .all();
+
+    const tagNamesByBook = new Map<string, string[]>();
+    for (const row of tagRows) {
+        if (!row.bookId) continue;
+        const names = tagNamesByBook.get(row.bookId) ?? [];
+        names.push(row.name);
+        tagNamesByBook.set(row.bookId, names);
+    }
+
+    const seriesNames = new Map(
+        tx.select({ id: series.id, name: series.name }).from(series).all().map(row => [row.id, row.name])
+    );
+
+    return tx.select().from(books).all().map(book => ({
+        id: book.id,
+        columns: {
+            title: book.title,
+            author: book.author,
+            performanceRating: book.performanceRating,
+            storyRating: book.storyRating,
+            description: book.description,
+            coverImageUrl: book.coverImageUrl,
+            audibleUrl: book.audibleUrl,
+            queuePosition: book.queuePosition,
+            highlyRatedFor: book.highlyRatedFor,
+            narrators: formatNarrators(book.narrators) || null,
+            status: book.status,
+            series: book.seriesId ? seriesNames.get(book.seriesId) ?? null : null,
+            seriesPosition: book.seriesPosition,
+            durationMinutes: book.durationMinutes,
+            personalRating: book.personalRating,
+            review: book.review
+        },
+        tagNames: tagNamesByBook.get(book.id) ?? []
+    }));
+}
+
+/**
+ * Work out what the import would do with each incoming book: create it,
+ * update the book it matches (by id, else title+author), or skip it.
+ * Books created earlier in the payload are matched like existing ones.
+ */
+function planBulkImport(tx: DbTransaction, importBooks: ImportBookInput[], strategy: ImportStrategy): ImportPlan {
+    const existingBooks = loadExistingBooks(tx);
+    const deleted = strategy === 'replace' ? existingBooks.length : 0;
+    const plannedBooks = strategy === 'replace' ? [] : existingBooks;
+
+    const booksById = new Map(plannedBooks.map(book => [book.id, book]));
+    const booksByKey = new Map(plannedBooks.map(book => [
+        getBookMatchKey({ title: String(book.columns.title), author: String(book.columns.author) }),
+        book
+    ]));
+
+    const steps = importBooks.map((rawBook, index): ImportStep => {
+        let input = normalizeImportedTags(rawBook);
+        const entry: ImportPreviewEntry = {
+            index,
+            title: typeof input?.title === 'string' ? input.title : undefined,
+            author: typeof input?.author === 'string' ? input.author : undefined,
+            action: 'invalid',
+            changes: [],
+            addedTags: [],
+            removedTags: []
+        };
+
+        if (!isValidCreateBookInput(input)) {
+            entry.message = 'Invalid book data';
+            return { entry };
+        }
+
+        const importedId = typeof input.id === 'string' && input.id.trim() !== '' ? input.id : undefined;
+
+        // Find existing book by ID, or by title+author if ID is empty/missing
+        let existing = importedId ? booksById.get(importedId) : undefined;
+        if (existing) {
+            entry.matchedBy = 'id';
+        } else {
+            existing = booksByKey.get(getBookMatchKey(input));
+            if (existing) entry.matchedBy = 'title-author';
+        }
+
+        if (existing) {
+            entry.matchedBookId = existing.id;
+        }
+
+        if (existing && strategy === 'skip-duplicates') {
+            entry.action = 'skip';
+            entry.message = 'Skipped duplicate book';
+            return { entry, input };
+        }
+
+        input = reconcileImportedQueue(input, existing);
+        const incomingTagNames = input.tags !== undefined
+            ? Array.from(new Set(input.tags.map(tag => tag.name)))
+            : undefined;
+
+        if (existing) {
+            entry.action = 'update';
+
+            const columns = toBookColumns(input);
+            for (const field of IMPORTABLE_FIELDS) {
+                const to = columns[field];
+                if (to !== undefined && to !== existing.columns[field]) {
+                    entry.changes.push({ field, from: existing.columns[field], to });
+                }
+            }
+
+            if (incomingTagNames) {
+                entry.addedTags = incomingTagNames.filter(name => !existing.tagNames.includes(name));
+                entry.removedTags = existing.tagNames.filter(name => !incomingTagNames.includes(name));
+                existing.tagNames = incomingTagNames;
+            }
+
+            // Keep the plan's view of the book current for later rows
+            booksByKey.delete(getBookMatchKey({ title: String(existing.columns.title), author: String(existing.columns.author) }));
+            existing.columns = { ...existing.columns, ...columns };
+            booksByKey.set(getBookMatchKey(input), existing);
+
+            return { entry, input, bookId: existing.id };
+        }
+
+        entry.action = 'create';
+        entry.addedTags = incomingTagNames ?? [];
+
+        // Keep ids from backups when they are free so exports round-trip
+        const bookId = importedId && !booksById.has(importedId) ? importedId : generateId();
+        const created: PlannedBook = {
+            id: bookId,
+            columns: { ...emptyColumns(), ...toBookColumns(input) },
+            tagNames: incomingTagNames ?? []
+        };
+        booksById.set(bookId, created);
+        booksByKey.set(getBookMatchKey(input), created);
+
+        return { entry, input, bookId };
+    });
+
+    return { steps, deleted };
+}
+
+/**
+ * Resolve tag ids by name, creating missing tags
+ */
+function resolveTagIds(
+    tx: DbTransaction,
+    bookTagsInput: BookTag[],
+    tagIdsByName: Map<string, string>,
+    now: string
+): string[] {
+    const tagIds = new Set<string>();
+
+    for (const tag of bookTagsInput) {
+        let tagId = tagIdsByName.get(tag.name);
+
+        if (!tagId) {
+            // Reuse the imported id unless it already belongs to another tag
+            const idTaken = tx.select({ id: tags.id }).from(tags).where(eq(tags.id, tag.id)).get();
+            tagId = idTaken ? generateTagId() : tag.id;
+
+            tx.insert(tags).values({
+                id: tagId,
+                name: tag.name,
+                color: tag.color,
+                createdAt: now
+            }).run();
+            tagIdsByName.set(tag.name, tagId);
+        }
+
+        tagIds.add(tagId);
+    }
+
+    return Array.from(tagIds);
+}
+
+/**
+ * Replace the tag relationships of a book
+ */
+function setBookTags(
+    tx: DbTransaction,
+    bookId: string,
+    bookTagsInput: BookTag[],
+    tagIdsByName: Map<string, string>,
+    now: string
+): void {
+    tx.delete(bookTags).where(eq(bookTags.bookId, bookId)).run();
+
+    const tagIds = resolveTagIds(tx, bookTagsInput, tagIdsByName, now);
+    if (tagIds.length > 0) {
+        tx.insert(bookTags).values(tagIds.map(tagId => ({ bookId, tagId }))).run();
+    }
+}
+
+function countActions(entries: ImportPreviewEntry[]) {
+    return {
+        created: entries.filter(entry => entry.action === 'create').length,
+        updated: entries.filter(entry => entry.action === 'update').length,
+        skipped: entries.filter(entry => entry.action === 'skip' || entry.action === 'invalid').length
+    };
+}
+
+/**
+ * Compute what an import would do without writing anything
+ */
+export function previewBulkImport(importBooks: ImportBookInput[], strategy: ImportStrategy): BulkImportPreview {
+    const plan = db.transaction((tx) => planBulkImport(tx, importBooks, strategy));
+    const entries = plan.steps.map(step => step.entry);
+
+    return {
+        strategy,
+        ...countActions(entries),
+        deleted: plan.deleted,
+        entries
+    };
+}
+
+/**
+ * Import books using the given strategy inside a single transaction and
+ * record it as an import session that can be undone.
+ * Invalid books are skipped with a warning; any database error rolls back
+ * the whole import and is rethrown.
+ */
+export function runBulkImport(
+    importBooks: ImportBookInput[],
+    strategy: ImportStrategy,
+    sourceFileName?: string
+): BulkImportResult {
+    return db.transaction((tx) => {
+        const now = new Date().toISOString();
+        const plan = planBulkImport(tx, importBooks, strategy);
+        const entries = plan.steps.map(step => step.entry);
+
+        // Snapshot the rows this import is about to change
+        const createdBookIds = plan.steps.flatMap(step => step.entry.action === 'create' && step.bookId ? [step.bookId] : []);
+        const updatedBookIds = Array.from(new Set(
+            plan.steps.flatMap(step => step.entry.action === 'update' && step.bookId ? [step.bookId] : [])
+        )).filter(bookId => !createdBookIds.includes(bookId));
+        const snapshot = snapshotBooks(tx, strategy === 'replace' ? 'all' : updatedBookIds);
+
+        if (strategy === 'replace') {
+            tx.delete(bookTags).run();
+            tx.delete(books).run();
+        }
+
+        const tagIdsByName = new Map(
+            tx.select({ id: tags.id, name: tags.name }).from(tags).all().map(tag => [tag.name, tag.id])
+        );
+        const existingTagIds = new Set(tagIdsByName.values());
+        const existingSeriesIds = new Set(tx.select({ id: series.id }).from(series).all().map(row => row.id));
+
+        for (const { entry, input, bookId } of plan.steps) {
+            if (!input || !bookId) continue;
+            const importedSeries = getImportedSeries(input);
+
+            if (entry.action === 'create') {
+                tx.insert(books).values({
+                    id: bookId,
+                    title: input.title.trim(),
+                    author: input.author.trim(),
+                    performanceRating: input.performanceRating ?? null,
+                    storyRating: input.storyRating ?? null,
+                    description: input.description?.trim() || null,
+                    coverImageUrl: input.coverImageUrl?.trim() || null,
+                    audibleUrl: input.audibleUrl?.trim() || null,
+                    queuePosition: input.queuePosition ?? null,
+                    dateAdded: resolveDate(input.dateAdded, now),
+                    highlyRatedFor: input.highlyRatedFor?.trim() || null,
+                    narrators: normalizeNarrators(input.narrators),
+                    ...resolveStatusColumns(input, now),
+                    seriesId: resolveSeriesId(tx, importedSeries.name, importedSeries.totalVolumes, now) ?? null,
+                    seriesPosition: input.seriesPosition ?? null,
+                    durationMinutes: input.durationMinutes ?? null,
+                    personalRating: input.personalRating || null,
+                    review: input.review?.trim() || null
+                }).run();
+
+                setBookTags(tx, bookId, input.tags ?? [], tagIdsByName, now);
+            } else if (entry.action === 'update') {
+                // Merge: only write the fields that actually change
+                if (entry.changes.length > 0) {
+                    const updateData = Object.fromEntries(entry.changes
+                        .filter(change => change.field !== 'series')
+                        .map(change => [
+                            change.field,
+                            change.field === 'narrators' ? parseNarrators(change.to as string | null) : change.to
+                        ]));
+                    if (input.status && entry.changes.some(change => change.field === 'status')) {
+                        Object.assign(updateData, getStatusTransition(input.status, now));
+                    }
+                    if (entry.changes.some(change => change.field === 'series')) {
+                        updateData.seriesId = resolveSeriesId(tx, importedSeries.name, importedSeries.totalVolumes, now) ?? null;
+                    }
+                    tx.update(books).set(updateData).where(eq(books.id, bookId)).run();
+                }
+
+                if (entry.addedTags.length > 0 || entry.removedTags.length > 0) {
+                    setBookTags(tx, bookId, input.tags ?? [], tagIdsByName, now);
+                }
+            }
+        }
+
+        // Replacing deletes every book along with its notes; give each note
+        // back to the book that replaced it, matched by id, then title and author
+        if (strategy === 'replace' && snapshot.notes && snapshot.notes.length > 0) {
+            const newIdsByKey = new Map(plan.steps.flatMap(step =>
+                step.entry.action === 'create' && step.input && step.bookId ? [[getBookMatchKey(step.input), step.bookId]] : []
+            ));
+            const oldKeysById = new Map(snapshot.books.map(book => [book.id, getBookMatchKey(book)]));
+            const reattachedNotes = snapshot.notes.flatMap(note => {
+                const bookId = createdBookIds.includes(note.bookId)
+                    ? note.bookId
+                    : newIdsByKey.get(oldKeysById.get(note.bookId) ?? '');
+                return bookId ? [{ ...note, bookId }] : [];
+            });
+            if (reattachedNotes.length > 0) {
+                tx.insert(bookNotes).values(reattachedNotes).run();
+            }
+        }
+
+        const counts = { strategy, ...countActions(entries), deleted: plan.deleted };
+        const sessionId = recordImportSession(tx, counts, {
+            ...snapshot,
+            createdBookIds,
+            createdTagIds: Array.from(tagIdsByName.values()).filter(tagId => !existingTagIds.has(tagId)),
+            createdSeriesIds: tx.select({ id: series.id }).from(series).all()
+                .map(row => row.id)
+                .filter(seriesId => !existingSeriesIds.has(seriesId))
+        }, sourceFileName);
+
+        return {
+            ...counts,
+            warnings: entries
+                .filter(entry => entry.message)
+                .map(entry => ({ index: entry.index, title: entry.title, message: entry.message! })),
+            sessionId
+        };
+    });
+}
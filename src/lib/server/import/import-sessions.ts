@@ -0,0 +1,216 @@
+/**
+ * Import sessions
+ * Every applied import is recorded with a snapshot of the rows it touched,
+ * so the most recent import can be rolled back
+ */
+
+import { db, type DbTransaction } from '../db/connection.js';
+import { bookNotes, books, bookTags, importSessions, series, tags } from '../db/schema.js';
+import { desc, eq, inArray, isNull } from 'drizzle-orm';
+import { generateId } from '$lib/utils/id.js';
+import type {
+    BulkImportResult,
+    ImportSession,
+    ImportStrategy,
+    UndoImportResult
+} from '$lib/types/import.js';
+
+/**
+ * Rows as they were before an import, plus what the import created
+ */
+export interface ImportSnapshot {
+    books: Array<typeof books.$inferSelect>;
+    bookTags: Array<{ bookId: string; tagId: string }>;
+    // Missing from sessions recorded before notes existed
+    notes?: Array<typeof bookNotes.$inferSelect>;
+    createdBookIds: string[];
+    createdTagIds: string[];
+    // Missing from sessions recorded before created series were tracked
+    createdSeriesIds?: string[];
+}
+
+function toImportSession(row: typeof importSessions.$inferSelect): ImportSession {
+    return {
+        id: row.id,
+        sourceFileName: row.sourceFileName,
+        strategy: row.strategy as ImportStrategy,
+        created: row.createdCount,
+        updated: row.updatedCount,
+        skipped: row.skippedCount,
+        deleted: row.deletedCount,
+        createdAt: new Date(row.createdAt),
+        undoneAt: row.undoneAt ? new Date(row.undoneAt) : null
+    };
+}
+
+/**
+ * Capture books with their tag relationships and notes before they are changed
+ */
+export function snapshotBooks(
+    tx: DbTransaction,
+    bookIds: string[] | 'all'
+): Pick<ImportSnapshot, 'books' | 'bookTags' | 'notes'> {
+    if (bookIds !== 'all' && bookIds.length === 0) {
+        return { books: [], bookTags: [], notes: [] };
+    }
+
+    const bookRows = bookIds === 'all'
+        ? tx.select().from(books).all()
+        : tx.select().from(books).where(inArray(books.id, bookIds)).all();
+    const tagRows = bookIds === 'all'
+        ? tx.select().from(bookTags).all()
+        : tx.select().from(bookTags).where(inArray(bookTags.bookId, bookIds)).all();
+    const noteRows = bookIds === 'all'
+        ? tx.select().from(bookNotes).all()
+        : tx.select().from(bookNotes).where(inArray(bookNotes.bookId, bookIds)).all();
+
+    return {
+        books: bookRows,
+        bookTags: tagRows.flatMap(row => row.bookId && row.tagId ? [{ bookId: row.bookId, tagId: row.tagId }] : []),
+        notes: noteRows
+    };
+}
+
+/**
+ * Record an applied import inside the import's transaction
+ */
+export function recordImportSession(
+    tx: DbTransaction,
+    result: Omit<BulkImportResult, 'warnings' | 'sessionId'>,
+    snapshot: ImportSnapshot,
+    sourceFileName?: string
+): string {
+    const id = generateId();
+
+    tx.insert(importSessions).values({
+        id,
+        sourceFileName: sourceFileName?.trim() || null,
+        strategy: result.strategy,
+        createdCount: result.created,
+        updatedCount: result.updated,
+        skippedCount: result.skipped,
+        deletedCount: result.deleted,
+        snapshot: JSON.stringify(snapshot),
+        createdAt: new Date().toISOString()
+    }).run();
+
+    return id;
+}
+
+/**
+ * List import sessions, newest first
+ */
+export function listImportSessions(limit = 20): ImportSession[] {
+    return db
+        .select()
+        .from(importSessions)
+        .orderBy(desc(importSessions.createdAt))
+        .limit(limit)
+        .all()
+        .map(toImportSession);
+}
+
+/**
+ * Restore the state from before the most recent import that has not been
+ * undone yet. Returns null when there is nothing to undo.
+ */
+export function undoLastImport(): UndoImportResult | null {
+    return db.transaction((tx) => {
+        const session = tx
+            .select()
+            .from(importSessions)
+            .where(isNull(importSessions.undoneAt))
+            .orderBy(desc(importSessions.createdAt))
+            .limit(1)
+            .get();
+
+        if (!session) return null;
+
+        const snapshot = JSON.parse(session.snapshot) as ImportSnapshot;
+        const restoredIds = snapshot.books.map(book => book.id);
+        const affectedIds = [...snapshot.createdBookIds, ...restoredIds];
+
+        // Notes are ours rather than imported, so keep the current version of
+        // every note; notes that moved to a new book go back to the old one
+        const currentNotes = affectedIds.length > 0
+            ? tx.select().from(bookNotes).where(inArray(bookNotes.bookId, affectedIds)).all()
+            : [];
+        const notesById = new Map(currentNotes.map(note => [note.id, note]));
+        for (const note of snapshot.notes ?? []) {
+            notesById.set(note.id, { ...(notesById.get(note.id) ?? note), bookId: note.bookId });
+        }
+
+        // Remove what the import created or changed, then put the old rows back
+        if (affectedIds.length > 0) {
+            tx.delete(bookTags).where(inArray(bookTags.bookId, affectedIds)).run();
+            tx.delete(books).where(inArray(books.id, affectedIds)).run();
+        }
+
+        // Series may have been deleted since the import; those books go back without one
+        if (snapshot.books.length > 0) {
+            const existingSeriesIds = new Set(tx.select({ id: series.id }).from(series).all().map(row => row.id));
+            tx.insert(books).values(snapshot.books.map(book =>
+                book.seriesId && !existingSeriesIds.has(book.seriesId) ? { ...book, seriesId: null, seriesPosition: null } : book
+            )).run();
+        }
+
+        const existingBookIds = new Set(tx.select({ id: books.id }).from(books).all().map(book => book.id));
+        const restorableNotes = Array.from(notesById.values()).filter(note => existingBookIds.has(note.bookId));
+        if (restorableNotes.length > 0) {
+            tx.insert(bookNotes).values(restorableNotes).run();
+        }
+
+        // Tag relationships may point at tags created by a later import that was removed
+        const existingTagIds = new Set(tx.select({ id: tags.id }).from(tags).all().map(tag => tag.id));
+        const restorableBookTags = snapshot.bookTags.filter(row => existingTagIds.has(row.tagId));
+        if (restorableBookTags.length > 0) {
+            tx.insert(bookTags).values(restorableBookTags).run();
+        }
+
+        // Drop tags the import created unless other books use them now
+        let tagsRemoved = 0;
+        if (snapshot.createdTagIds.length > 0) {
+            const usedTagIds = new Set(
+                tx.select({ tagId: bookTags.tagId })
+                    .from(bookTags)
+                    .where(inArray(bookTags.tagId, snapshot.createdTagIds))
+                    .all()
+                    .map(row => row.tagId)
+            );
+            const unusedTagIds = snapshot.createdTagIds.filter(tagId => !usedTagIds.has(tagId));
+            if (unusedTagIds.length > 0) {
+                tx.delete(tags).where(inArray(tags.id, unusedTagIds)).run();
+                tagsRemoved = unusedTagIds.length;
+            }
+        }
+
+        // Likewise drop series the import created once no book is in them
+        let seriesRemoved = 0;
+        const createdSeriesIds = snapshot.createdSeriesIds ?? [];
+        if (createdSeriesIds.length > 0) {
+            const usedSeriesIds = new Set(
+                tx.select({ seriesId: books.seriesId })
+                    .from(books)
+                    .where(inArray(books.seriesId, createdSeriesIds))
+                    .all()
+                    .map(row => row.seriesId)
+            );
+            const unusedSeriesIds = createdSeriesIds.filter(seriesId => !usedSeriesIds.has(seriesId));
+            if (unusedSeriesIds.length > 0) {
+                tx.delete(series).where(inArray(series.id, unusedSeriesIds)).run();
+                seriesRemoved = unusedSeriesIds.length;
+            }
+        }
+
+        const undoneAt = new Date().toISOString();
+        tx.update(importSessions).set({ undoneAt }).where(eq(importSessions.id, session.id)).run();
+
+        return {
+            session: toImportSession({ ...session, undoneAt }),
+            booksRestored: snapshot.books.length,
+            booksRemoved: snapshot.createdBookIds.length,
+            tagsRemoved,
+            seriesRemoved
+        };
+    });
+}
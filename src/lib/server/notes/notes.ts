@@ -0,0 +1,105 @@
+/**
+ * Book notes
+ * Private, timestamped notes kept in their own table so imports, which
+ * overwrite the description, never touch them
+ */
+
+import { db } from '../db/connection.js';
+import { bookNotes, books } from '../db/schema.js';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { generateId } from '$lib/utils/id.js';
+import type { BookNote } from '$lib/types/book.js';
+
+function toBookNote(row: typeof bookNotes.$inferSelect): BookNote {
+    return {
+        id: row.id,
+        body: row.body,
+        createdAt: new Date(row.createdAt),
+        updatedAt: new Date(row.updatedAt)
+    };
+}
+
+/**
+ * List a book's notes, newest first
+ */
+export function listNotes(bookId: string): BookNote[] {
+    return db
+        .select()
+        .from(bookNotes)
+        .where(eq(bookNotes.bookId, bookId))
+        .orderBy(desc(bookNotes.createdAt))
+        .all()
+        .map(toBookNote);
+}
+
+/**
+ * Load the notes of many books at once, newest first
+ * @returns notes keyed by book id; books without notes are left out
+ */
+export function listNotesByBook(bookIds: string[]): Map<string, BookNote[]> {
+    const notesByBook = new Map<string, BookNote[]>();
+    if (bookIds.length === 0) return notesByBook;
+
+    const rows = db
+        .select()
+        .from(bookNotes)
+        .where(inArray(bookNotes.bookId, bookIds))
+        .orderBy(desc(bookNotes.createdAt))
+        .all();
+
+    for (const row of rows) {
+        notesByBook.set(row.bookId, [...(notesByBook.get(row.bookId) ?? []), toBookNote(row)]);
+    }
+
+    return notesByBook;
+}
+
+/**
+ * Add a note to a book
+ * @returns the new note, or null when the book does not exist
+ */
+export function createNote(bookId: string, body: string): BookNote | null {
+    const book = db.select({ id: books.id }).from(books).where(eq(books.id, bookId)).get();
+    if (!book) return null;
+
+    const now = new Date().toISOString();
+    const row = {
+        id: generateId(),
+        bookId,
+        body: body.trim(),
+        createdAt: now,
+        updatedAt: now
+    };
+    db.insert(bookNotes).values(row).run();
+
+    return toBookNote(row);
+}
+
+/**
+ * Change the text of a note
+ * @returns the updated note, or null when the book has no such note
+ */
+export function updateNote(bookId: string, noteId: string, body: string): BookNote | null {
+    const where = and(eq(bookNotes.id, noteId), eq(bookNotes.bookId, bookId));
+
+    db.update(bookNotes)
+        .set({ body: body.trim(), updatedAt: new Date().toISOString() })
+        .where(where)
+        .run();
+
+    const row = db.select().from(bookNotes).where(where).get();
+    return row ? toBookNote(row) : null;
+}
+
+/**
+ * Delete a note
+ * @returns whether the book had the note
+ */
+export function deleteNote(bookId: string, noteId: string): boolean {
+    const result = db
+        .delete(bookNotes)
+        .where(and(eq(bookNotes.id, noteId), eq(bookNotes.bookId, bookId)))
+        .run();
+
+    return result.changes > 0;
+}
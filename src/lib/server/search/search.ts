@@ -0,0 +1,184 @@
+/**
+ * Full-text search
+ * Books are indexed in the books_fts FTS5 table, which triggers keep in step
+ * with the books table (see drizzle/0009_add_book_search.sql). Titles, authors
+ * and narrators are also matched fuzzily, so typos still find books.
+ */
+
+import { db, sqlite } from '../db/connection.js';
+import { loadBooks } from '../books/book-query.js';
+import { books } from '../db/schema.js';
+import { sql } from 'drizzle-orm';
+import { fuzzyFind, suggestCorrection, type FuzzyMatch } from '$lib/utils/fuzzy.js';
+import type { BookSearchResult, SearchSnippetPart } from '$lib/types/book.js';
+
+// Snippet highlight markers; control characters never appear in book text
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+export interface BookSearch {
+    results: BookSearchResult[];
+    // Corrected query to offer as "did you mean" when nothing was found
+    suggestion: string | null;
+}
+
+// bm25 column weights: book_id, title, author, narrators, description, highly_rated_for
+const COLUMN_WEIGHTS = [0, 10, 6, 4, 1, 2];
+
+/**
+ * Fail with a clear message when the search index is missing. It comes from
+ * a migration, so databases set up with `drizzle-kit push` need
+ * scripts/create-search-index.js (run by the db:push scripts).
+ */
+function requireSearchIndex(): void {
+    const existing = sqlite
+        .prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'books_fts'`)
+        .get();
+
+    if (!existing) {
+        throw new Error(
+            'Search index books_fts is missing: run the database migrations, or scripts/create-search-index.js after drizzle-kit push'
+        );
+    }
+}
+
+function toWords(query: string): string[] {
+    return query.match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Turn what was typed into an FTS5 query: every word must match, and the
+ * last characters typed may be the start of a longer word. Returns null
+ * when there is nothing to search for.
+ */
+export function toMatchQuery(query: string): string | null {
+    const words = toWords(query);
+    if (words.length === 0) return null;
+
+    return words.map(word => `"${word}"*`).join(' ');
+}
+
+/**
+ * Split an FTS5 snippet into plain and matched parts
+ */
+function toSnippetParts(snippet: string): SearchSnippetPart[] {
+    const parts: SearchSnippetPart[] = [];
+
+    for (const [index, piece] of snippet.split(MATCH_START).entries()) {
+        const [matched, rest] = index === 0 ? [null, piece] : piece.split(MATCH_END);
+        if (matched) parts.push({ text: matched, match: true });
+        if (rest) parts.push({ text: rest, match: false });
+    }
+
+    return parts;
+}
+
+/**
+ * Highlight matches in a field's text
+ */
+function toHighlightedParts(text: string, matches: FuzzyMatch[]): SearchSnippetPart[] {
+    const parts: SearchSnippetPart[] = [];
+    let position = 0;
+
+    for (const match of [...matches].sort((a, b) => a.start - b.start)) {
+        if (match.start < position) continue;
+        if (match.start > position) parts.push({ text: text.slice(position, match.start), match: false });
+        parts.push({ text: text.slice(match.start, match.end), match: true });
+        position = match.end;
+    }
+    if (position < text.length) parts.push({ text: text.slice(position), match: false });
+
+    return parts;
+}
+
+type SearchFields = ReturnType<typeof loadSearchFields>[number];
+
+function loadSearchFields() {
+    return db
+        .select({ id: books.id, title: books.title, author: books.author, narrators: books.narrators })
+        .from(books)
+        .all()
+        .map(book => ({ id: book.id, fields: [book.title, book.author, (book.narrators ?? []).join(', ')] }));
+}
+
+/**
+ * Books whose title, author or narrators match every word allowing for
+ * typos, closest first; the snippet is the field that matched best
+ */
+function fuzzySearch(words: string[], searchFields: SearchFields[], limit: number): BookSearchResult[] {
+    const matches = searchFields.flatMap(book => {
+        const best = words.map(word => {
+            const found = book.fields.map(field => fuzzyFind(word, field));
+            const index = found.reduce((bestIndex, match, i) =>
+                (match?.score ?? 0) > (found[bestIndex]?.score ?? 0) ? i : bestIndex, 0);
+            return { field: index, match: found[index] };
+        });
+        if (best.some(word => !word.match)) return [];
+
+        const field = best[0].field;
+        const score = best.reduce((sum, word) => sum + word.match!.score, 0) / words.length;
+        const highlighted = best.filter(word => word.field === field).map(word => word.match!);
+
+        return [{ id: book.id, score, snippet: toHighlightedParts(book.fields[field], highlighted) }];
+    });
+
+    matches.sort((a, b) => b.score - a.score);
+    const found = matches.slice(0, limit);
+    const booksById = new Map(loadBooks(found.map(match => match.id)).map(book => [book.id, book]));
+
+    return found.flatMap(match => {
+        const book = booksById.get(match.id);
+        return book ? [{ book, score: match.score, snippet: match.snippet }] : [];
+    });
+}
+
+/**
+ * The query rebuilt from the closest words in titles, authors and
+ * narrators, or null when there is nothing to suggest
+ */
+function suggestWords(words: string[], searchFields: SearchFields[]): string | null {
+    const corrections = suggestCorrection(words, searchFields.flatMap(book => book.fields));
+    if (!corrections) return null;
+
+    return words.map(word => corrections.get(word) ?? word).join(' ');
+}
+
+/**
+ * Books matching a search, most relevant first, with a highlighted snippet
+ * from the best matching field. When the full-text index has no hits, books
+ * are found despite typos, and when there are none of those either a
+ * corrected query is suggested.
+ */
+export function searchBooks(query: string, limit = 20): BookSearch {
+    const matchQuery = toMatchQuery(query);
+    if (!matchQuery) return { results: [], suggestion: null };
+
+    requireSearchIndex();
+
+    const rows = db.all<{ bookId: string; score: number; snippet: string }>(sql`
+        select
+            book_id as bookId,
+            -bm25(books_fts, ${sql.raw(COLUMN_WEIGHTS.join(', '))}) as score,
+            snippet(books_fts, -1, ${MATCH_START}, ${MATCH_END}, '…', 16) as snippet
+        from books_fts
+        where books_fts match ${matchQuery}
+        order by score desc
+        limit ${limit}
+    `);
+
+    if (rows.length > 0) {
+        const booksById = new Map(loadBooks(rows.map(row => row.bookId)).map(book => [book.id, book]));
+        const results = rows.flatMap(row => {
+            const book = booksById.get(row.bookId);
+            return book ? [{ book, score: row.score, snippet: toSnippetParts(row.snippet) }] : [];
+        });
+        return { results, suggestion: null };
+    }
+
+    // One read of the search fields serves both the typo search and the suggestion
+    const words = toWords(query);
+    const searchFields = loadSearchFields();
+    const results = fuzzySearch(words, searchFields, limit);
+
+    return { results, suggestion: results.length === 0 ? suggestWords(words, searchFields) : null };
+}
@@ -0,0 +1,128 @@
+/**
+ * Book series
+ * Series are matched by name when books are saved, so the client never has
+ * to manage series ids
+ */
+
+import { db, type DbTransaction } from '../db/connection.js';
+import { books, series } from '../db/schema.js';
+import { and, asc, count, eq, ne, sql } from 'drizzle-orm';
+import { generateId } from '$lib/utils/id.js';
+import type { Book, BookSeries } from '$lib/types/book.js';
+
+type Executor = typeof db | DbTransaction;
+
+export interface SeriesSummary extends BookSeries {
+    bookCount: number;
+}
+
+/**
+ * Find a series by name (case-insensitive), creating it when missing.
+ * A provided totalVolumes overwrites the stored one; an empty name clears
+ * the series.
+ * @returns the series id, null to clear the series, or undefined to leave it unchanged
+ */
+export function resolveSeriesId(
+    executor: Executor,
+    seriesName: string | undefined,
+    totalVolumes: number | undefined,
+    now: string
+): string | null | undefined {
+    if (seriesName === undefined) return undefined;
+
+    const name = seriesName.trim();
+    if (!name) return null;
+
+    const existing = executor
+        .select()
+        .from(series)
+        .where(sql`lower(${series.name}) = lower(${name})`)
+        .get();
+
+    if (existing) {
+        if (totalVolumes !== undefined && totalVolumes !== existing.totalVolumes) {
+            executor
+                .update(series)
+                .set({ totalVolumes })
+                .where(eq(series.id, existing.id))
+                .run();
+        }
+        return existing.id;
+    }
+
+    const id = generateId();
+    executor.insert(series).values({
+        id,
+        name,
+        totalVolumes: totalVolumes ?? null,
+        createdAt: now
+    }).run();
+
+    return id;
+}
+
+/**
+ * Converts joined series columns into Book fields
+ */
+export function toSeriesFields(row: {
+    seriesId: string | null;
+    seriesName: string | null;
+    seriesTotalVolumes: number | null;
+    seriesPosition: number | null;
+}): Pick<Book, 'series' | 'seriesPosition'> {
+    return {
+        series: row.seriesId && row.seriesName
+            ? { id: row.seriesId, name: row.seriesName, totalVolumes: row.seriesTotalVolumes ?? undefined }
+            : undefined,
+        seriesPosition: row.seriesPosition ?? undefined
+    };
+}
+
+/**
+ * List series that have at least one book, by name
+ */
+export function listSeries(): SeriesSummary[] {
+    return db
+        .select({
+            id: series.id,
+            name: series.name,
+            totalVolumes: series.totalVolumes,
+            bookCount: count(books.id)
+        })
+        .from(series)
+        .innerJoin(books, eq(books.seriesId, series.id))
+        .groupBy(series.id)
+        .orderBy(asc(series.name))
+        .all()
+        .map(row => ({ ...row, totalVolumes: row.totalVolumes ?? undefined }));
+}
+
+/**
+ * Checks whether another series already has a name, ignoring case
+ */
+export function isSeriesNameTaken(name: string, exceptId: string): boolean {
+    const existing = db
+        .select({ id: series.id })
+        .from(series)
+        .where(and(sql`lower(${series.name}) = lower(${name.trim()})`, ne(series.id, exceptId)))
+        .get();
+
+    return !!existing;
+}
+
+/**
+ * Rename a series or change its number of volumes
+ * @returns the updated series, or null when it does not exist
+ */
+export function updateSeries(id: string, changes: { name?: string; totalVolumes?: number | null }): BookSeries | null {
+    const updateData: Partial<typeof series.$inferInsert> = {};
+    if (changes.name !== undefined) updateData.name = changes.name.trim();
+    if (changes.totalVolumes !== undefined) updateData.totalVolumes = changes.totalVolumes ?? null;
+
+    if (Object.keys(updateData).length > 0) {
+        db.update(series).set(updateData).where(eq(series.id, id)).run();
+    }
+
+    const row = db.select().from(series).where(eq(series.id, id)).get();
+    return row ? { id: row.id, name: row.name, totalVolumes: row.totalVolumes ?? undefined } : null;
+}
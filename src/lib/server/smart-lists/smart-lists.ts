@@ -0,0 +1,118 @@
+/**
+ * Smart lists
+ * Named wishlist filters saved on the server so every device sees the same
+ * lists. The filters are stored as a whole FilterState, so new kinds of
+ * filter are saved without changes here.
+ */
+
+import { db } from '../db/connection.js';
+import { smartLists } from '../db/schema.js';
+import { and, asc, eq, ne, sql } from 'drizzle-orm';
+import { generateId } from '$lib/utils/id.js';
+import type { FilterState } from '$lib/types/book.js';
+import type { CreateSmartListInput, SmartList, UpdateSmartListInput } from '$lib/types/smart-list.js';
+
+function toSmartList(row: typeof smartLists.$inferSelect): SmartList {
+    return {
+        id: row.id,
+        name: row.name,
+        filters: row.filters,
+        createdAt: new Date(row.createdAt),
+        updatedAt: new Date(row.updatedAt)
+    };
+}
+
+/**
+ * Keep only the FilterState fields, dropping unset optional ones
+ */
+function toStoredFilters(filters: FilterState): FilterState {
+    return {
+        searchQuery: filters.searchQuery.trim(),
+        selectedTags: filters.selectedTags,
+        ...(filters.tagMatch === 'any' ? { tagMatch: 'any' as const } : {}),
+        ...(filters.excludedTags?.length ? { excludedTags: filters.excludedTags } : {}),
+        sortBy: filters.sortBy,
+        sortOrder: filters.sortOrder,
+        ...(filters.minDuration !== undefined ? { minDuration: filters.minDuration } : {}),
+        ...(filters.maxDuration !== undefined ? { maxDuration: filters.maxDuration } : {}),
+        ...(filters.minPerformanceRating !== undefined ? { minPerformanceRating: filters.minPerformanceRating } : {}),
+        ...(filters.maxPerformanceRating !== undefined ? { maxPerformanceRating: filters.maxPerformanceRating } : {}),
+        ...(filters.minStoryRating !== undefined ? { minStoryRating: filters.minStoryRating } : {}),
+        ...(filters.maxStoryRating !== undefined ? { maxStoryRating: filters.maxStoryRating } : {}),
+        ...(filters.unratedPerformance ? { unratedPerformance: true } : {}),
+        ...(filters.unratedStory ? { unratedStory: true } : {})
+    };
+}
+
+/**
+ * List smart lists by name
+ */
+export function listSmartLists(): SmartList[] {
+    return db
+        .select()
+        .from(smartLists)
+        .orderBy(asc(sql`${smartLists.name} collate nocase`))
+        .all()
+        .map(toSmartList);
+}
+
+export function getSmartList(id: string): SmartList | null {
+    const row = db.select().from(smartLists).where(eq(smartLists.id, id)).get();
+    return row ? toSmartList(row) : null;
+}
+
+/**
+ * Checks whether another smart list already has a name, ignoring case
+ */
+export function isSmartListNameTaken(name: string, exceptId?: string): boolean {
+    const sameName = sql`lower(${smartLists.name}) = lower(${name.trim()})`;
+    const existing = db
+        .select({ id: smartLists.id })
+        .from(smartLists)
+        .where(exceptId ? and(sameName, ne(smartLists.id, exceptId)) : sameName)
+        .get();
+
+    return !!existing;
+}
+
+/**
+ * Save a new smart list
+ */
+export function createSmartList(input: CreateSmartListInput): SmartList {
+    const now = new Date().toISOString();
+    const row = {
+        id: generateId(),
+        name: input.name.trim(),
+        filters: toStoredFilters(input.filters),
+        createdAt: now,
+        updatedAt: now
+    };
+    db.insert(smartLists).values(row).run();
+
+    return toSmartList(row);
+}
+
+/**
+ * Rename a smart list or replace its filters
+ * @returns the updated list, or null when there is no such list
+ */
+export function updateSmartList(id: string, input: UpdateSmartListInput): SmartList | null {
+    db.update(smartLists)
+        .set({
+            ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+            ...(input.filters !== undefined ? { filters: toStoredFilters(input.filters) } : {}),
+            updatedAt: new Date().toISOString()
+        })
+        .where(eq(smartLists.id, id))
+        .run();
+
+    return getSmartList(id);
+}
+
+/**
+ * Delete a smart list
+ * @returns whether the list existed
+ */
+export function deleteSmartList(id: string): boolean {
+    return db.delete(smartLists).where(eq(smartLists.id, id)).run().changes > 0;
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+const env = vi.hoisted(() => ({} as Record<string, string | undefined>));
+vi.mock('$env/dynamic/private', () => ({ env }));
+
+import { isAdminRequest } from '../admin-auth.js';
+
+function createRequest(authorization?: string) {
+    return new Request('http://localhost/api/admin/backups', {
+        headers: authorization ? { authorization } : {}
+    });
+}
+
+describe('isAdminRequest', () => {
+    afterEach(() => {
+        delete env.ADMIN_TOKEN;
+    });
+
+    it('should accept only the configured bearer token', () => {
+        env.ADMIN_TOKEN = 'secret';
+
+        expect(isAdminRequest(createRequest('Bearer secret'))).toBe(true);
+        expect(isAdminRequest(createRequest('Bearer secret2'))).toBe(false);
+        expect(isAdminRequest(createRequest('secret'))).toBe(false);
+        expect(isAdminRequest(createRequest())).toBe(false);
+    });
+
+    it('should reject every request when no token is configured', () => {
+        expect(isAdminRequest(createRequest())).toBe(false);
+        expect(isAdminRequest(createRequest('Bearer '))).toBe(false);
+        expect(isAdminRequest(createRequest('Bearer undefined'))).toBe(false);
+    });
+});
@@ -0,0 +1,24 @@
+/**
+ * Admin route authorization
+ * Requests must send ADMIN_TOKEN as a bearer token. Without a configured
+ * token the admin API stays closed.
+ */
+
+import { env } from '$env/dynamic/private';
+import { createHash, timingSafeEqual } from 'crypto';
+
+// Hashing first gives both sides the same length, which timingSafeEqual needs
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Checks whether a request may use the admin API
+ */
+export function isAdminRequest(request: Request): boolean {
+    const token = env.ADMIN_TOKEN;
+    const authorization = request.headers.get('authorization');
+    if (!token || !authorization) return false;
+
+    return timingSafeEqual(digest(authorization), digest(`Bearer ${token}`));
+}
@@ -7,6 +7,12 @@ export type ApiErrorCode =
     | 'VALIDATION_ERROR'
     | 'BOOK_NOT_FOUND'
     | 'TAG_NOT_FOUND'
+    | 'IMPORT_SESSION_NOT_FOUND'
+    | 'BACKUP_NOT_FOUND'
+    | 'SERIES_NOT_FOUND'
+    | 'NOTE_NOT_FOUND'
+    | 'AUTHOR_NOT_FOUND'
+    | 'SMART_LIST_NOT_FOUND'
     | 'DATABASE_ERROR'
     | 'NETWORK_ERROR'
     | 'INTERNAL_ERROR'
@@ -45,6 +51,12 @@ export const ERROR_STATUS_MAP: Record<ApiErrorCode, number> = {
     FORBIDDEN: 403,
     BOOK_NOT_FOUND: 404,
     TAG_NOT_FOUND: 404,
+    IMPORT_SESSION_NOT_FOUND: 404,
+    BACKUP_NOT_FOUND: 404,
+    SERIES_NOT_FOUND: 404,
+    NOTE_NOT_FOUND: 404,
+    AUTHOR_NOT_FOUND: 404,
+    SMART_LIST_NOT_FOUND: 404,
     CONFLICT: 409,
     RATE_LIMIT_ERROR: 429,
     DATABASE_ERROR: 500,
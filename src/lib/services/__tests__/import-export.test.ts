@@ -0,0 +1,74 @@
+/**
+ * Tests for ImportExportService file parsing and export formatting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ImportExportService } from '../import-export';
+
+describe('ImportExportService.parseImportContent', () => {
+    it('should parse Audible CSV files', () => {
+        const csv = '"Audiobook Title","Author"\n"Book","Writer"';
+        const result = ImportExportService.parseImportContent('page-1.csv', csv);
+
+        expect(result.format).toBe('audible-csv');
+        expect(result.books).toHaveLength(1);
+    });
+
+    it('should auto-detect the Audible JSON export', () => {
+        const content = JSON.stringify({
+            exportVersion: '1.0',
+            exportDate: '2024-09-24T00:00:00.000Z',
+            totalBooks: 1,
+            books: [{ title: 'Book', author: 'Writer', categories: 'Fiction' }]
+        });
+        const result = ImportExportService.parseImportContent('data.json', content);
+
+        expect(result.format).toBe('audible-json');
+        expect(result.declaredTotal).toBe(1);
+        expect(result.exportDate).toBe('2024-09-24T00:00:00.000Z');
+        expect(result.books[0].tags?.[0].name).toBe('fiction');
+    });
+
+    it('should pass wishlist backups through unchanged', () => {
+        const books = [{ id: '1', title: 'Book', author: 'Writer', tags: [] }];
+        const result = ImportExportService.parseImportContent('backup.json', JSON.stringify({ books, lastUpdated: '2024-01-01' }));
+
+        expect(result.format).toBe('json');
+        expect(result.books).toEqual(books);
+    });
+
+    it('should reject invalid JSON', () => {
+        expect(() => ImportExportService.parseImportContent('broken.json', '{ nope')).toThrow('invalid JSON format');
+        expect(() => ImportExportService.parseImportContent('empty.json', '{}')).toThrow('missing books array');
+    });
+});
+
+describe('ImportExportService.formatExport', () => {
+    const books = [{
+        id: 'book-1',
+        title: 'Book',
+        author: 'Writer',
+        tags: [{ id: 'tag-1', name: 'fiction', color: '#6b7280' }],
+        dateAdded: new Date('2024-01-01')
+    }];
+
+    it('should keep JSON exports importable as backups', () => {
+        const content = ImportExportService.formatExport('json', books);
+        const parsed = ImportExportService.parseImportContent('backup.json', content);
+
+        expect(parsed.format).toBe('json');
+        expect(parsed.books[0]).toMatchObject({ id: 'book-1', title: 'Book' });
+    });
+
+    it('should produce CSV that is detected as an Audible export', () => {
+        const content = ImportExportService.formatExport('csv', books);
+        const parsed = ImportExportService.parseImportContent('wishlist.csv', content);
+
+        expect(parsed.format).toBe('audible-csv');
+        expect(parsed.books[0].tags?.map(tag => tag.name)).toEqual(['fiction']);
+    });
+
+    it('should produce Markdown grouped by tag', () => {
+        expect(ImportExportService.formatExport('markdown', books)).toContain('## fiction (1)');
+    });
+});
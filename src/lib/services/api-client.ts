@@ -2,7 +2,17 @@
  * Simple Frontend API Client
  */
 
-import type { Book, BookTag, CreateBookInput, UpdateBookInput } from '$lib/types/book.js';
+import type { Book, BookFacets, BookNote, BookTag, CreateBookInput, FilterState, UpdateBookInput } from '$lib/types/book.js';
+import type {
+    BulkImportPreview,
+    BulkImportResult,
+    ImportBookInput,
+    ImportSession,
+    ImportStrategy,
+    UndoImportResult
+} from '$lib/types/import.js';
+import type { CreateSmartListInput, SmartList, UpdateSmartListInput } from '$lib/types/smart-list.js';
+import { filtersToSearchParams } from '$lib/stores/filter-store.js';
 
 // Simple API Response Types
 export interface ApiResponse<T = any> {
@@ -10,8 +20,35 @@ export interface ApiResponse<T = any> {
     data?: T;
     error?: string;
     message?: string;
+    pagination?: PaginationMeta;
 }
 
+// Sent with paged lists; nextOffset is null on the last page
+export interface PaginationMeta {
+    total: number;
+    limit: number | null;
+    offset: number;
+    nextOffset: number | null;
+}
+
+export interface BookPageQuery {
+    limit?: number;
+    offset?: number;
+    q?: string;
+    tags?: string[];
+    sortBy?: FilterState['sortBy'];
+    sortOrder?: FilterState['sortOrder'];
+}
+
+export interface BookPage {
+    books: Book[];
+    total: number;
+    nextOffset: number | null;
+}
+
+// Books per request when loading the whole library
+export const BOOK_PAGE_SIZE = 200;
+
 export class ApiClientError extends Error {
     public readonly statusCode?: number;
 
@@ -32,6 +69,13 @@ export class ApiClient {
      * Simple HTTP request
      */
     private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+        return (await this.requestWithMeta<T>(endpoint, options)).data!;
+    }
+
+    /**
+     * HTTP request that keeps the whole response envelope
+     */
+    private async requestWithMeta<T>(endpoint: string, options: RequestInit = {}): Promise<ApiResponse<T>> {
         const url = `${this.baseUrl}${endpoint}`;
 
         const requestOptions: RequestInit = {
@@ -52,18 +96,54 @@ export class ApiClient {
             );
         }
 
-        return data.data!;
+        return data;
     }
 
     // Book Operations
     async getBooks(): Promise<Book[]> {
-        return this.request<Book[]>('/books');
+        // Page through the library so no single response has to hold every book
+        const books: Book[] = [];
+        let offset: number | null = 0;
+
+        while (offset !== null) {
+            const page: BookPage = await this.getBooksPage({ limit: BOOK_PAGE_SIZE, offset });
+            books.push(...page.books);
+            offset = page.nextOffset;
+        }
+
+        return books;
+    }
+
+    async getBooksPage(query: BookPageQuery = {}): Promise<BookPage> {
+        const params = new URLSearchParams();
+        if (query.limit !== undefined) params.set('limit', String(query.limit));
+        if (query.offset) params.set('offset', String(query.offset));
+        if (query.q?.trim()) params.set('q', query.q.trim());
+        if (query.tags && query.tags.length > 0) params.set('tag', query.tags.join(','));
+        if (query.sortBy) params.set('sort', query.sortBy);
+        if (query.sortOrder) params.set('order', query.sortOrder);
+
+        const search = params.toString();
+        const response = await this.requestWithMeta<Book[]>(`/books${search ? `?${search}` : ''}`);
+        const books = response.data ?? [];
+
+        return {
+            books,
+            total: response.pagination?.total ?? books.length,
+            nextOffset: response.pagination?.nextOffset ?? null
+        };
     }
 
     async getBook(id: string): Promise<Book> {
         return this.request<Book>(`/books/${id}`);
     }
 
+    // How many books each filter option would leave, given the other filters
+    async getBookFacets(filters: FilterState): Promise<BookFacets> {
+        const search = filtersToSearchParams(filters).toString();
+        return this.request<BookFacets>(`/books/facets${search ? `?${search}` : ''}`);
+    }
+
     async createBook(book: CreateBookInput): Promise<Book> {
         return this.request<Book>('/books', {
             method: 'POST',
@@ -87,6 +167,27 @@ export class ApiClient {
         });
     }
 
+    // Note Operations
+    async addNote(bookId: string, body: string): Promise<BookNote> {
+        return this.request<BookNote>(`/books/${bookId}/notes`, {
+            method: 'POST',
+            body: JSON.stringify({ body })
+        });
+    }
+
+    async updateNote(bookId: string, noteId: string, body: string): Promise<BookNote> {
+        return this.request<BookNote>(`/books/${bookId}/notes/${noteId}`, {
+            method: 'PUT',
+            body: JSON.stringify({ body })
+        });
+    }
+
+    async deleteNote(bookId: string, noteId: string): Promise<{ id: string }> {
+        return this.request<{ id: string }>(`/books/${bookId}/notes/${noteId}`, {
+            method: 'DELETE'
+        });
+    }
+
     // Tag Operations
     async getTags(): Promise<BookTag[]> {
         return this.request<BookTag[]>('/tags');
@@ -99,6 +200,56 @@ export class ApiClient {
         });
     }
 
+    // Smart List Operations
+    async getSmartLists(): Promise<SmartList[]> {
+        return this.request<SmartList[]>('/lists');
+    }
+
+    async createSmartList(list: CreateSmartListInput): Promise<SmartList> {
+        return this.request<SmartList>('/lists', {
+            method: 'POST',
+            body: JSON.stringify(list)
+        });
+    }
+
+    async updateSmartList(id: string, updates: UpdateSmartListInput): Promise<SmartList> {
+        return this.request<SmartList>(`/lists/${id}`, {
+            method: 'PUT',
+            body: JSON.stringify(updates)
+        });
+    }
+
+    async deleteSmartList(id: string): Promise<{ id: string }> {
+        return this.request<{ id: string }>(`/lists/${id}`, {
+            method: 'DELETE'
+        });
+    }
+
+    // Import Operations
+    async importBooks(books: ImportBookInput[], strategy: ImportStrategy, sourceFileName?: string): Promise<BulkImportResult> {
+        return this.request<BulkImportResult>('/import', {
+            method: 'POST',
+            body: JSON.stringify({ books, strategy, sourceFileName })
+        });
+    }
+
+    async previewImport(books: ImportBookInput[], strategy: ImportStrategy): Promise<BulkImportPreview> {
+        return this.request<BulkImportPreview>('/import', {
+            method: 'POST',
+            body: JSON.stringify({ books, strategy, dryRun: true })
+        });
+    }
+
+    async getImportSessions(): Promise<ImportSession[]> {
+        return this.request<ImportSession[]>('/import/sessions');
+    }
+
+    async undoLastImport(): Promise<UndoImportResult> {
+        return this.request<UndoImportResult>('/import/undo', {
+            method: 'POST'
+        });
+    }
+
     // Health Check
     async healthCheck(): Promise<{ status: string }> {
         return this.request<{ status: string }>('/ping');
@@ -1,19 +1,35 @@
 /**
  * Import/Export service for JSON backup and restore functionality
- * Handles exporting wishlist data to JSON files and importing from JSON files with validation
+ * Handles exporting wishlist data to JSON, CSV and Markdown files and importing from JSON and Audible CSV files with validation
  */
 
 import type { WishlistData, Book } from '$lib/types/book';
+import type { BulkImportResult, ImportBookInput, ImportStrategy } from '$lib/types/import';
 import { apiClient } from './api-client';
 import { ErrorLogger } from './error-logger';
 import { generateId } from '$lib/utils/id';
-import { ServerLogger } from '$lib/server/utils/logger';
+import {
+  parseAudibleCsv,
+  parseAudibleJson,
+  isAudibleExportData,
+  type ParsedImport
+} from '$lib/utils/audible-import';
+import { booksToCsv, booksToMarkdown, EXPORT_FORMATS, type ExportFormat } from '$lib/utils/book-export';
+
+export type ImportFileFormat = 'json' | 'audible-csv' | 'audible-json';
+
+export interface ParsedImportFile extends ParsedImport {
+  format: ImportFileFormat;
+  declaredTotal?: number;
+  exportDate?: string;
+}
 
 export interface ImportResult {
   success: boolean;
   data?: WishlistData;
   error?: string;
   warnings?: string[];
+  counts?: BulkImportResult;
 }
 
 export interface ExportResult {
@@ -26,40 +42,30 @@ export class ImportExportService {
    * Export current wishlist data to a JSON file
    */
   static async exportToJSON(): Promise<ExportResult> {
+    return this.exportBooks('json');
+  }
+
+  /**
+   * Export books in the given format. Exports every book unless a subset
+   * (e.g. the currently filtered view) is passed in.
+   */
+  static async exportBooks(format: ExportFormat, books?: Book[]): Promise<ExportResult> {
     try {
       // Load current data from database via API
-      const books = await apiClient.getBooks();
+      const exportedBooks = books ?? await apiClient.getBooks();
+      const { extension, mimeType } = EXPORT_FORMATS[format];
 
-      const data: WishlistData = {
-        books,
-        lastUpdated: new Date().toISOString()
-      };
-
-      // Create formatted JSON string
-      const jsonString = JSON.stringify(data, null, 2);
-
-      // Create blob and download
-      const blob = new Blob([jsonString], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-
-      // Create download link
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `audiobook-wishlist-${new Date().toISOString().split('T')[0]}.json`;
-
-      // Trigger download
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-
-      // Clean up
-      URL.revokeObjectURL(url);
+      this.downloadFile(
+        this.formatExport(format, exportedBooks),
+        `audiobook-wishlist-${new Date().toISOString().split('T')[0]}.${extension}`,
+        mimeType
+      );
 
       return {
         success: true
       };
     } catch (error) {
-      ErrorLogger.error('Export failed', error instanceof Error ? error : undefined, 'ImportExportService.exportToJSON');
+      ErrorLogger.error('Export failed', error instanceof Error ? error : undefined, 'ImportExportService.exportBooks');
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error during export'
@@ -67,138 +73,99 @@ export class ImportExportService {
     }
   }
 
+  /**
+   * Serialize books into the content of an export file
+   */
+  static formatExport(format: ExportFormat, books: Book[]): string {
+    switch (format) {
+      case 'csv':
+        return booksToCsv(books);
+      case 'markdown':
+        return booksToMarkdown(books);
+      case 'json': {
+        const data: WishlistData = {
+          books,
+          lastUpdated: new Date().toISOString()
+        };
+        return JSON.stringify(data, null, 2);
+      }
+    }
+  }
 
   /**
-   * Merge imported data with existing data
+   * Trigger a browser download of a text file
+   */
+  private static downloadFile(content: string, fileName: string, mimeType: string): void {
+    // Create blob and download
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    // Create download link
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+
+    // Trigger download
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    // Clean up
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Parse the content of an import file into book inputs, auto-detecting
+   * Audible CSV pages, the scraped Audible JSON export and our own JSON backups.
+   * Rows that cannot be parsed are reported in `errors`; invalid JSON throws.
+   */
+  static parseImportContent(fileName: string, content: string): ParsedImportFile {
+    const looksLikeJson = /^\s*[{[]/.test(content);
+    if (fileName.toLowerCase().endsWith('.csv') || !looksLikeJson) {
+      return { format: 'audible-csv', ...parseAudibleCsv(content, fileName) };
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error(`${fileName}: invalid JSON format`);
+    }
+
+    if (!parsed?.books || !Array.isArray(parsed.books)) {
+      throw new Error(`${fileName}: invalid file format, missing books array`);
+    }
+
+    if (isAudibleExportData(parsed)) {
+      return {
+        format: 'audible-json',
+        ...parseAudibleJson(parsed, fileName),
+        declaredTotal: typeof parsed.totalBooks === 'number' ? parsed.totalBooks : undefined,
+        exportDate: parsed.exportDate
+      };
+    }
+
+    return { format: 'json', books: parsed.books, errors: [] };
+  }
+
+  /**
+   * Merge imported data with existing data. The whole payload is applied by
+   * POST /api/import in a single transaction, so a failure leaves nothing half-imported.
    */
   static async mergeImportedData(
-    importedData: WishlistData,
-    strategy: 'replace' | 'merge' | 'skip-duplicates' = 'replace'
+    importedData: WishlistData | { books: ImportBookInput[] },
+    strategy: ImportStrategy = 'replace',
+    sourceFileName?: string
   ): Promise<ImportResult> {
     try {
-      if (strategy === 'replace') {
-        // Delete all existing books and create new ones
-        const existingBooks = await apiClient.getBooks();
-        for (const book of existingBooks) {
-          await apiClient.deleteBook(book.id);
-        }
-
-        // Create imported books
-        const createdBooks: Book[] = [];
-        for (const book of importedData.books) {
-
-          ServerLogger.info(`trying to created book: ${book.title}`, 'API_BOOKS_POST', "debug", {
-            bookId: book.id,
-            strotyRating: book.storyRating,
-            preformenceRating: book.performanceRating
-          });
-          const created = await apiClient.createBook({
-            title: book.title,
-            author: book.author,
-            tags: book.tags,
-            performanceRating: book.performanceRating,
-            storyRating: book.storyRating,
-            queuePosition: book.queuePosition,
-            coverImageUrl: book.coverImageUrl,
-            audibleUrl: book.audibleUrl,
-            description: book.description,
-            highlyRatedFor: book.highlyRatedFor
-          });
-          createdBooks.push(created);
-        }
-
-        return {
-          success: true,
-          data: { books: createdBooks, lastUpdated: new Date().toISOString() }
-        };
-      }
+      ErrorLogger.debug(`Importing ${importedData.books.length} books`, 'ImportExportService.mergeImportedData', {
+        strategy
+      });
 
-      // For merge strategies, load existing data
-      const existingBooks = await apiClient.getBooks();
-      const warnings: string[] = [];
-      let mergedBooks: Book[] = [...existingBooks];
-
-      // Update or create books based on strategy
-      if (strategy === 'merge') {
-        for (const importedBook of importedData.books) {
-          // Find existing book by ID, or by title+author if ID is empty/missing
-          let existingBook = null;
-          if (importedBook.id && importedBook.id.trim() !== '') {
-            existingBook = mergedBooks.find(book => book.id === importedBook.id);
-          }
-
-          // If not found by ID, try to match by title and author
-          if (!existingBook) {
-            existingBook = mergedBooks.find(book =>
-              book.title.toLowerCase() === importedBook.title.toLowerCase() &&
-              book.author.toLowerCase() === importedBook.author.toLowerCase()
-            );
-          }
-
-          if (existingBook) {
-            // Update existing book using the existing book's ID
-            await apiClient.updateBook(existingBook.id, {
-              title: importedBook.title,
-              author: importedBook.author,
-              tags: importedBook.tags,
-              performanceRating: importedBook.performanceRating,
-              storyRating: importedBook.storyRating,
-              queuePosition: importedBook.queuePosition,
-              coverImageUrl: importedBook.coverImageUrl,
-              audibleUrl: importedBook.audibleUrl,
-              description: importedBook.description,
-              highlyRatedFor: importedBook.highlyRatedFor
-            });
-          } else {
-            // Create new book
-            await apiClient.createBook({
-              title: importedBook.title,
-              author: importedBook.author,
-              tags: importedBook.tags,
-              performanceRating: importedBook.performanceRating,
-              storyRating: importedBook.storyRating,
-              queuePosition: importedBook.queuePosition,
-              coverImageUrl: importedBook.coverImageUrl,
-              audibleUrl: importedBook.audibleUrl,
-              description: importedBook.description,
-              highlyRatedFor: importedBook.highlyRatedFor
-            });
-          }
-        }
-      } else if (strategy === 'skip-duplicates') {
-        for (const importedBook of importedData.books) {
-          // Check for existing book by ID or title+author
-          let exists = false;
-          if (importedBook.id && importedBook.id.trim() !== '') {
-            exists = mergedBooks.some(book => book.id === importedBook.id);
-          }
-
-          // If not found by ID, check by title and author
-          if (!exists) {
-            exists = mergedBooks.some(book =>
-              book.title.toLowerCase() === importedBook.title.toLowerCase() &&
-              book.author.toLowerCase() === importedBook.author.toLowerCase()
-            );
-          }
-
-          if (!exists) {
-            await apiClient.createBook({
-              title: importedBook.title,
-              author: importedBook.author,
-              tags: importedBook.tags,
-              performanceRating: importedBook.performanceRating,
-              storyRating: importedBook.storyRating,
-              queuePosition: importedBook.queuePosition,
-              coverImageUrl: importedBook.coverImageUrl,
-              audibleUrl: importedBook.audibleUrl,
-              description: importedBook.description,
-              highlyRatedFor: importedBook.highlyRatedFor
-            });
-          } else {
-            warnings.push(`Skipped duplicate book: ${importedBook.title}`);
-          }
-        }
-      }
+      const result = await apiClient.importBooks(importedData.books, strategy, sourceFileName);
+      const warnings = result.warnings.map(warning =>
+        warning.title ? `${warning.message}: ${warning.title}` : `Book ${warning.index + 1}: ${warning.message}`
+      );
 
       // Get updated book list
       const finalBooks = await apiClient.getBooks();
@@ -210,9 +177,9 @@ export class ImportExportService {
       return {
         success: true,
         data: mergedData,
-        warnings: warnings.length > 0 ? warnings : undefined
+        warnings: warnings.length > 0 ? warnings : undefined,
+        counts: result
       };
-
     } catch (error) {
       ErrorLogger.error('Merge failed', error instanceof Error ? error : undefined, 'ImportExportService.mergeImportedData');
       return {
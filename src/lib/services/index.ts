@@ -23,7 +23,10 @@ export type {
     CreateBookRequest,
     UpdateBookRequest,
     CreateTagRequest,
-    ApiClientConfig
+    ApiClientConfig,
+    BookPage,
+    BookPageQuery,
+    PaginationMeta
 } from './api-client';
 
 // Example usage functions for easy integration (commented out to prevent SSR issues)
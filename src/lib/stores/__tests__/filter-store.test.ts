@@ -1,6 +1,13 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { get } from 'svelte/store';
-import { filterStore, filterActions, createFilteredBooks } from '../filter-store';
+import {
+    filterStore,
+    filterActions,
+    createFilteredBooks,
+    filterAndSortBooks,
+    filtersFromSearchParams,
+    filtersToSearchParams
+} from '../filter-store';
 import type { Book } from '$lib/types/book';
 
 describe('Filter Store', () => {
@@ -140,6 +147,28 @@ describe('Filter Store', () => {
             expect(result[0].title).toBe('Action Adventure');
         });
 
+        it('should filter by any of the tags (OR logic)', () => {
+            const filteredBooks = createFilteredBooks(mockBooks);
+
+            filterActions.toggleTag('funny');
+            filterActions.toggleTag('series');
+            filterActions.setTagMatch('any');
+
+            expect(get(filteredBooks).map(book => book.title)).toEqual(['Action Adventure', 'Funny Book']);
+        });
+
+        it('should hide books with excluded tags', () => {
+            const filteredBooks = createFilteredBooks(mockBooks);
+
+            filterActions.toggleExcludedTag('series');
+            expect(get(filteredBooks).map(book => book.title)).toEqual(['Funny Book', 'The Hobbit']);
+
+            // Including an excluded tag moves it across
+            filterActions.toggleTag('series');
+            expect(get(filterStore).excludedTags).toEqual([]);
+            expect(get(filteredBooks).map(book => book.title)).toEqual(['Action Adventure']);
+        });
+
         it('should sort by title ascending', () => {
             const filteredBooks = createFilteredBooks(mockBooks);
 
@@ -200,5 +229,153 @@ describe('Filter Store', () => {
             expect(result).toHaveLength(1);
             expect(result[0].title).toBe('Action Adventure');
         });
+
+        it('should filter a plain list without subscribing to the store', () => {
+            const result = filterAndSortBooks(mockBooks, {
+                searchQuery: '',
+                selectedTags: ['action'],
+                sortBy: 'dateAdded',
+                sortOrder: 'desc'
+            });
+
+            expect(result.map(book => book.id)).toEqual(['3', '1']);
+        });
+
+        it('should search and sort by narrator', () => {
+            const narratedBooks: Book[] = [
+                { ...mockBooks[0], narrators: ['Rob Inglis'] },
+                { ...mockBooks[1] },
+                { ...mockBooks[2], narrators: ['Andy Serkis', 'Rob Inglis'] }
+            ];
+
+            const searched = filterAndSortBooks(narratedBooks, {
+                searchQuery: 'inglis',
+                selectedTags: [],
+                sortBy: 'title',
+                sortOrder: 'asc'
+            });
+            expect(searched.map(book => book.id)).toEqual(['3', '1']);
+
+            const sortState = { searchQuery: '', selectedTags: [], sortBy: 'narrator' as const };
+            expect(filterAndSortBooks(narratedBooks, { ...sortState, sortOrder: 'asc' }).map(book => book.id))
+                .toEqual(['3', '1', '2']);
+            expect(filterAndSortBooks(narratedBooks, { ...sortState, sortOrder: 'desc' }).map(book => book.id))
+                .toEqual(['1', '3', '2']);
+        });
+
+        it('should sort by personal rating', () => {
+            const ratedBooks: Book[] = [
+                { ...mockBooks[0], personalRating: 3.5 },
+                { ...mockBooks[1] },
+                { ...mockBooks[2], personalRating: 5 }
+            ];
+
+            const result = filterAndSortBooks(ratedBooks, {
+                searchQuery: '',
+                selectedTags: [],
+                sortBy: 'personalRating',
+                sortOrder: 'desc'
+            });
+
+            expect(result.map(book => book.id)).toEqual(['3', '1', '2']);
+        });
+
+        it('should filter and sort by length', () => {
+            const timedBooks: Book[] = [
+                { ...mockBooks[0], durationMinutes: 725 },
+                { ...mockBooks[1] },
+                { ...mockBooks[2], durationMinutes: 250 }
+            ];
+
+            const sortState = { searchQuery: '', selectedTags: [], sortBy: 'duration' as const };
+            expect(filterAndSortBooks(timedBooks, { ...sortState, sortOrder: 'asc' }).map(book => book.id))
+                .toEqual(['3', '1', '2']);
+            expect(filterAndSortBooks(timedBooks, { ...sortState, sortOrder: 'desc' }).map(book => book.id))
+                .toEqual(['1', '3', '2']);
+
+            filterActions.setDurationRange(undefined, 5 * 60);
+            expect(get(createFilteredBooks(timedBooks)).map(book => book.id)).toEqual(['3']);
+
+            filterActions.setDurationRange(5 * 60, 20 * 60);
+            expect(get(createFilteredBooks(timedBooks)).map(book => book.id)).toEqual(['1']);
+        });
+
+        it('should find typos only when nothing matches exactly, closest first', () => {
+            const books: Book[] = [
+                { ...mockBooks[0], title: 'Dine Out', author: 'Jo Cook' },
+                { ...mockBooks[1], title: 'Dune', author: 'Frank Herbert' },
+                { ...mockBooks[2], title: 'The Silmaralon', author: 'Jo Cook' },
+                { ...mockBooks[0], id: '4', title: 'The Silmarillion' }
+            ];
+
+            filterActions.setSearchQuery('dune');
+            expect(get(createFilteredBooks(books)).map(book => book.title)).toEqual(['Dune']);
+
+            filterActions.setSearchQuery('silmarilion');
+            expect(get(createFilteredBooks(books)).map(book => book.title)).toEqual(['The Silmarillion', 'The Silmaralon']);
+        });
+
+        it('should filter by rating ranges and missing ratings', () => {
+            const ratedBooks: Book[] = [
+                { ...mockBooks[0], performanceRating: 4.8, storyRating: 4.6 },
+                { ...mockBooks[1], performanceRating: 3.9 },
+                { ...mockBooks[2], performanceRating: 4.2, storyRating: 3.5 }
+            ];
+            const filteredBooks = createFilteredBooks(ratedBooks);
+
+            filterActions.setPerformanceRatingRange(4);
+            expect(get(filteredBooks).map(book => book.id)).toEqual(['3', '1']);
+
+            filterActions.setStoryRatingRange(undefined, 4);
+            expect(get(filteredBooks).map(book => book.id)).toEqual(['3']);
+
+            filterActions.clearFilters();
+            filterActions.setUnratedStory(true);
+            expect(get(filteredBooks).map(book => book.id)).toEqual(['2']);
+        });
+    });
+
+    describe('URL query params', () => {
+        it('should round-trip filters through query params', () => {
+            const filters = {
+                searchQuery: 'author:weir',
+                selectedTags: ['funny', 'standalone'],
+                sortBy: 'storyRating' as const,
+                sortOrder: 'desc' as const,
+                minDuration: 300,
+                maxDuration: undefined,
+                minPerformanceRating: 4.5,
+                unratedStory: true
+            };
+
+            const params = filtersToSearchParams(filters);
+            expect(params.toString()).toBe(
+                'q=author%3Aweir&tag=funny%2Cstandalone&sort=storyRating&order=desc&minLength=300&minPerformance=4.5&unrated=story'
+            );
+            expect(filtersFromSearchParams(params)).toEqual(filters);
+        });
+
+        it('should keep the tag match mode and excluded tags', () => {
+            const params = new URLSearchParams('tag=funny,thriller&tagMatch=any&excludeTag=series');
+            expect(filtersFromSearchParams(params)).toMatchObject({
+                selectedTags: ['funny', 'thriller'],
+                tagMatch: 'any',
+                excludedTags: ['series']
+            });
+            expect(filtersToSearchParams(filtersFromSearchParams(params)).toString())
+                .toBe('tag=funny%2Cthriller&tagMatch=any&excludeTag=series');
+        });
+
+        it('should leave defaults out and ignore invalid params', () => {
+            expect(filtersToSearchParams(get(filterStore)).toString()).toBe('');
+            expect(filtersFromSearchParams(new URLSearchParams('sort=colour&order=up&minLength=long&maxStory=9'))).toEqual({
+                searchQuery: '',
+                selectedTags: [],
+                sortBy: 'title',
+                sortOrder: 'asc',
+                minDuration: undefined,
+                maxDuration: undefined
+            });
+        });
     });
-});
\ No newline at end of file
+});
@@ -4,10 +4,11 @@
  */
 
 import { writable, derived, get } from 'svelte/store';
-import type { Book, BookTag } from '$lib/types/book';
-import { apiClient, getErrorMessage } from '$lib/services/api-client';
+import type { Book, BookNote, BookTag, ListeningStatus } from '$lib/types/book';
+import { apiClient, getErrorMessage, BOOK_PAGE_SIZE } from '$lib/services/api-client';
 import { ErrorLogger } from '$lib/services/error-logger';
 import { NotificationService } from '$lib/services/notification-service';
+import { STATUS_LABELS } from '$lib/utils/listening-status';
 
 // Store state interface
 interface BookStoreState {
@@ -40,6 +41,16 @@ export const storeError = derived(bookStore, $store => $store.error);
 export const updatingBooks = derived(bookStore, $store => $store.updatingBooks);
 
 // Book store actions
+/**
+ * Replace a book's notes in the store
+ */
+function updateNotes(bookId: string, update: (notes: BookNote[]) => BookNote[]): void {
+    bookStore.update(state => ({
+        ...state,
+        books: state.books.map(b => b.id === bookId ? { ...b, notes: update(b.notes ?? []) } : b)
+    }));
+}
+
 export const bookActions = {
     /**
      * Load all books from API
@@ -103,6 +114,51 @@ export const bookActions = {
         }
     },
 
+    /**
+     * Append the rest of the library after a preloaded first page, one page
+     * at a time, so large libraries show their first books straight away
+     */
+    async loadRemainingBooks(offset: number): Promise<void> {
+        let nextOffset: number | null = offset;
+
+        try {
+            while (nextOffset !== null) {
+                const page = await apiClient.getBooksPage({ limit: BOOK_PAGE_SIZE, offset: nextOffset });
+
+                bookStore.update(state => {
+                    const loadedIds = new Set(state.books.map(book => book.id));
+                    return {
+                        ...state,
+                        books: [...state.books, ...page.books.filter(book => !loadedIds.has(book.id))],
+                        lastUpdated: new Date()
+                    };
+                });
+
+                nextOffset = page.nextOffset;
+            }
+
+            ErrorLogger.debug(
+                `Loaded remaining books from offset ${offset}`,
+                'BookStore.loadRemainingBooks'
+            );
+        } catch (err) {
+            const errorMessage = getErrorMessage(err);
+
+            bookStore.update(state => ({
+                ...state,
+                error: errorMessage
+            }));
+
+            ErrorLogger.error(
+                `Failed to load more books: ${errorMessage}`,
+                err instanceof Error ? err : undefined,
+                'BookStore.loadRemainingBooks'
+            );
+
+            NotificationService.error('Load Error', errorMessage);
+        }
+    },
+
     /**
      * Add a new book with optimistic updates
      */
@@ -274,6 +330,90 @@ export const bookActions = {
         return false;
     },
 
+    /**
+     * Move a book to another listening status
+     */
+    async setStatus(bookId: string, status: ListeningStatus): Promise<boolean> {
+        const book = get(bookStore).books.find(b => b.id === bookId);
+
+        if (!book) {
+            ErrorLogger.error(`Book not found: ${bookId}`, undefined, 'BookStore.setStatus');
+            return false;
+        }
+
+        const updatedBook = await this.updateBook(bookId, { status });
+
+        if (updatedBook) {
+            NotificationService.info(
+                'Status Updated',
+                `${book.title} is now ${STATUS_LABELS[status].toLowerCase()}`
+            );
+            return true;
+        }
+
+        return false;
+    },
+
+    /**
+     * Add a note to a book
+     */
+    async addNote(bookId: string, body: string): Promise<boolean> {
+        try {
+            const note = await apiClient.addNote(bookId, body);
+            updateNotes(bookId, notes => [note, ...notes]);
+            return true;
+        } catch (err) {
+            const errorMessage = getErrorMessage(err);
+            ErrorLogger.error(
+                `Failed to add note: ${errorMessage}`,
+                err instanceof Error ? err : undefined,
+                'BookStore.addNote'
+            );
+            NotificationService.error('Note Not Saved', errorMessage);
+            return false;
+        }
+    },
+
+    /**
+     * Change the text of a note
+     */
+    async updateNote(bookId: string, noteId: string, body: string): Promise<boolean> {
+        try {
+            const note = await apiClient.updateNote(bookId, noteId, body);
+            updateNotes(bookId, notes => notes.map(n => n.id === noteId ? note : n));
+            return true;
+        } catch (err) {
+            const errorMessage = getErrorMessage(err);
+            ErrorLogger.error(
+                `Failed to update note: ${errorMessage}`,
+                err instanceof Error ? err : undefined,
+                'BookStore.updateNote'
+            );
+            NotificationService.error('Note Not Saved', errorMessage);
+            return false;
+        }
+    },
+
+    /**
+     * Delete a note
+     */
+    async deleteNote(bookId: string, noteId: string): Promise<boolean> {
+        try {
+            await apiClient.deleteNote(bookId, noteId);
+            updateNotes(bookId, notes => notes.filter(n => n.id !== noteId));
+            return true;
+        } catch (err) {
+            const errorMessage = getErrorMessage(err);
+            ErrorLogger.error(
+                `Failed to delete note: ${errorMessage}`,
+                err instanceof Error ? err : undefined,
+                'BookStore.deleteNote'
+            );
+            NotificationService.error('Note Not Deleted', errorMessage);
+            return false;
+        }
+    },
+
     /**
      * Delete a book with optimistic updates
      */
@@ -362,6 +502,19 @@ export const bookActions = {
         );
     },
 
+    /**
+     * Put a single preloaded book into the store, replacing any older copy
+     * and keeping the other books
+     */
+    upsertBook(book: Book): void {
+        bookStore.update(state => ({
+            ...state,
+            books: state.books.some(b => b.id === book.id)
+                ? state.books.map(b => b.id === book.id ? book : b)
+                : [...state.books, book]
+        }));
+    },
+
     /**
      * Get current store state
      */
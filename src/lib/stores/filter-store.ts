@@ -1,5 +1,7 @@
 import { writable, derived } from 'svelte/store';
 import type { Book, FilterState } from '$lib/types/book';
+import { parseSearchQuery, filterBySearchQuery, scoreSearchQuery } from '$lib/utils/search-query';
+import { isBookSortField, isValidRatingBound } from '$lib/utils/validation';
 
 // Initial filter state
 const initialFilterState: FilterState = {
@@ -9,6 +11,71 @@ const initialFilterState: FilterState = {
     sortOrder: 'asc'
 };
 
+/**
+ * Read filters from URL query params (q, tag, tagMatch, excludeTag, sort,
+ * order, minLength, maxLength, minPerformance, maxPerformance, minStory,
+ * maxStory, unrated); missing or invalid params keep their defaults
+ */
+export function filtersFromSearchParams(params: URLSearchParams): FilterState {
+    const minutes = (name: string) => {
+        const value = params.get(name);
+        return value !== null && /^\d+$/.test(value) ? Number(value) : undefined;
+    };
+    const rating = (name: string) => {
+        const value = params.get(name);
+        return value !== null && isValidRatingBound(value) ? Number(value) : undefined;
+    };
+    const sort = params.get('sort');
+    const order = params.get('order');
+    const unrated = (params.get('unrated') ?? '').split(',');
+    const tagList = (name: string) =>
+        (params.get(name) ?? '').split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+    const excludedTags = tagList('excludeTag');
+
+    return {
+        searchQuery: params.get('q') ?? '',
+        selectedTags: tagList('tag'),
+        tagMatch: params.get('tagMatch') === 'any' ? 'any' : undefined,
+        excludedTags: excludedTags.length > 0 ? excludedTags : undefined,
+        sortBy: isBookSortField(sort) ? sort : initialFilterState.sortBy,
+        sortOrder: order === 'asc' || order === 'desc' ? order : initialFilterState.sortOrder,
+        minDuration: minutes('minLength'),
+        maxDuration: minutes('maxLength'),
+        minPerformanceRating: rating('minPerformance'),
+        maxPerformanceRating: rating('maxPerformance'),
+        minStoryRating: rating('minStory'),
+        maxStoryRating: rating('maxStory'),
+        unratedPerformance: unrated.includes('performance') || undefined,
+        unratedStory: unrated.includes('story') || undefined
+    };
+}
+
+/**
+ * Write filters as URL query params, leaving out defaults so an unfiltered
+ * view has a clean URL
+ */
+export function filtersToSearchParams(filters: FilterState): URLSearchParams {
+    const params = new URLSearchParams();
+
+    if (filters.searchQuery) params.set('q', filters.searchQuery);
+    if (filters.selectedTags.length > 0) params.set('tag', filters.selectedTags.join(','));
+    if (filters.tagMatch === 'any') params.set('tagMatch', 'any');
+    if (filters.excludedTags && filters.excludedTags.length > 0) params.set('excludeTag', filters.excludedTags.join(','));
+    if (filters.sortBy !== initialFilterState.sortBy) params.set('sort', filters.sortBy);
+    if (filters.sortOrder !== initialFilterState.sortOrder) params.set('order', filters.sortOrder);
+    if (filters.minDuration !== undefined) params.set('minLength', String(filters.minDuration));
+    if (filters.maxDuration !== undefined) params.set('maxLength', String(filters.maxDuration));
+    if (filters.minPerformanceRating !== undefined) params.set('minPerformance', String(filters.minPerformanceRating));
+    if (filters.maxPerformanceRating !== undefined) params.set('maxPerformance', String(filters.maxPerformanceRating));
+    if (filters.minStoryRating !== undefined) params.set('minStory', String(filters.minStoryRating));
+    if (filters.maxStoryRating !== undefined) params.set('maxStory', String(filters.maxStoryRating));
+
+    const unrated = [filters.unratedPerformance && 'performance', filters.unratedStory && 'story'].filter(Boolean);
+    if (unrated.length > 0) params.set('unrated', unrated.join(','));
+
+    return params;
+}
+
 // Create the filter store
 export const filterStore = writable<FilterState>(initialFilterState);
 
@@ -23,10 +90,29 @@ export const filterActions = {
             ...state,
             selectedTags: state.selectedTags.includes(tagName)
                 ? state.selectedTags.filter(tag => tag !== tagName)
-                : [...state.selectedTags, tagName]
+                : [...state.selectedTags, tagName],
+            // A tag is either included or excluded
+            excludedTags: state.excludedTags?.filter(tag => tag !== tagName)
         }));
     },
 
+    toggleExcludedTag: (tagName: string) => {
+        filterStore.update(state => {
+            const excludedTags = state.excludedTags ?? [];
+            return {
+                ...state,
+                selectedTags: state.selectedTags.filter(tag => tag !== tagName),
+                excludedTags: excludedTags.includes(tagName)
+                    ? excludedTags.filter(tag => tag !== tagName)
+                    : [...excludedTags, tagName]
+            };
+        });
+    },
+
+    setTagMatch: (tagMatch: 'all' | 'any') => {
+        filterStore.update(state => ({ ...state, tagMatch }));
+    },
+
     setSortBy: (sortBy: FilterState['sortBy']) => {
         filterStore.update(state => ({ ...state, sortBy }));
     },
@@ -35,62 +121,180 @@ export const filterActions = {
         filterStore.update(state => ({ ...state, sortOrder }));
     },
 
+    setDurationRange: (minDuration?: number, maxDuration?: number) => {
+        filterStore.update(state => ({ ...state, minDuration, maxDuration }));
+    },
+
+    setPerformanceRatingRange: (minPerformanceRating?: number, maxPerformanceRating?: number) => {
+        filterStore.update(state => ({ ...state, minPerformanceRating, maxPerformanceRating }));
+    },
+
+    setStoryRatingRange: (minStoryRating?: number, maxStoryRating?: number) => {
+        filterStore.update(state => ({ ...state, minStoryRating, maxStoryRating }));
+    },
+
+    setUnratedPerformance: (unratedPerformance: boolean) => {
+        filterStore.update(state => ({ ...state, unratedPerformance: unratedPerformance || undefined }));
+    },
+
+    setUnratedStory: (unratedStory: boolean) => {
+        filterStore.update(state => ({ ...state, unratedStory: unratedStory || undefined }));
+    },
+
+    // Replace every filter at once, e.g. when opening a smart list
+    setFilters: (filters: FilterState) => {
+        filterStore.set({ ...initialFilterState, ...filters });
+    },
+
     clearFilters: () => {
         filterStore.set(initialFilterState);
     }
 };
 
+/**
+ * Checks a rating against a filter's bounds, or against "has no rating"
+ */
+function matchesRatingFilter(rating: number | undefined, min?: number, max?: number, unrated?: boolean): boolean {
+    if (unrated) return rating === undefined || rating === null;
+    if (min === undefined && max === undefined) return true;
+
+    return rating !== undefined && rating !== null &&
+        (min === undefined || rating >= min) &&
+        (max === undefined || rating <= max);
+}
+
+/**
+ * Compare books by their first narrator, keeping books without one at the
+ * end regardless of sort order
+ */
+function compareNarrators(a: Book, b: Book, sortOrder: FilterState['sortOrder']): number {
+    const narratorA = a.narrators?.[0];
+    const narratorB = b.narrators?.[0];
+
+    if (!narratorA || !narratorB) {
+        const missing = (narratorA ? 0 : 1) - (narratorB ? 0 : 1);
+        return sortOrder === 'desc' ? -missing : missing;
+    }
+
+    return narratorA.localeCompare(narratorB);
+}
+
+/**
+ * Compare books by length, keeping books without one at the end regardless
+ * of sort order
+ */
+function compareDurations(a: Book, b: Book, sortOrder: FilterState['sortOrder']): number {
+    if (a.durationMinutes === undefined || b.durationMinutes === undefined) {
+        const missing = (a.durationMinutes === undefined ? 1 : 0) - (b.durationMinutes === undefined ? 1 : 0);
+        return sortOrder === 'desc' ? -missing : missing;
+    }
+
+    return a.durationMinutes - b.durationMinutes;
+}
+
+/**
+ * Filter and sort books by a filter state (also used for exporting the current view)
+ */
+export function filterAndSortBooks(books: Book[], filterState: FilterState): Book[] {
+    let filteredBooks = [...books];
+
+    // Apply tag filters
+    const hasTag = (book: Book, tagName: string) => book.tags.some(tag => tag.name === tagName);
+    if (filterState.selectedTags.length > 0) {
+        filteredBooks = filteredBooks.filter(book =>
+            filterState.tagMatch === 'any'
+                ? filterState.selectedTags.some(tagName => hasTag(book, tagName))
+                : filterState.selectedTags.every(tagName => hasTag(book, tagName))
+        );
+    }
+    if (filterState.excludedTags && filterState.excludedTags.length > 0) {
+        filteredBooks = filteredBooks.filter(book =>
+            !filterState.excludedTags!.some(tagName => hasTag(book, tagName))
+        );
+    }
+
+    // Apply length filter
+    const { minDuration, maxDuration } = filterState;
+    if (minDuration !== undefined || maxDuration !== undefined) {
+        filteredBooks = filteredBooks.filter(book =>
+            book.durationMinutes !== undefined &&
+            (minDuration === undefined || book.durationMinutes >= minDuration) &&
+            (maxDuration === undefined || book.durationMinutes <= maxDuration)
+        );
+    }
+
+    // Apply rating filters
+    filteredBooks = filteredBooks.filter(book =>
+        matchesRatingFilter(
+            book.performanceRating,
+            filterState.minPerformanceRating,
+            filterState.maxPerformanceRating,
+            filterState.unratedPerformance
+        ) &&
+        matchesRatingFilter(
+            book.storyRating,
+            filterState.minStoryRating,
+            filterState.maxStoryRating,
+            filterState.unratedStory
+        )
+    );
+
+    // Apply search filter last, as typos only count when none of the books
+    // the other filters leave match exactly; a query that does not parse is
+    // ignored until it is fixed
+    const parsedQuery = parseSearchQuery(filterState.searchQuery);
+    if (parsedQuery.success && parsedQuery.query.terms.length > 0) {
+        filteredBooks = filterBySearchQuery(filteredBooks, parsedQuery.query);
+    }
+
+    // Apply sorting
+    filteredBooks.sort((a, b) => {
+        let comparison = 0;
+
+        switch (filterState.sortBy) {
+            case 'title':
+                comparison = a.title.localeCompare(b.title);
+                break;
+            case 'author':
+                comparison = a.author.localeCompare(b.author);
+                break;
+            case 'narrator':
+                comparison = compareNarrators(a, b, filterState.sortOrder);
+                break;
+            case 'dateAdded':
+                comparison = new Date(a.dateAdded).getTime() - new Date(b.dateAdded).getTime();
+                break;
+            case 'performanceRating':
+                comparison = (a.performanceRating || 0) - (b.performanceRating || 0);
+                break;
+            case 'storyRating':
+                comparison = (a.storyRating || 0) - (b.storyRating || 0);
+                break;
+            case 'personalRating':
+                comparison = (a.personalRating || 0) - (b.personalRating || 0);
+                break;
+            case 'duration':
+                comparison = compareDurations(a, b, filterState.sortOrder);
+                break;
+        }
+
+        return filterState.sortOrder === 'desc' ? -comparison : comparison;
+    });
+
+    // Books found despite a typo follow the exact hits, closest first; the
+    // sort is stable, so each group keeps the chosen order
+    if (parsedQuery.success) {
+        const scores = new Map(filteredBooks.map(book => [book.id, scoreSearchQuery(book, parsedQuery.query)]));
+        filteredBooks.sort((a, b) => scores.get(b.id)! - scores.get(a.id)!);
+    }
+
+    return filteredBooks;
+}
+
 // Derived store for filtered and sorted books
 export function createFilteredBooks(books: Book[]) {
     return derived(
         filterStore,
-        ($filterState) => {
-            let filteredBooks = [...books];
-
-            // Apply search filter
-            if ($filterState.searchQuery.trim()) {
-                const query = $filterState.searchQuery.toLowerCase().trim();
-                filteredBooks = filteredBooks.filter(book =>
-                    book.title.toLowerCase().includes(query) ||
-                    book.author.toLowerCase().includes(query)
-                );
-            }
-
-            // Apply tag filters
-            if ($filterState.selectedTags.length > 0) {
-                filteredBooks = filteredBooks.filter(book =>
-                    $filterState.selectedTags.every(tagName =>
-                        book.tags.some(tag => tag.name === tagName)
-                    )
-                );
-            }
-
-            // Apply sorting
-            filteredBooks.sort((a, b) => {
-                let comparison = 0;
-
-                switch ($filterState.sortBy) {
-                    case 'title':
-                        comparison = a.title.localeCompare(b.title);
-                        break;
-                    case 'author':
-                        comparison = a.author.localeCompare(b.author);
-                        break;
-                    case 'dateAdded':
-                        comparison = new Date(a.dateAdded).getTime() - new Date(b.dateAdded).getTime();
-                        break;
-                    case 'performanceRating':
-                        comparison = (a.performanceRating || 0) - (b.performanceRating || 0);
-                        break;
-                    case 'storyRating':
-                        comparison = (a.storyRating || 0) - (b.storyRating || 0);
-                        break;
-                }
-
-                return $filterState.sortOrder === 'desc' ? -comparison : comparison;
-            });
-
-            return filteredBooks;
-        }
+        ($filterState) => filterAndSortBooks(books, $filterState)
     );
-}
\ No newline at end of file
+}
@@ -0,0 +1,95 @@
+/**
+ * Smart List Store
+ * Keeps the saved smart lists for the navigation and the list pages
+ */
+
+import { writable } from 'svelte/store';
+import type { FilterState } from '$lib/types/book';
+import type { SmartList } from '$lib/types/smart-list';
+import { apiClient, getErrorMessage } from '$lib/services/api-client';
+import { ErrorLogger } from '$lib/services/error-logger';
+import { NotificationService } from '$lib/services/notification-service';
+
+export const smartLists = writable<SmartList[]>([]);
+
+function sortByName(lists: SmartList[]): SmartList[] {
+    return [...lists].sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+}
+
+export const smartListActions = {
+    /**
+     * Load the smart lists from the API
+     */
+    async loadSmartLists(): Promise<void> {
+        try {
+            smartLists.set(await apiClient.getSmartLists());
+        } catch (err) {
+            ErrorLogger.error(
+                `Failed to load smart lists: ${getErrorMessage(err)}`,
+                err instanceof Error ? err : undefined,
+                'SmartListStore.loadSmartLists'
+            );
+        }
+    },
+
+    /**
+     * Save filters as a new smart list
+     */
+    async createSmartList(name: string, filters: FilterState): Promise<SmartList | null> {
+        try {
+            const list = await apiClient.createSmartList({ name, filters });
+            smartLists.update(lists => sortByName([...lists, list]));
+            NotificationService.success('Smart List Saved', `"${list.name}" is now in the menu`);
+            return list;
+        } catch (err) {
+            const errorMessage = getErrorMessage(err);
+            ErrorLogger.error(
+                `Failed to save smart list: ${errorMessage}`,
+                err instanceof Error ? err : undefined,
+                'SmartListStore.createSmartList'
+            );
+            NotificationService.error('Smart List Not Saved', errorMessage);
+            return null;
+        }
+    },
+
+    /**
+     * Rename a smart list or replace its filters
+     */
+    async updateSmartList(id: string, updates: { name?: string; filters?: FilterState }): Promise<SmartList | null> {
+        try {
+            const list = await apiClient.updateSmartList(id, updates);
+            smartLists.update(lists => sortByName(lists.map(l => l.id === id ? list : l)));
+            return list;
+        } catch (err) {
+            const errorMessage = getErrorMessage(err);
+            ErrorLogger.error(
+                `Failed to update smart list: ${errorMessage}`,
+                err instanceof Error ? err : undefined,
+                'SmartListStore.updateSmartList'
+            );
+            NotificationService.error('Smart List Not Saved', errorMessage);
+            return null;
+        }
+    },
+
+    /**
+     * Delete a smart list
+     */
+    async deleteSmartList(id: string): Promise<boolean> {
+        try {
+            await apiClient.deleteSmartList(id);
+            smartLists.update(lists => lists.filter(l => l.id !== id));
+            return true;
+        } catch (err) {
+            const errorMessage = getErrorMessage(err);
+            ErrorLogger.error(
+                `Failed to delete smart list: ${errorMessage}`,
+                err instanceof Error ? err : undefined,
+                'SmartListStore.deleteSmartList'
+            );
+            NotificationService.error('Smart List Not Deleted', errorMessage);
+            return false;
+        }
+    }
+};
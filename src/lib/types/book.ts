@@ -2,10 +2,13 @@
  * Core data models for the Audiobook Wishlist Manager
  */
 
+export type ListeningStatus = 'wishlist' | 'queued' | 'listening' | 'finished' | 'abandoned';
+
 export interface Book {
     id: string;
     title: string;
     author: string;
+    narrators?: string[];
     tags: BookTag[];
     performanceRating?: number;
     storyRating?: number;
@@ -15,6 +18,21 @@ export interface Book {
     audibleUrl?: string;
     description?: string;
     highlyRatedFor?: string;
+    status?: ListeningStatus;
+    // When the book last moved into each status
+    queuedAt?: Date;
+    startedAt?: Date;
+    finishedAt?: Date;
+    abandonedAt?: Date;
+    series?: BookSeries;
+    seriesPosition?: number;
+    // Length in minutes
+    durationMinutes?: number;
+    // Our own rating in half stars (0.5 to 5) and review
+    personalRating?: number;
+    review?: string;
+    // Our own notes, newest first; imports never change them
+    notes?: BookNote[];
 }
 
 export interface BookTag {
@@ -23,6 +41,32 @@ export interface BookTag {
     color: string;
 }
 
+export interface BookSeries {
+    id: string;
+    name: string;
+    totalVolumes?: number;
+}
+
+export interface BookNote {
+    id: string;
+    body: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Piece of a search snippet; `match` marks the words that matched the query
+export interface SearchSnippetPart {
+    text: string;
+    match: boolean;
+}
+
+export interface BookSearchResult {
+    book: Book;
+    // Relevance; higher is a better match
+    score: number;
+    snippet: SearchSnippetPart[];
+}
+
 export interface WishlistState {
     books: Book[];
     filters: FilterState;
@@ -32,8 +76,46 @@ export interface WishlistState {
 export interface FilterState {
     searchQuery: string;
     selectedTags: string[];
-    sortBy: 'dateAdded' | 'title' | 'author' | 'performanceRating' | 'storyRating';
+    // Whether books need all of the selected tags (the default) or any of them
+    tagMatch?: 'all' | 'any';
+    // Books with any of these tags are hidden
+    excludedTags?: string[];
+    sortBy: 'dateAdded' | 'title' | 'author' | 'narrator' | 'performanceRating' | 'storyRating' | 'personalRating' | 'duration';
     sortOrder: 'asc' | 'desc';
+    // Length bounds in minutes; books without a length are hidden while either is set
+    minDuration?: number;
+    maxDuration?: number;
+    // Rating bounds (0 to 5); books without the rating are hidden while either is set
+    minPerformanceRating?: number;
+    maxPerformanceRating?: number;
+    minStoryRating?: number;
+    maxStoryRating?: number;
+    // Show only books that have no rating of this kind
+    unratedPerformance?: boolean;
+    unratedStory?: boolean;
+}
+
+// Books a filter option would leave, given the other filters
+export interface FacetCount {
+    value: string;
+    count: number;
+}
+
+export interface RatingFacet {
+    // Books left by each minimum rating
+    buckets: Array<{ min: number; count: number }>;
+    // Books left by "has no rating"
+    unrated: number;
+}
+
+export interface BookFacets {
+    // Books matching the filters as they are
+    total: number;
+    tags: FacetCount[];
+    // Most books in the library first
+    authors: FacetCount[];
+    performanceRating: RatingFacet;
+    storyRating: RatingFacet;
 }
 
 export interface WishlistData {
@@ -45,6 +127,7 @@ export interface WishlistData {
 export interface CreateBookInput {
     title: string;
     author: string;
+    narrators?: string[];
     tags?: BookTag[];
     performanceRating?: number;
     storyRating?: number;
@@ -53,6 +136,17 @@ export interface CreateBookInput {
     audibleUrl?: string;
     description?: string;
     highlyRatedFor?: string;
+    status?: ListeningStatus;
+    // Series are matched by name; an empty name takes the book out of its series
+    seriesName?: string;
+    seriesTotalVolumes?: number;
+    // null clears the position or length of an existing book
+    seriesPosition?: number | null;
+    durationMinutes?: number | null;
+    personalRating?: number;
+    review?: string;
+    // When we finished the book; defaults to the time it was marked finished
+    finishedAt?: Date;
 }
 
 // Type for updating an existing book
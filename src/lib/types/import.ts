@@ -0,0 +1,100 @@
+/**
+ * Data models for bulk import
+ */
+
+import type { BookSeries, CreateBookInput } from './book.js';
+
+export type ImportStrategy = 'replace' | 'merge' | 'skip-duplicates';
+
+export const IMPORT_STRATEGIES: ImportStrategy[] = ['replace', 'merge', 'skip-duplicates'];
+
+// A book in an import payload; ids and dates from backups are optional
+export interface ImportBookInput extends CreateBookInput {
+    id?: string;
+    dateAdded?: string | Date;
+    queuedAt?: string | Date;
+    startedAt?: string | Date;
+    abandonedAt?: string | Date;
+    // Series as written by exports; seriesName takes precedence
+    series?: BookSeries;
+}
+
+export interface BulkImportRequest {
+    books: ImportBookInput[];
+    strategy: ImportStrategy;
+    // Compute the preview without writing anything
+    dryRun?: boolean;
+    // Name of the imported file(s), recorded on the import session
+    sourceFileName?: string;
+}
+
+export interface BulkImportWarning {
+    index: number;
+    title?: string;
+    message: string;
+}
+
+export interface BulkImportResult {
+    strategy: ImportStrategy;
+    created: number;
+    updated: number;
+    skipped: number;
+    deleted: number;
+    warnings: BulkImportWarning[];
+    sessionId?: string;
+}
+
+export type ImportAction = 'create' | 'update' | 'skip' | 'invalid';
+
+// How an incoming book was matched to an existing one
+export type ImportMatchType = 'id' | 'title-author';
+
+export interface ImportFieldChange {
+    field: string;
+    from: string | number | null;
+    to: string | number | null;
+}
+
+// What an import would do with a single incoming book
+export interface ImportPreviewEntry {
+    index: number;
+    title?: string;
+    author?: string;
+    action: ImportAction;
+    matchedBookId?: string;
+    matchedBy?: ImportMatchType;
+    changes: ImportFieldChange[];
+    addedTags: string[];
+    removedTags: string[];
+    message?: string;
+}
+
+export interface BulkImportPreview {
+    strategy: ImportStrategy;
+    created: number;
+    updated: number;
+    skipped: number;
+    deleted: number;
+    entries: ImportPreviewEntry[];
+}
+
+// A recorded import that can be undone
+export interface ImportSession {
+    id: string;
+    sourceFileName: string | null;
+    strategy: ImportStrategy;
+    created: number;
+    updated: number;
+    skipped: number;
+    deleted: number;
+    createdAt: Date;
+    undoneAt: Date | null;
+}
+
+export interface UndoImportResult {
+    session: ImportSession;
+    booksRestored: number;
+    booksRemoved: number;
+    tagsRemoved: number;
+    seriesRemoved: number;
+}
@@ -0,0 +1,20 @@
+/**
+ * Data models for smart lists: named, saved wishlist filters
+ */
+
+import type { FilterState } from './book.js';
+
+export interface SmartList {
+    id: string;
+    name: string;
+    filters: FilterState;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface CreateSmartListInput {
+    name: string;
+    filters: FilterState;
+}
+
+export type UpdateSmartListInput = Partial<CreateSmartListInput>;
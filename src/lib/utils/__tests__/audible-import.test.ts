@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { parseCsv } from '../csv';
+import {
+    parseAudibleCsv,
+    isAudibleCsv,
+    categoriesToTags,
+    normalizeHighlyRatedFor,
+    isAudibleExportData,
+    parseAudibleJson,
+    summarizeImport
+} from '../audible-import';
+
+const HEADER = '"Audiobook Title","Audiobook URL","Audiobook Image","Author","Narrated By","Categories","Performance Rating (Max 5)","Story Rating (Max 5)","Highly rated for"';
+
+describe('parseCsv', () => {
+    it('should parse quoted fields with commas, escaped quotes and newlines', () => {
+        const records = parseCsv('a,"b, c","say ""hi""","multi\nline"\r\n1,2,3,4\n');
+        expect(records).toEqual([
+            ['a', 'b, c', 'say "hi"', 'multi\nline'],
+            ['1', '2', '3', '4']
+        ]);
+    });
+
+    it('should strip a byte order mark and skip blank lines', () => {
+        expect(parseCsv('\uFEFFa,b\n\n c,d')).toEqual([['a', 'b'], [' c', 'd']]);
+    });
+});
+
+describe('Audible CSV import', () => {
+    it('should detect Audible CSV headers', () => {
+        expect(isAudibleCsv(`${HEADER}\n`)).toBe(true);
+        expect(isAudibleCsv('title,author\n')).toBe(false);
+    });
+
+    it('should map columns onto CreateBookInput', () => {
+        const csv = `${HEADER}\n"The Princess Bride","https://www.audible.com/pd/B09NLG87J7","https://img/1.jpg","William Goldman","Rob Reiner","Action & Adventure,Fantasy,Fiction","4.5","4.6","Classic Adventure, Timeless Romance"`;
+        const result = parseAudibleCsv(csv);
+
+        expect(result.errors).toEqual([]);
+        expect(result.books).toHaveLength(1);
+        expect(result.books[0]).toMatchObject({
+            title: 'The Princess Bride',
+            author: 'William Goldman',
+            narrators: ['Rob Reiner'],
+            audibleUrl: 'https://www.audible.com/pd/B09NLG87J7',
+            coverImageUrl: 'https://img/1.jpg',
+            performanceRating: 4.5,
+            storyRating: 4.6,
+            highlyRatedFor: 'Classic Adventure • Timeless Romance'
+        });
+        expect(result.books[0].tags?.map(tag => tag.name)).toEqual(['action & adventure', 'fantasy', 'fiction']);
+    });
+
+    it('should report per-row errors without failing the whole file', () => {
+        const csv = [
+            HEADER,
+            '"Good Book","","","Author A","","","4.0","",""',
+            '"","","","Author B","","","","",""',
+            '"Bad Rating","","","Author C","","","seven","",""',
+            '"Short Row","Author D"'
+        ].join('\n');
+        const result = parseAudibleCsv(csv, 'page-1.csv');
+
+        expect(result.books.map(book => book.title)).toEqual(['Good Book']);
+        expect(result.errors).toHaveLength(3);
+        expect(result.errors[0]).toMatchObject({ source: 'page-1.csv', row: 3, message: 'Missing title or author' });
+        expect(result.errors[1]).toMatchObject({ row: 4, title: 'Bad Rating' });
+        expect(result.errors[1].message).toContain('Performance rating');
+        expect(result.errors[2]).toMatchObject({ row: 5, title: 'Short Row' });
+    });
+
+    it('should skip header rows repeated by concatenated pages', () => {
+        const page1 = readFileSync('audiable-whishlist-page-1.csv', 'utf8');
+        const page2 = readFileSync('audiable-whishlist-page-2.csv', 'utf8');
+        const single = parseAudibleCsv(page1);
+        const combined = parseAudibleCsv(`${page1}\n${page2}`);
+
+        expect(single.books.length).toBeGreaterThan(0);
+        expect(combined.errors).toEqual([]);
+        expect(combined.books.length).toBe(single.books.length + parseAudibleCsv(page2).books.length);
+    });
+
+    it('should reject files without required columns', () => {
+        const result = parseAudibleCsv('"Name","Writer"\n"A","B"');
+        expect(result.books).toEqual([]);
+        expect(result.errors[0].message).toContain('Missing required column');
+    });
+});
+
+describe('Audible JSON import', () => {
+    it('should detect the exportVersion envelope but not wishlist backups', () => {
+        expect(isAudibleExportData({ exportVersion: '1.0', books: [] })).toBe(true);
+        expect(isAudibleExportData({ books: [], lastUpdated: '2024-01-01' })).toBe(false);
+    });
+
+    it('should parse the scraped export and convert categories into tags', () => {
+        const data = JSON.parse(readFileSync('audiable-data-240925.json', 'utf8'));
+        const result = parseAudibleJson(data, 'audiable-data-240925.json');
+
+        expect(result.errors).toEqual([]);
+        expect(result.books).toHaveLength(data.books.length);
+        expect(result.books[0]).toMatchObject({
+            title: 'Three Men in a Boat (To Say Nothing of the Dog)',
+            author: 'Jerome K. Jerome',
+            narrators: ['Steven Crossley'],
+            performanceRating: 4.6,
+            storyRating: 4.3
+        });
+        expect(result.books[0].tags?.map(tag => tag.name)).toContain('feel-good');
+    });
+
+    it('should report invalid books by position', () => {
+        const result = parseAudibleJson({
+            exportVersion: '1.0',
+            books: [
+                { title: 'Ok', author: 'A' },
+                { title: '', author: 'B' },
+                { title: 'Bad', author: 'C', storyRating: 9 }
+            ]
+        });
+
+        expect(result.books).toHaveLength(1);
+        expect(result.errors.map(error => error.row)).toEqual([2, 3]);
+    });
+
+    it('should summarize the mapping', () => {
+        const parsed = parseAudibleJson({
+            exportVersion: '1.0',
+            books: [
+                { title: 'One', author: 'A', narrator: 'N', categories: 'Fiction,Humor', performanceRating: 4 },
+                { title: 'Two', author: 'B', categories: 'Fiction' }
+            ]
+        });
+        const summary = summarizeImport(parsed, { declaredTotal: 3 });
+
+        expect(summary).toMatchObject({ bookCount: 2, errorCount: 0, withRatings: 1, withNarrator: 1, declaredTotal: 3 });
+        expect(summary.tagCounts).toEqual([
+            { name: 'fiction', count: 2 },
+            { name: 'humor', count: 1 }
+        ]);
+    });
+});
+
+describe('import helpers', () => {
+    it('should dedupe categories and reuse predefined tag colors', () => {
+        const tags = categoriesToTags('Thriller, thriller ,Fiction,');
+        expect(tags.map(tag => tag.name)).toEqual(['thriller', 'fiction']);
+        expect(tags[0].color).toBe('#dc2626');
+    });
+
+    it('should keep bullet separated lists as-is', () => {
+        expect(normalizeHighlyRatedFor('A • B')).toBe('A • B');
+        expect(normalizeHighlyRatedFor('  ')).toBeUndefined();
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateAuthors, getAuthorPath, hasAuthor, parseAuthors } from '../authors';
+
+describe('authors', () => {
+    it('should split co-authored books into one name per author', () => {
+        expect(parseAuthors('Douglas Preston; Lincoln Child')).toEqual(['Douglas Preston', 'Lincoln Child']);
+        expect(parseAuthors('Terry Pratchett & Neil Gaiman')).toEqual(['Terry Pratchett', 'Neil Gaiman']);
+        expect(parseAuthors('James S. A. Corey and  Daniel Abraham')).toEqual(['James S. A. Corey', 'Daniel Abraham']);
+        expect(parseAuthors('Alexandra Andrews')).toEqual(['Alexandra Andrews']);
+        expect(parseAuthors('  ')).toEqual([]);
+    });
+
+    it('should keep commas inside names', () => {
+        expect(parseAuthors('Martin Luther King, Jr.')).toEqual(['Martin Luther King, Jr.']);
+        expect(parseAuthors('Tolkien, J.R.R. & Tolkien, Christopher')).toEqual(['Tolkien, J.R.R.', 'Tolkien, Christopher']);
+    });
+
+    it('should match an author regardless of case and co-authors', () => {
+        expect(hasAuthor({ author: 'Terry Pratchett & Neil Gaiman' }, 'neil gaiman')).toBe(true);
+        expect(hasAuthor({ author: 'Neil Gaiman' }, 'Neil')).toBe(false);
+    });
+
+    it('should total books, queued books and average ratings per author', () => {
+        const authors = aggregateAuthors([
+            { author: 'Fredrik Backman', storyRating: 4.5, queued: true },
+            { author: 'fredrik backman', storyRating: 4, personalRating: 5, queued: false },
+            { author: 'Andy Weir & Fredrik Backman', queued: true }
+        ]);
+
+        expect(authors).toEqual([
+            { name: 'Andy Weir', bookCount: 1, queuedCount: 1, averagePerformanceRating: undefined, averageStoryRating: undefined, averagePersonalRating: undefined },
+            { name: 'Fredrik Backman', bookCount: 3, queuedCount: 2, averagePerformanceRating: undefined, averageStoryRating: 4.25, averagePersonalRating: 5 }
+        ]);
+    });
+
+    it('should build author page links', () => {
+        expect(getAuthorPath('Brandon Sanderson')).toBe('/authors/Brandon%20Sanderson');
+    });
+});
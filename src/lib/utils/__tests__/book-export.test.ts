@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import type { Book } from '$lib/types/book';
+import { parseCsv, toCsv } from '../csv';
+import { parseAudibleCsv } from '../audible-import';
+import { booksToCsv, booksToMarkdown } from '../book-export';
+
+function createBook(overrides: Partial<Book>): Book {
+    return {
+        id: 'book-1',
+        title: 'Book',
+        author: 'Author',
+        tags: [],
+        dateAdded: new Date('2024-01-01'),
+        ...overrides
+    };
+}
+
+const princessBride = createBook({
+    title: 'The Princess Bride',
+    author: 'William Goldman',
+    audibleUrl: 'https://www.audible.com/pd/B09NLG87J7',
+    coverImageUrl: 'https://img/1.jpg',
+    narrators: ['Rob Reiner'],
+    performanceRating: 4.5,
+    storyRating: 4.6,
+    highlyRatedFor: 'Classic Adventure • Timeless Romance',
+    tags: [
+        { id: 't1', name: 'fantasy', color: '#6b7280' },
+        { id: 't2', name: 'funny', color: '#fbbf24' }
+    ]
+});
+
+describe('toCsv', () => {
+    it('should quote every field and escape quotes, commas and newlines', () => {
+        const records = [['a', 'b, c'], ['say "hi"', 'multi\nline']];
+        const csv = toCsv(records);
+
+        expect(csv).toBe('"a","b, c"\n"say ""hi""","multi\nline"\n');
+        expect(parseCsv(csv)).toEqual(records);
+    });
+});
+
+describe('booksToCsv', () => {
+    it('should use the Audible wishlist columns followed by our own columns', () => {
+        const [header, row] = parseCsv(booksToCsv([princessBride]));
+
+        expect(header).toEqual([
+            'Audiobook Title',
+            'Audiobook URL',
+            'Audiobook Image',
+            'Author',
+            'Narrated By',
+            'Categories',
+            'Performance Rating (Max 5)',
+            'Story Rating (Max 5)',
+            'Highly rated for',
+            'Length',
+            'Queue Position',
+            'Date Added',
+            'My Rating',
+            'My Review',
+            'Date Finished'
+        ]);
+        expect(row).toEqual([
+            'The Princess Bride',
+            'https://www.audible.com/pd/B09NLG87J7',
+            'https://img/1.jpg',
+            'William Goldman',
+            'Rob Reiner',
+            'fantasy,funny',
+            '4.5',
+            '4.6',
+            'Classic Adventure • Timeless Romance',
+            '',
+            '',
+            '2024-01-01T00:00:00.000Z',
+            '',
+            '',
+            ''
+        ]);
+    });
+
+    it('should round-trip through the CSV importer', () => {
+        const plain = createBook({ id: 'book-2', title: 'Quotes "and", commas', author: 'Someone', durationMinutes: 725 });
+        const result = parseAudibleCsv(booksToCsv([princessBride, plain]));
+
+        expect(result.errors).toEqual([]);
+        expect(result.books[0]).toMatchObject({
+            title: princessBride.title,
+            author: princessBride.author,
+            audibleUrl: princessBride.audibleUrl,
+            coverImageUrl: princessBride.coverImageUrl,
+            narrators: princessBride.narrators,
+            performanceRating: 4.5,
+            storyRating: 4.6,
+            highlyRatedFor: princessBride.highlyRatedFor
+        });
+        expect(result.books[0].tags?.map(tag => tag.name)).toEqual(['fantasy', 'funny']);
+        expect(result.books[1]).toMatchObject({ title: plain.title, author: 'Someone', durationMinutes: 725, tags: [] });
+    });
+
+    it('should re-export an Audible CSV page without losing rows', () => {
+        const page = parseAudibleCsv(readFileSync('audiable-whishlist-page-1.csv', 'utf8'));
+        const books = page.books.map((input, index) => createBook({ ...input, id: `book-${index}`, tags: input.tags ?? [] } as Partial<Book>));
+
+        expect(parseAudibleCsv(booksToCsv(books)).books).toEqual(page.books.map(book => ({
+            ...book,
+            tags: book.tags?.map(tag => ({ ...tag, id: expect.any(String) }))
+        })));
+    });
+});
+
+describe('booksToMarkdown', () => {
+    it('should group books by tag with ratings and cover links', () => {
+        const untagged = createBook({ id: 'book-2', title: 'Loose *Book*', author: 'Someone' });
+        const markdown = booksToMarkdown([princessBride, untagged], new Date('2024-09-24T12:00:00Z'));
+
+        expect(markdown).toContain('# Audiobook Wishlist');
+        expect(markdown).toContain('_2 books • exported 2024-09-24_');
+        expect(markdown.indexOf('## fantasy (1)')).toBeLessThan(markdown.indexOf('## funny (1)'));
+        expect(markdown.indexOf('## funny (1)')).toBeLessThan(markdown.indexOf('## Untagged (1)'));
+        expect(markdown).toContain(
+            '- **[The Princess Bride](https://www.audible.com/pd/B09NLG87J7)** by William Goldman, narrated by Rob Reiner — Performance ★ 4.5 • Story ★ 4.6 • [Cover](https://img/1.jpg)'
+        );
+        expect(markdown).toContain('- **Loose \\*Book\\*** by Someone\n');
+    });
+
+    it('should include our own rating and quote the review', () => {
+        const reviewed = createBook({ personalRating: 4.5, review: 'Loved it.\nWould listen again' });
+
+        expect(booksToMarkdown([reviewed])).toContain(
+            '- **Book** by Author — Mine ★ 4.5\n  > Loved it.\n  > Would listen again\n'
+        );
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { formatDuration, formatHours, parseDuration, summarizeDuration } from '../duration';
+import type { Book } from '../../types/book';
+
+describe('duration', () => {
+    it('should parse Audible lengths', () => {
+        expect(parseDuration('12 hrs and 5 mins')).toBe(725);
+        expect(parseDuration('1 hr and 1 min')).toBe(61);
+        expect(parseDuration('45 mins')).toBe(45);
+        expect(parseDuration('Length: 3 hrs')).toBeNull();
+    });
+
+    it('should parse short and clock forms', () => {
+        expect(parseDuration('12h 5m')).toBe(725);
+        expect(parseDuration('12h5m')).toBe(725);
+        expect(parseDuration('1.5 hours')).toBe(90);
+        expect(parseDuration('12:05')).toBe(725);
+        expect(parseDuration('90')).toBe(90);
+    });
+
+    it('should reject text that is not a length', () => {
+        expect(parseDuration('')).toBeNull();
+        expect(parseDuration(undefined)).toBeNull();
+        expect(parseDuration('about twelve hours')).toBeNull();
+        expect(parseDuration('12 hrs and change')).toBeNull();
+    });
+
+    it('should format minutes like Audible', () => {
+        expect(formatDuration(725)).toBe('12 hrs and 5 mins');
+        expect(formatDuration(60)).toBe('1 hr');
+        expect(formatDuration(1)).toBe('1 min');
+        expect(formatDuration(0)).toBe('0 mins');
+        expect(formatDuration(undefined)).toBe('');
+        expect(parseDuration(formatDuration(725))).toBe(725);
+    });
+
+    it('should total the length of books and count unknown ones', () => {
+        const book = (durationMinutes?: number) =>
+            ({ id: 'b', title: 'T', author: 'A', tags: [], dateAdded: new Date(), durationMinutes }) as Book;
+
+        const summary = summarizeDuration([book(725), book(), book(115)]);
+
+        expect(summary).toEqual({ totalMinutes: 840, unknownCount: 1 });
+        expect(formatHours(summary.totalMinutes)).toBe('14 h');
+    });
+});
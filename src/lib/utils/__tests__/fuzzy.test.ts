@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { allowsTypos, editDistance, foldText, fuzzyFind, fuzzyScore, suggestCorrection } from '../fuzzy';
+
+describe('foldText', () => {
+    it('should lower-case text and strip accents', () => {
+        expect(foldText('Bäckman Élan Ñandú')).toBe('backman elan nandu');
+    });
+});
+
+describe('editDistance', () => {
+    it('should count swapped neighbours as one edit', () => {
+        expect(editDistance('tolkein', 'tolkien')).toBe(1);
+        expect(editDistance('backmann', 'backman')).toBe(1);
+        expect(editDistance('weir', 'ward')).toBe(3);
+    });
+});
+
+describe('allowsTypos', () => {
+    it('should allow typos in single words of four letters or more', () => {
+        expect(allowsTypos('Tolkein')).toBe(true);
+        expect(allowsTypos('ove')).toBe(false);
+        expect(allowsTypos('hail marry')).toBe(false);
+    });
+});
+
+describe('fuzzyFind', () => {
+    it('should find exact text regardless of case and accents', () => {
+        expect(fuzzyFind('backman', 'Fredrik Bäckman')).toEqual({ score: 1, start: 8, end: 15 });
+        expect(fuzzyFind('hail m', 'Project Hail Mary')).toMatchObject({ score: 1 });
+    });
+
+    it('should allow typos in longer words and rank them lower', () => {
+        const match = fuzzyFind('Tolkein', 'J.R.R. Tolkien');
+        expect(match).toMatchObject({ start: 7, end: 14 });
+        expect(match!.score).toBeLessThan(1);
+        expect(fuzzyScore('backmann', ['A Man Called Ove', 'Fredrik Backman'])).toBeGreaterThan(0);
+        expect(fuzzyScore('silmarilion', ['The Silmarillion'])).toBeGreaterThan(fuzzyScore('silmarlin', ['The Silmarillion']));
+    });
+
+    it('should keep short words, first letters and phrases exact', () => {
+        expect(fuzzyFind('ove', 'A Man Called Eve')).toBeNull();
+        expect(fuzzyFind('bray', 'Ray Porter')).toBeNull();
+        expect(fuzzyFind('hail marry', 'Project Hail Mary')).toBeNull();
+    });
+});
+
+describe('suggestCorrection', () => {
+    it('should suggest the closest known word for words that do not match', () => {
+        const texts = ['The Hobbit', 'J.R.R. Tolkien', 'Fredrik Backman'];
+
+        expect(suggestCorrection(['Tolkein', 'hobbit'], texts)).toEqual(new Map([['Tolkein', 'Tolkien']]));
+        expect(suggestCorrection(['hobbit'], texts)).toBeNull();
+        expect(suggestCorrection(['zzzzzz'], texts)).toBeNull();
+    });
+});
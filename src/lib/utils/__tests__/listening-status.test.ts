@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { getStatusHistory, getStatusTransition, isListeningStatus, reconcileQueue, toStatusFields } from '../listening-status';
+
+describe('listening status', () => {
+    it('should recognize known statuses', () => {
+        expect(isListeningStatus('listening')).toBe(true);
+        expect(isListeningStatus('read')).toBe(false);
+        expect(isListeningStatus(undefined)).toBe(false);
+    });
+
+    it('should stamp the timestamp of the status being entered', () => {
+        const at = '2024-05-01T10:00:00.000Z';
+
+        expect(getStatusTransition('listening', at)).toEqual({ status: 'listening', startedAt: at });
+        expect(getStatusTransition('finished', at)).toEqual({ status: 'finished', finishedAt: at });
+        expect(getStatusTransition('wishlist', at)).toEqual({ status: 'wishlist' });
+    });
+
+    it('should convert stored columns into book fields', () => {
+        expect(toStatusFields({
+            status: 'queued',
+            queuedAt: '2024-05-01T10:00:00.000Z',
+            startedAt: null,
+            finishedAt: null,
+            abandonedAt: null
+        })).toEqual({
+            status: 'queued',
+            queuedAt: new Date('2024-05-01T10:00:00.000Z'),
+            startedAt: undefined,
+            finishedAt: undefined,
+            abandonedAt: undefined
+        });
+        expect(toStatusFields({ status: null, queuedAt: null, startedAt: null, finishedAt: null, abandonedAt: null }).status)
+            .toBe('wishlist');
+    });
+
+    it('should list when a book was added and changed status, oldest first', () => {
+        const history = getStatusHistory({
+            dateAdded: new Date('2024-01-01T10:00:00.000Z'),
+            queuedAt: new Date('2024-02-01T10:00:00.000Z'),
+            // Books loaded straight from JSON carry strings
+            finishedAt: '2024-04-01T10:00:00.000Z' as unknown as Date,
+            startedAt: new Date('2024-03-01T10:00:00.000Z')
+        });
+
+        expect(history.map(event => event.label)).toEqual(['Added', 'Queued', 'Listening', 'Finished']);
+        expect(history[3].at).toEqual(new Date('2024-04-01T10:00:00.000Z'));
+    });
+
+    it('should keep the queued status and the next tag in step', () => {
+        const wishlist = { status: 'wishlist' as const, hasNextTag: false };
+        const queued = { status: 'queued' as const, hasNextTag: true };
+        const listening = { status: 'listening' as const, hasNextTag: false };
+
+        expect(reconcileQueue(wishlist, { status: 'queued' })).toEqual(queued);
+        expect(reconcileQueue(queued, { status: 'listening', hasNextTag: true })).toEqual(listening);
+        expect(reconcileQueue(wishlist, { hasNextTag: true })).toEqual(queued);
+        expect(reconcileQueue(queued, { hasNextTag: false })).toEqual(wishlist);
+        expect(reconcileQueue(listening, { hasNextTag: true })).toEqual(queued);
+        expect(reconcileQueue(queued, { status: 'queued', hasNextTag: true })).toEqual(queued);
+    });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { formatNarrators, isValidNarratorList, normalizeNarrators, parseNarrators } from '../narrators';
+
+describe('narrators', () => {
+    it('should split comma-separated narrators and drop blanks and duplicates', () => {
+        expect(parseNarrators(' Ray Porter, , Jane Doe,ray porter ')).toEqual(['Ray Porter', 'Jane Doe']);
+        expect(parseNarrators('')).toEqual([]);
+        expect(parseNarrators(undefined)).toEqual([]);
+    });
+
+    it('should normalize narrator lists', () => {
+        expect(normalizeNarrators([' A ', 'B', 'a'])).toEqual(['A', 'B']);
+        expect(normalizeNarrators(null)).toEqual([]);
+    });
+
+    it('should format narrators for display', () => {
+        expect(formatNarrators(['Scott Brick', 'Orlagh Cassidy'])).toBe('Scott Brick, Orlagh Cassidy');
+        expect(formatNarrators(undefined)).toBe('');
+    });
+
+    it('should validate narrator lists', () => {
+        expect(isValidNarratorList(['A', 'B'])).toBe(true);
+        expect(isValidNarratorList([])).toBe(true);
+        expect(isValidNarratorList('A')).toBe(false);
+        expect(isValidNarratorList(['A', 1])).toBe(false);
+    });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseSearchQuery,
+    CLOSE_MATCH_LIMIT,
+    filterBySearchQuery,
+    matchesSearchQuery,
+    scoreSearchQuery,
+    suggestSearchQuery,
+    type SearchQuery
+} from '../search-query';
+import type { Book } from '$lib/types/book';
+
+function parse(input: string): SearchQuery {
+    const result = parseSearchQuery(input);
+    if (!result.success) throw new Error(result.error.message);
+    return result.query;
+}
+
+const martian: Book = {
+    id: '1',
+    title: 'The Martian',
+    author: 'Andy Weir',
+    narrators: ['R.C. Bray'],
+    storyRating: 4.7,
+    durationMinutes: 653,
+    dateAdded: new Date('2024-03-10T12:00:00Z'),
+    status: 'finished',
+    series: undefined,
+    tags: [{ id: 't1', name: 'funny', color: '#22c55e' }]
+};
+
+const dune: Book = {
+    id: '2',
+    title: 'Dune',
+    author: 'Frank Herbert',
+    storyRating: 4.2,
+    dateAdded: new Date('2023-11-02T12:00:00Z'),
+    series: { id: 's1', name: 'Dune Chronicles' },
+    tags: [{ id: 't2', name: 'series', color: '#3b82f6' }]
+};
+
+describe('parseSearchQuery', () => {
+    it('should parse the filters of a query into terms', () => {
+        expect(parse('author:weir tag:funny -tag:series story>=4.5 added:2024').terms).toEqual([
+            { type: 'field', field: 'author', value: 'weir', negated: false },
+            { type: 'tag', name: 'funny', negated: false },
+            { type: 'tag', name: 'series', negated: true },
+            { type: 'number', field: 'storyRating', operator: '>=', value: 4.5, negated: false },
+            {
+                type: 'added',
+                operator: '=',
+                from: '2024-01-01T00:00:00.000Z',
+                to: '2025-01-01T00:00:00.000Z',
+                negated: false
+            }
+        ]);
+    });
+
+    it('should treat plain and quoted words as text', () => {
+        expect(parse('hail "project hail" -mary').terms).toEqual([
+            { type: 'text', value: 'hail', negated: false },
+            { type: 'text', value: 'project hail', negated: false },
+            { type: 'text', value: 'mary', negated: true }
+        ]);
+        expect(parse('narrator:"ray porter"').terms).toEqual([
+            { type: 'field', field: 'narrator', value: 'ray porter', negated: false }
+        ]);
+    });
+
+    it('should read lengths as hours unless a unit is given', () => {
+        expect(parse('length<10 length>=90m').terms.map(term => term.type === 'number' && term.value)).toEqual([600, 90]);
+    });
+
+    it('should search for unknown keys and keys followed by a space as text', () => {
+        expect(parse('funny colour:red').terms).toEqual([
+            { type: 'text', value: 'funny', negated: false },
+            { type: 'text', value: 'colour:red', negated: false }
+        ]);
+        expect(parse('Dune: Messiah').terms.map(term => term.type === 'text' && term.value)).toEqual(['Dune:', 'Messiah']);
+        expect(parse('author: weir').terms.map(term => term.type)).toEqual(['text', 'text']);
+        expect(parse('rating>4').terms).toEqual([{ type: 'text', value: 'rating>4', negated: false }]);
+        expect(parse('mine>=4').terms).toEqual([
+            { type: 'number', field: 'personalRating', operator: '>=', value: 4, negated: false }
+        ]);
+    });
+
+    it('should report where a query goes wrong', () => {
+        expect(parseSearchQuery('story>=good')).toMatchObject({ success: false, error: { position: 0 } });
+        expect(parseSearchQuery('added:2024-13')).toMatchObject({ success: false });
+        expect(parseSearchQuery('status:reading')).toMatchObject({ success: false });
+        expect(parseSearchQuery('author:"weir')).toMatchObject({ success: false, error: { message: 'Missing closing quote', position: 7 } });
+        expect(parseSearchQuery('tag:')).toMatchObject({ success: false, error: { message: 'Missing value after tag:' } });
+    });
+});
+
+describe('matchesSearchQuery', () => {
+    const books = [martian, dune];
+    const search = (input: string) => books.filter(book => matchesSearchQuery(book, parse(input))).map(book => book.title);
+
+    it('should match plain words against title, author and narrators', () => {
+        expect(search('bray')).toEqual(['The Martian']);
+        expect(search('HERBERT')).toEqual(['Dune']);
+        expect(search('')).toEqual(['The Martian', 'Dune']);
+    });
+
+    it('should combine filters and exclusions', () => {
+        expect(search('author:weir tag:funny -tag:series story>=4.5 added:2024')).toEqual(['The Martian']);
+        expect(search('-tag:funny')).toEqual(['Dune']);
+        expect(search('series:chronicles status:wishlist')).toEqual(['Dune']);
+        expect(search('added<2024')).toEqual(['Dune']);
+    });
+
+    it('should not match comparisons on missing values unless excluded', () => {
+        expect(search('length>1')).toEqual(['The Martian']);
+        expect(search('-length>1')).toEqual(['Dune']);
+    });
+
+    it('should match plain words exactly and exclude exact words only', () => {
+        expect(search('herbret')).toEqual([]);
+        expect(search('-herbret')).toEqual(['The Martian', 'Dune']);
+        expect(scoreSearchQuery(dune, parse('herbret'))).toBeLessThan(scoreSearchQuery(dune, parse('herbert')));
+        expect(scoreSearchQuery(dune, parse('tag:series'))).toBe(1);
+    });
+});
+
+describe('filterBySearchQuery', () => {
+    const search = (input: string, books: Book[] = [martian, dune]) =>
+        filterBySearchQuery(books, parse(input)).map(book => book.title);
+
+    it('should allow typos only when nothing matches exactly', () => {
+        const dine = { ...dune, id: '3', title: 'Dine Out', author: 'Jo Cook' };
+
+        expect(search('herbret')).toEqual(['Dune']);
+        expect(search('dune', [dine, dune])).toEqual(['Dune']);
+        expect(search('herbret tag:funny')).toEqual([]);
+    });
+
+    it('should keep the closest books up to the limit, ties in id order', () => {
+        const books = Array.from({ length: CLOSE_MATCH_LIMIT + 1 }, (_, i) => ({
+            ...dune,
+            id: `book-${String(i).padStart(2, '0')}`,
+            title: `Herbertson ${i}`
+        }));
+
+        const found = filterBySearchQuery([...books].reverse(), parse('herbret'));
+        expect(found).toHaveLength(CLOSE_MATCH_LIMIT);
+        expect(found[0].id).toBe('book-00');
+        expect(found.map(book => book.id)).not.toContain(`book-${CLOSE_MATCH_LIMIT}`);
+    });
+});
+
+describe('suggestSearchQuery', () => {
+    it('should offer a correction only when nothing matches exactly', () => {
+        expect(suggestSearchQuery('herbret tag:series', [martian, dune])).toBe('Herbert tag:series');
+        expect(suggestSearchQuery('herbert', [martian, dune])).toBeNull();
+        expect(suggestSearchQuery('story>4', [martian, dune])).toBeNull();
+    });
+
+    it('should correct each word where it was typed', () => {
+        expect(suggestSearchQuery('title:herbret herbret', [martian, dune])).toBe('title:herbret Herbert');
+        expect(suggestSearchQuery('"herbret" martain', [martian, dune])).toBe('"Herbert" Martian');
+    });
+});
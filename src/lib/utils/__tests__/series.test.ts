@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { findMissingVolumes, findOutOfOrderQueued, formatSeriesPosition, groupBooksBySeries } from '../series';
+import type { Book, BookSeries } from '../../types/book';
+
+const expanse: BookSeries = { id: 'series-1', name: 'The Expanse', totalVolumes: 5 };
+
+function createBook(id: string, overrides: Partial<Book> = {}): Book {
+    return {
+        id,
+        title: `Book ${id}`,
+        author: 'James S. A. Corey',
+        tags: [],
+        dateAdded: new Date('2024-01-01'),
+        status: 'wishlist',
+        ...overrides
+    };
+}
+
+describe('series grouping', () => {
+    it('should group books by series in volume order', () => {
+        const groups = groupBooksBySeries([
+            createBook('b3', { series: expanse, seriesPosition: 3 }),
+            createBook('standalone'),
+            createBook('b1', { series: expanse, seriesPosition: 1 })
+        ]);
+
+        expect(groups).toHaveLength(1);
+        expect(groups[0].books.map(book => book.id)).toEqual(['b1', 'b3']);
+    });
+
+    it('should only report missing volumes once a series is started', () => {
+        const unstarted = groupBooksBySeries([createBook('b1', { series: expanse, seriesPosition: 1 })]);
+        expect(unstarted[0].missingVolumes).toEqual([]);
+
+        const started = groupBooksBySeries([
+            createBook('b1', { series: expanse, seriesPosition: 1, status: 'finished' }),
+            createBook('b3', { series: expanse, seriesPosition: 3 })
+        ]);
+        expect(started[0].missingVolumes).toEqual([2, 4, 5]);
+    });
+
+    it('should fall back to the highest position when the series length is unknown', () => {
+        const open = { id: 'series-2', name: 'Dune' };
+
+        expect(findMissingVolumes(open, [
+            createBook('b1', { series: open, seriesPosition: 1 }),
+            createBook('b4', { series: open, seriesPosition: 4 })
+        ])).toEqual([2, 3]);
+    });
+
+    it('should warn when a later volume is queued before an earlier one', () => {
+        const book2 = createBook('b2', { series: expanse, seriesPosition: 2 });
+        const book3 = createBook('b3', { series: expanse, seriesPosition: 3, status: 'queued', queuePosition: 1 });
+
+        expect(findOutOfOrderQueued([book3, book2])).toEqual([{ book: book3, before: book2 }]);
+    });
+
+    it('should not warn when earlier volumes are read or queued first', () => {
+        expect(findOutOfOrderQueued([
+            createBook('b1', { series: expanse, seriesPosition: 1, status: 'finished' }),
+            createBook('b2', { series: expanse, seriesPosition: 2, status: 'queued', queuePosition: 1 }),
+            createBook('b3', { series: expanse, seriesPosition: 3, status: 'queued', queuePosition: 2 })
+        ])).toEqual([]);
+    });
+
+    it('should format a book position in its series', () => {
+        expect(formatSeriesPosition({ series: expanse, seriesPosition: 3 })).toBe('The Expanse #3');
+        expect(formatSeriesPosition({ series: expanse })).toBe('The Expanse');
+        expect(formatSeriesPosition({})).toBe('');
+    });
+});
@@ -0,0 +1,350 @@
+/**
+ * Parsers that map Audible wishlist exports (CSV pages and the scraped
+ * exportVersion 1.0 JSON) onto CreateBookInput
+ */
+
+import type { BookTag, CreateBookInput } from '../types/book.js';
+import { parseCsv } from './csv.js';
+import { createTagFromName } from './tags.js';
+import { parseNarrators } from './narrators.js';
+import { parseDuration } from './duration.js';
+
+/**
+ * A single row that could not be imported
+ */
+export interface ImportRowError {
+    source?: string;
+    row: number;
+    title?: string;
+    message: string;
+}
+
+/**
+ * Result of parsing an import source
+ */
+export interface ParsedImport {
+    books: CreateBookInput[];
+    errors: ImportRowError[];
+}
+
+/**
+ * Book entry of the scraped Audible JSON export (exportVersion 1.0)
+ */
+export interface AudibleExportBook {
+    id?: string;
+    title: string;
+    author: string;
+    narrator?: string;
+    categories?: string;
+    audibleUrl?: string;
+    coverImageUrl?: string;
+    performanceRating?: number | string;
+    storyRating?: number | string;
+    highlyRatedFor?: string;
+    description?: string;
+    // e.g. "12 hrs and 5 mins"
+    length?: string;
+}
+
+/**
+ * Envelope of the scraped Audible JSON export
+ */
+export interface AudibleExportData {
+    exportVersion: string;
+    exportDate?: string;
+    totalBooks?: number;
+    books: AudibleExportBook[];
+}
+
+/**
+ * Overview of a parsed import, shown to the user before it is applied
+ */
+export interface ImportSummary {
+    bookCount: number;
+    errorCount: number;
+    withRatings: number;
+    withNarrator: number;
+    tagCounts: Array<{ name: string; count: number }>;
+    declaredTotal?: number;
+    exportDate?: string;
+}
+
+/**
+ * Column headers of the Audible wishlist CSV export
+ */
+export const AUDIBLE_CSV_COLUMNS = {
+    title: 'Audiobook Title',
+    audibleUrl: 'Audiobook URL',
+    coverImageUrl: 'Audiobook Image',
+    author: 'Author',
+    narrator: 'Narrated By',
+    categories: 'Categories',
+    performanceRating: 'Performance Rating (Max 5)',
+    storyRating: 'Story Rating (Max 5)',
+    highlyRatedFor: 'Highly rated for'
+} as const;
+
+export type AudibleCsvField = keyof typeof AUDIBLE_CSV_COLUMNS;
+
+/**
+ * Optional length column, written by our own CSV exports
+ */
+export const LENGTH_CSV_COLUMN = 'Length';
+
+const REQUIRED_CSV_FIELDS: AudibleCsvField[] = ['title', 'author'];
+
+/**
+ * Checks whether CSV text looks like an Audible wishlist export
+ */
+export function isAudibleCsv(text: string): boolean {
+    const [header] = parseCsv(text.slice(0, 2048));
+    if (!header) return false;
+
+    const columns = header.map(column => column.trim());
+    return REQUIRED_CSV_FIELDS.every(field => columns.includes(AUDIBLE_CSV_COLUMNS[field]));
+}
+
+/**
+ * Parses an Audible rating string ("4.6"), returning undefined for blanks
+ * @throws Error when the value is not a number between 0 and 5
+ */
+export function parseAudibleRating(value: unknown, label: string): number | undefined {
+    if (value === undefined || value === null || String(value).trim() === '') {
+        return undefined;
+    }
+
+    const rating = typeof value === 'number' ? value : Number(String(value).trim());
+    if (isNaN(rating) || rating < 0 || rating > 5) {
+        throw new Error(`${label} must be a number between 0 and 5 (got "${value}")`);
+    }
+
+    return rating;
+}
+
+/**
+ * Converts a comma-separated Audible category list into unique tags
+ */
+export function categoriesToTags(categories?: string): BookTag[] {
+    if (!categories?.trim()) return [];
+
+    const tags = new Map<string, BookTag>();
+    for (const category of categories.split(',')) {
+        if (!category.trim()) continue;
+        const tag = createTagFromName(category);
+        if (!tags.has(tag.name)) {
+            tags.set(tag.name, tag);
+        }
+    }
+
+    return Array.from(tags.values());
+}
+
+/**
+ * Normalizes "highly rated for" lists to the bullet separator used by BookCard.
+ * Some Audible pages separate entries with commas instead of bullets.
+ */
+export function normalizeHighlyRatedFor(value?: string): string | undefined {
+    const trimmed = value?.trim();
+    if (!trimmed) return undefined;
+    if (trimmed.includes('•')) return trimmed;
+
+    return trimmed
+        .split(',')
+        .map(item => item.trim())
+        .filter(item => item.length > 0)
+        .join(' • ');
+}
+
+/**
+ * Builds a CreateBookInput from raw Audible fields
+ * @throws Error when a rating is invalid
+ */
+function toBookInput(fields: {
+    title: string;
+    author: string;
+    narrator?: string;
+    categories?: string;
+    audibleUrl?: string;
+    coverImageUrl?: string;
+    performanceRating?: unknown;
+    storyRating?: unknown;
+    highlyRatedFor?: string;
+    description?: string;
+    length?: string;
+}): CreateBookInput {
+    const narrators = parseNarrators(fields.narrator);
+
+    return {
+        title: fields.title.trim(),
+        author: fields.author.trim(),
+        narrators: narrators.length > 0 ? narrators : undefined,
+        audibleUrl: fields.audibleUrl?.trim() || undefined,
+        coverImageUrl: fields.coverImageUrl?.trim() || undefined,
+        performanceRating: parseAudibleRating(fields.performanceRating, 'Performance rating'),
+        storyRating: parseAudibleRating(fields.storyRating, 'Story rating'),
+        highlyRatedFor: normalizeHighlyRatedFor(fields.highlyRatedFor),
+        description: fields.description?.trim() || undefined,
+        durationMinutes: parseDuration(fields.length) ?? undefined,
+        tags: categoriesToTags(fields.categories)
+    };
+}
+
+/**
+ * Parses the text of one or more concatenated Audible wishlist CSV pages.
+ * Repeated header rows (from pasting several pages together) are skipped and
+ * invalid rows are reported in `errors` instead of failing the whole file.
+ */
+export function parseAudibleCsv(text: string, source?: string): ParsedImport {
+    const records = parseCsv(text);
+    const result: ParsedImport = { books: [], errors: [] };
+
+    if (records.length === 0) {
+        result.errors.push({ source, row: 0, message: 'File is empty' });
+        return result;
+    }
+
+    const header = records[0].map(column => column.trim());
+    const columnIndex = {} as Record<AudibleCsvField, number>;
+    for (const [field, column] of Object.entries(AUDIBLE_CSV_COLUMNS) as [AudibleCsvField, string][]) {
+        columnIndex[field] = header.indexOf(column);
+    }
+    const lengthIndex = header.indexOf(LENGTH_CSV_COLUMN);
+
+    const missing = REQUIRED_CSV_FIELDS.filter(field => columnIndex[field] === -1);
+    if (missing.length > 0) {
+        result.errors.push({
+            source,
+            row: 1,
+            message: `Missing required column(s): ${missing.map(field => `"${AUDIBLE_CSV_COLUMNS[field]}"`).join(', ')}`
+        });
+        return result;
+    }
+
+    for (let i = 1; i < records.length; i++) {
+        const record = records[i];
+        const row = i + 1;
+        const cell = (field: AudibleCsvField) =>
+            columnIndex[field] === -1 ? '' : (record[columnIndex[field]] ?? '').trim();
+
+        // Skip header rows repeated by multi-page exports
+        if (cell('title') === AUDIBLE_CSV_COLUMNS.title) continue;
+
+        const title = cell('title');
+        const author = cell('author');
+
+        if (record.length !== header.length) {
+            result.errors.push({
+                source,
+                row,
+                title: title || undefined,
+                message: `Expected ${header.length} columns but found ${record.length}`
+            });
+            continue;
+        }
+
+        if (!title || !author) {
+            result.errors.push({
+                source,
+                row,
+                title: title || undefined,
+                message: 'Missing title or author'
+            });
+            continue;
+        }
+
+        try {
+            result.books.push(toBookInput({
+                title,
+                author,
+                narrator: cell('narrator'),
+                categories: cell('categories'),
+                audibleUrl: cell('audibleUrl'),
+                coverImageUrl: cell('coverImageUrl'),
+                performanceRating: cell('performanceRating'),
+                storyRating: cell('storyRating'),
+                highlyRatedFor: cell('highlyRatedFor'),
+                length: lengthIndex === -1 ? undefined : record[lengthIndex]
+            }));
+        } catch (error) {
+            result.errors.push({
+                source,
+                row,
+                title,
+                message: error instanceof Error ? error.message : 'Invalid row'
+            });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Checks whether parsed JSON is the scraped Audible export envelope
+ * (as opposed to our own WishlistData backups)
+ */
+export function isAudibleExportData(data: any): data is AudibleExportData {
+    return (
+        !!data &&
+        typeof data === 'object' &&
+        typeof data.exportVersion === 'string' &&
+        Array.isArray(data.books)
+    );
+}
+
+/**
+ * Parses the scraped Audible JSON export, converting categories into tags.
+ * Invalid books are reported in `errors` by their position in the books array.
+ */
+export function parseAudibleJson(data: AudibleExportData, source?: string): ParsedImport {
+    const result: ParsedImport = { books: [], errors: [] };
+
+    data.books.forEach((book, index) => {
+        const row = index + 1;
+        const title = typeof book?.title === 'string' ? book.title.trim() : '';
+        const author = typeof book?.author === 'string' ? book.author.trim() : '';
+
+        if (!title || !author) {
+            result.errors.push({ source, row, title: title || undefined, message: 'Missing title or author' });
+            return;
+        }
+
+        try {
+            result.books.push(toBookInput({ ...book, title, author }));
+        } catch (error) {
+            result.errors.push({
+                source,
+                row,
+                title,
+                message: error instanceof Error ? error.message : 'Invalid book'
+            });
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Summarizes parsed books so the mapping can be reviewed before importing
+ */
+export function summarizeImport(
+    parsed: ParsedImport,
+    meta: { declaredTotal?: number; exportDate?: string } = {}
+): ImportSummary {
+    const tagCounts = new Map<string, number>();
+    for (const book of parsed.books) {
+        for (const tag of book.tags ?? []) {
+            tagCounts.set(tag.name, (tagCounts.get(tag.name) ?? 0) + 1);
+        }
+    }
+
+    return {
+        bookCount: parsed.books.length,
+        errorCount: parsed.errors.length,
+        withRatings: parsed.books.filter(book => book.performanceRating !== undefined || book.storyRating !== undefined).length,
+        withNarrator: parsed.books.filter(book => (book.narrators?.length ?? 0) > 0).length,
+        tagCounts: Array.from(tagCounts, ([name, count]) => ({ name, count }))
+            .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)),
+        declaredTotal: meta.declaredTotal,
+        exportDate: meta.exportDate
+    };
+}
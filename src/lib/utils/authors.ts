@@ -0,0 +1,96 @@
+/**
+ * Author aggregation
+ * A book's author field can name several people ("Terry Pratchett & Neil
+ * Gaiman", "Douglas Preston and Lincoln Child"); they are split the same way
+ * everywhere so each person gets one page and one set of totals. Commas are
+ * part of names ("Martin Luther King, Jr.", "Tolkien, J.R.R.").
+ */
+
+import type { Book } from '../types/book.js';
+
+export interface AuthorSummary {
+    name: string;
+    bookCount: number;
+    queuedCount: number;
+    // Averages over the books that have the rating
+    averagePerformanceRating?: number;
+    averageStoryRating?: number;
+    averagePersonalRating?: number;
+}
+
+type AuthorBook = Pick<Book, 'author' | 'performanceRating' | 'storyRating' | 'personalRating'> & { queued: boolean };
+
+const AUTHOR_SEPARATOR = /\s*(?:;|&|\band\b)\s*/i;
+
+/**
+ * Key used to match an author regardless of case and spacing
+ */
+export function getAuthorKey(name: string): string {
+    return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Splits an author field into unique, trimmed names
+ */
+export function parseAuthors(author?: string | null): string[] {
+    const seen = new Set<string>();
+    const result: string[] = [];
+
+    for (const part of (author ?? '').split(AUTHOR_SEPARATOR)) {
+        const name = part.trim().replace(/\s+/g, ' ');
+        if (!name || seen.has(getAuthorKey(name))) continue;
+        seen.add(getAuthorKey(name));
+        result.push(name);
+    }
+
+    return result;
+}
+
+/**
+ * Checks whether one of a book's authors is the given person
+ */
+export function hasAuthor(book: Pick<Book, 'author'>, name: string): boolean {
+    const key = getAuthorKey(name);
+    return parseAuthors(book.author).some(author => getAuthorKey(author) === key);
+}
+
+/**
+ * Link to an author's page
+ */
+export function getAuthorPath(name: string): string {
+    return `/authors/${encodeURIComponent(name)}`;
+}
+
+function average(values: Array<number | undefined>): number | undefined {
+    const rated = values.filter((value): value is number => value !== undefined && value !== null && value > 0);
+    if (rated.length === 0) return undefined;
+    return Math.round((rated.reduce((sum, value) => sum + value, 0) / rated.length) * 100) / 100;
+}
+
+/**
+ * Totals per author, sorted by name. A book with several authors counts
+ * towards each of them; the first spelling seen names the author.
+ */
+export function aggregateAuthors(books: AuthorBook[]): AuthorSummary[] {
+    const groups = new Map<string, { name: string; books: AuthorBook[] }>();
+
+    for (const book of books) {
+        for (const name of parseAuthors(book.author)) {
+            const key = getAuthorKey(name);
+            const group = groups.get(key) ?? { name, books: [] };
+            group.books.push(book);
+            groups.set(key, group);
+        }
+    }
+
+    return Array.from(groups.values())
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(({ name, books: authorBooks }) => ({
+            name,
+            bookCount: authorBooks.length,
+            queuedCount: authorBooks.filter(book => book.queued).length,
+            averagePerformanceRating: average(authorBooks.map(book => book.performanceRating)),
+            averageStoryRating: average(authorBooks.map(book => book.storyRating)),
+            averagePersonalRating: average(authorBooks.map(book => book.personalRating))
+        }));
+}
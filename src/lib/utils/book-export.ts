@@ -0,0 +1,135 @@
+/**
+ * Serializers for sharing the wishlist outside the app: Audible-compatible
+ * CSV (readable by the CSV importer) and Markdown grouped by tag
+ */
+
+import type { Book } from '../types/book.js';
+import { toCsv } from './csv.js';
+import { formatNarrators } from './narrators.js';
+import { formatDuration } from './duration.js';
+import { AUDIBLE_CSV_COLUMNS, LENGTH_CSV_COLUMN, type AudibleCsvField } from './audible-import.js';
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+    json: { label: 'JSON backup', extension: 'json', mimeType: 'application/json' },
+    csv: { label: 'CSV (Audible columns)', extension: 'csv', mimeType: 'text/csv' },
+    markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' }
+};
+
+const CSV_FIELDS = Object.keys(AUDIBLE_CSV_COLUMNS) as AudibleCsvField[];
+
+/**
+ * Columns appended after the Audible ones; the importer only reads the length
+ */
+const EXTRA_CSV_COLUMNS = [LENGTH_CSV_COLUMN, 'Queue Position', 'Date Added', 'My Rating', 'My Review', 'Date Finished'];
+
+/**
+ * Header row of CSV exports
+ */
+export const EXPORT_CSV_HEADER = [...CSV_FIELDS.map(field => AUDIBLE_CSV_COLUMNS[field]), ...EXTRA_CSV_COLUMNS];
+
+function formatNumber(value?: number | null): string {
+    return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Converts a book into a CSV record matching EXPORT_CSV_HEADER
+ */
+export function bookToCsvRecord(book: Book): string[] {
+    const values: Record<AudibleCsvField, string> = {
+        title: book.title,
+        audibleUrl: book.audibleUrl ?? '',
+        coverImageUrl: book.coverImageUrl ?? '',
+        author: book.author,
+        narrator: formatNarrators(book.narrators),
+        categories: book.tags.map(tag => tag.name).join(','),
+        performanceRating: formatNumber(book.performanceRating),
+        storyRating: formatNumber(book.storyRating),
+        highlyRatedFor: book.highlyRatedFor ?? ''
+    };
+
+    return [
+        ...CSV_FIELDS.map(field => values[field]),
+        formatDuration(book.durationMinutes),
+        formatNumber(book.queuePosition),
+        new Date(book.dateAdded).toISOString(),
+        formatNumber(book.personalRating),
+        book.review ?? '',
+        book.finishedAt ? new Date(book.finishedAt).toISOString() : ''
+    ];
+}
+
+/**
+ * Serializes books as CSV with the Audible wishlist export columns, so the
+ * file can be opened in a spreadsheet and imported again
+ */
+export function booksToCsv(books: Book[]): string {
+    return toCsv([EXPORT_CSV_HEADER, ...books.map(bookToCsvRecord)]);
+}
+
+/**
+ * Escapes characters that would otherwise be read as Markdown syntax
+ */
+function escapeMarkdown(text: string): string {
+    return text.replace(/([\\`*_[\]#|<>])/g, '\\$1');
+}
+
+function formatMarkdownBook(book: Book): string {
+    const title = book.audibleUrl
+        ? `[${escapeMarkdown(book.title)}](${book.audibleUrl})`
+        : escapeMarkdown(book.title);
+
+    const details: string[] = [];
+    if (book.performanceRating) details.push(`Performance ★ ${book.performanceRating}`);
+    if (book.storyRating) details.push(`Story ★ ${book.storyRating}`);
+    if (book.personalRating) details.push(`Mine ★ ${book.personalRating}`);
+    if (book.durationMinutes !== undefined) details.push(formatDuration(book.durationMinutes));
+    if (book.coverImageUrl) details.push(`[Cover](${book.coverImageUrl})`);
+
+    const narrators = formatNarrators(book.narrators);
+    const line = `- **${title}** by ${escapeMarkdown(book.author)}${narrators ? `, narrated by ${escapeMarkdown(narrators)}` : ''}`;
+    const entry = details.length > 0 ? `${line} — ${details.join(' • ')}` : line;
+    // Reviews are quoted under the book, one quote line per review line
+    return book.review?.trim()
+        ? `${entry}\n${book.review.trim().split('\n').map(reviewLine => `  > ${escapeMarkdown(reviewLine)}`).join('\n')}`
+        : entry;
+}
+
+/**
+ * Renders books as Markdown grouped by tag. Books with several tags appear
+ * under each of them; books without tags are listed last.
+ */
+export function booksToMarkdown(books: Book[], exportedAt: Date = new Date()): string {
+    const groups = new Map<string, Book[]>();
+    const untagged: Book[] = [];
+
+    for (const book of books) {
+        if (book.tags.length === 0) {
+            untagged.push(book);
+            continue;
+        }
+        for (const tag of book.tags) {
+            groups.set(tag.name, [...(groups.get(tag.name) ?? []), book]);
+        }
+    }
+
+    const sections = Array.from(groups.keys())
+        .sort((a, b) => a.localeCompare(b))
+        .map(name => ({ heading: name, books: groups.get(name)! }));
+    if (untagged.length > 0) {
+        sections.push({ heading: 'Untagged', books: untagged });
+    }
+
+    const lines = [
+        '# Audiobook Wishlist',
+        '',
+        `_${books.length} books • exported ${exportedAt.toISOString().split('T')[0]}_`
+    ];
+    for (const section of sections) {
+        lines.push('', `## ${escapeMarkdown(section.heading)} (${section.books.length})`, '');
+        lines.push(...section.books.map(formatMarkdownBook));
+    }
+
+    return lines.join('\n') + '\n';
+}
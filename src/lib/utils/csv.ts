@@ -0,0 +1,74 @@
+/**
+ * Minimal RFC 4180 CSV parsing and serialization utilities
+ */
+
+/**
+ * Parses CSV text into an array of records (arrays of field values).
+ * Supports quoted fields, escaped quotes (""), embedded newlines,
+ * CRLF line endings and a leading byte order mark. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    const endRecord = () => {
+        record.push(field);
+        field = '';
+        // Skip blank lines (a single empty field)
+        if (record.length > 1 || record[0] !== '') {
+            records.push(record);
+        }
+        record = [];
+    };
+
+    for (; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n') {
+            endRecord();
+        } else if (char === '\r') {
+            if (text[i + 1] === '\n') i++;
+            endRecord();
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || record.length > 0) {
+        endRecord();
+    }
+
+    return records;
+}
+
+/**
+ * Serializes records into CSV text. Every field is quoted (like Audible's
+ * own export) so commas, quotes and newlines survive a round trip.
+ */
+export function toCsv(records: string[][]): string {
+    return records
+        .map(record => record.map(field => `"${field.replace(/"/g, '""')}"`).join(','))
+        .join('\n') + '\n';
+}
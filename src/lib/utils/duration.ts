@@ -0,0 +1,79 @@
+/**
+ * Audiobook length
+ * Lengths are stored as whole minutes and parsed from the forms Audible and
+ * people write them in: "12 hrs and 5 mins", "1 hr", "45 min", "12h 5m",
+ * "12:05" or a plain number of minutes
+ */
+
+import type { Book } from '../types/book.js';
+
+const UNIT_PATTERN = /(\d+(?:\.\d+)?)\s*(h|hrs?|hours?|m|mins?|minutes?)(?![a-z])/g;
+const CLOCK_PATTERN = /^(\d+):([0-5]\d)(?::[0-5]\d)?$/;
+
+/**
+ * Parses a length into minutes
+ * @returns the length in minutes, or null when the text is not a length
+ */
+export function parseDuration(text: string | null | undefined): number | null {
+    const value = text?.trim().toLowerCase();
+    if (!value) return null;
+
+    if (/^\d+$/.test(value)) return Number(value);
+
+    const clock = value.match(CLOCK_PATTERN);
+    if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+
+    let minutes = 0;
+    let matched = false;
+    for (const [, amount, unit] of value.matchAll(UNIT_PATTERN)) {
+        minutes += Number(amount) * (unit.startsWith('h') ? 60 : 1);
+        matched = true;
+    }
+
+    // Anything other than the amounts and "and"/"," between them is not a length
+    const rest = value.replace(UNIT_PATTERN, '').replace(/\band\b|,/g, '').trim();
+    if (!matched || rest) return null;
+
+    return Math.round(minutes);
+}
+
+/**
+ * Formats minutes the way Audible does, e.g. "12 hrs and 5 mins"
+ */
+export function formatDuration(minutes: number | null | undefined): string {
+    if (minutes === null || minutes === undefined) return '';
+
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    const parts = [
+        hours > 0 ? `${hours} ${hours === 1 ? 'hr' : 'hrs'}` : '',
+        rest > 0 || hours === 0 ? `${rest} ${rest === 1 ? 'min' : 'mins'}` : ''
+    ].filter(Boolean);
+
+    return parts.join(' and ');
+}
+
+/**
+ * Formats minutes as a compact total, e.g. "37.5 h"
+ */
+export function formatHours(minutes: number): string {
+    return `${Math.round((minutes / 60) * 10) / 10} h`;
+}
+
+/**
+ * Adds up the length of a list of books
+ */
+export function summarizeDuration(books: Book[]): { totalMinutes: number; unknownCount: number } {
+    let totalMinutes = 0;
+    let unknownCount = 0;
+
+    for (const book of books) {
+        if (book.durationMinutes === undefined) {
+            unknownCount++;
+        } else {
+            totalMinutes += book.durationMinutes;
+        }
+    }
+
+    return { totalMinutes, unknownCount };
+}
@@ -0,0 +1,178 @@
+/**
+ * Fuzzy text matching
+ * Search words match regardless of case and accents ("Backman" finds
+ * "Bäckman"), and longer words may have a typo or two ("Tolkein" finds
+ * "Tolkien"). Matches get a closeness score so exact hits can be ranked
+ * first. Used by the wishlist filter, GET /api/books and /api/search alike.
+ */
+
+export interface FuzzyMatch {
+    // 1 for an exact match, lower for each typo
+    score: number;
+    // Where the match is in the original text
+    start: number;
+    end: number;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const COMBINING_MARKS = /\p{M}/gu;
+
+// Shortest word that may be matched against the start of a longer word with a typo
+const MIN_PREFIX_LENGTH = 5;
+
+function foldCharacter(character: string): string {
+    return character.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+}
+
+/**
+ * Lower-cases text and strips accents, so "Bäckman" reads as "backman"
+ */
+export function foldText(text: string): string {
+    return [...text].map(foldCharacter).join('');
+}
+
+/**
+ * Folds text and remembers where each folded character came from
+ */
+function foldWithPositions(text: string): { folded: string; positions: number[] } {
+    let folded = '';
+    const positions: number[] = [];
+    let position = 0;
+
+    for (const character of text) {
+        const piece = foldCharacter(character);
+        folded += piece;
+        for (let i = 0; i < piece.length; i++) positions.push(position);
+        position += character.length;
+    }
+    positions.push(text.length);
+
+    return { folded, positions };
+}
+
+/**
+ * Edits (insert, delete, substitute or swap two neighbours) to turn one word
+ * into another
+ */
+export function editDistance(a: string, b: string): number {
+    const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+            }
+        }
+    }
+
+    return rows[a.length][b.length];
+}
+
+/**
+ * Typos allowed in a folded word; short words must match exactly
+ */
+export function allowedTypos(word: string): number {
+    if (word.length < 4) return 0;
+    return word.length < 8 ? 1 : 2;
+}
+
+/**
+ * Whether search text may match with typos; phrases and short words have to
+ * match exactly
+ */
+export function allowsTypos(search: string): boolean {
+    const needle = foldText(search.trim());
+    return !/[^\p{L}\p{N}]/u.test(needle) && allowedTypos(needle) > 0;
+}
+
+/**
+ * Typos between a folded search word and a folded word of the text, or null
+ * when they are too far apart. Typos are rarely in the first letter, so it
+ * has to match; a long enough search word may also be the start of the word.
+ */
+function countTypos(search: string, word: string): number | null {
+    const allowed = allowedTypos(search);
+    if (allowed === 0 || search[0] !== word[0]) return null;
+
+    let typos = Math.abs(search.length - word.length) <= allowed ? editDistance(search, word) : Infinity;
+    if (search.length >= MIN_PREFIX_LENGTH && word.length > search.length) {
+        typos = Math.min(typos, editDistance(search, word.slice(0, search.length)));
+    }
+
+    return typos <= allowed ? typos : null;
+}
+
+/**
+ * Finds search text in a text: as an exact (accent-insensitive) substring,
+ * or, for a single word, as a word with a few typos
+ */
+export function fuzzyFind(search: string, text: string | undefined | null): FuzzyMatch | null {
+    const needle = foldText(search.trim());
+    if (!needle || !text) return null;
+
+    const { folded, positions } = foldWithPositions(text);
+    const index = folded.indexOf(needle);
+    if (index !== -1) {
+        return { score: 1, start: positions[index], end: positions[index + needle.length] };
+    }
+
+    // Phrases have to match exactly
+    if (/[^\p{L}\p{N}]/u.test(needle)) return null;
+
+    let best: FuzzyMatch | null = null;
+    for (const word of text.matchAll(WORD_PATTERN)) {
+        const typos = countTypos(needle, foldText(word[0]));
+        if (typos === null) continue;
+
+        const score = 1 - typos / (needle.length + 1);
+        if (!best || score > best.score) {
+            best = { score, start: word.index!, end: word.index! + word[0].length };
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Closeness of search text to the closest of several texts, 0 when none match
+ */
+export function fuzzyScore(search: string, texts: Array<string | undefined | null>): number {
+    return Math.max(0, ...texts.map(text => fuzzyFind(search, text)?.score ?? 0));
+}
+
+/**
+ * Suggests a correction for words that match none of the texts exactly, using
+ * the closest word from the texts; null when there is nothing to suggest
+ */
+export function suggestCorrection(words: string[], texts: Array<string | undefined | null>): Map<string, string> | null {
+    const vocabulary = new Map<string, { word: string; uses: number }>();
+    for (const text of texts) {
+        for (const [word] of (text ?? '').matchAll(WORD_PATTERN)) {
+            const key = foldText(word);
+            const entry = vocabulary.get(key) ?? { word, uses: 0 };
+            entry.uses++;
+            vocabulary.set(key, entry);
+        }
+    }
+
+    const corrections = new Map<string, string>();
+    for (const word of words) {
+        const folded = foldText(word);
+        if (texts.some(text => text && foldText(text).includes(folded))) continue;
+
+        let best: { word: string; typos: number; uses: number } | null = null;
+        for (const [key, entry] of vocabulary) {
+            const typos = countTypos(folded, key);
+            if (typos === null) continue;
+            if (!best || typos < best.typos || (typos === best.typos && entry.uses > best.uses)) {
+                best = { word: entry.word, typos, uses: entry.uses };
+            }
+        }
+        if (best) corrections.set(word, best.word);
+    }
+
+    return corrections.size > 0 ? corrections : null;
+}
@@ -0,0 +1,139 @@
+/**
+ * Listening status lifecycle
+ * A book moves between wishlist, queued, listening, finished and abandoned;
+ * each status except wishlist records when the book last entered it
+ */
+
+import type { Book, ListeningStatus } from '../types/book.js';
+
+export const LISTENING_STATUSES: ListeningStatus[] = ['wishlist', 'queued', 'listening', 'finished', 'abandoned'];
+
+export const STATUS_LABELS: Record<ListeningStatus, string> = {
+    wishlist: 'Wishlist',
+    queued: 'Queued',
+    listening: 'Listening',
+    finished: 'Finished',
+    abandoned: 'Abandoned'
+};
+
+export type StatusTimestampField = 'queuedAt' | 'startedAt' | 'finishedAt' | 'abandonedAt';
+
+/**
+ * Book field that records when a book entered each status
+ */
+export const STATUS_TIMESTAMP_FIELDS: Record<ListeningStatus, StatusTimestampField | null> = {
+    wishlist: null,
+    queued: 'queuedAt',
+    listening: 'startedAt',
+    finished: 'finishedAt',
+    abandoned: 'abandonedAt'
+};
+
+/**
+ * Quick actions offered for a book in each status
+ */
+export const STATUS_ACTIONS: Record<ListeningStatus, Array<{ status: ListeningStatus; label: string }>> = {
+    wishlist: [
+        { status: 'queued', label: 'Queue' },
+        { status: 'listening', label: 'Start listening' }
+    ],
+    queued: [
+        { status: 'listening', label: 'Start listening' },
+        { status: 'wishlist', label: 'Back to wishlist' }
+    ],
+    listening: [
+        { status: 'finished', label: 'Mark finished' },
+        { status: 'abandoned', label: 'Abandon' }
+    ],
+    finished: [
+        { status: 'listening', label: 'Listen again' }
+    ],
+    abandoned: [
+        { status: 'listening', label: 'Resume' },
+        { status: 'wishlist', label: 'Back to wishlist' }
+    ]
+};
+
+/**
+ * Checks whether a value is a known listening status
+ */
+export function isListeningStatus(value: unknown): value is ListeningStatus {
+    return typeof value === 'string' && (LISTENING_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Columns to write when a book moves into a status
+ * @param at - ISO timestamp of the transition
+ */
+export function getStatusTransition(
+    status: ListeningStatus,
+    at: string
+): { status: ListeningStatus } & Partial<Record<StatusTimestampField, string>> {
+    const field = STATUS_TIMESTAMP_FIELDS[status];
+    return field ? { status, [field]: at } : { status };
+}
+
+export interface QueueState {
+    status: ListeningStatus;
+    hasNextTag: boolean;
+}
+
+/**
+ * The queue shows as both the 'queued' status and the 'next' tag, so a change
+ * to either one decides the other. Queuing adds the tag and leaving the queue
+ * drops it; adding the tag queues the book, and removing it sends a queued
+ * book back to the wishlist. A changed status wins over a changed tag.
+ */
+export function reconcileQueue(current: QueueState, change: Partial<QueueState>): QueueState {
+    if (change.status !== undefined && change.status !== current.status) {
+        return { status: change.status, hasNextTag: change.status === 'queued' };
+    }
+
+    if (change.hasNextTag !== undefined && change.hasNextTag !== current.hasNextTag) {
+        if (change.hasNextTag) return { status: 'queued', hasNextTag: true };
+        return { status: current.status === 'queued' ? 'wishlist' : current.status, hasNextTag: false };
+    }
+
+    return current;
+}
+
+/**
+ * Converts stored status columns into Book fields
+ */
+export function toStatusFields(row: {
+    status: string | null;
+    queuedAt: string | null;
+    startedAt: string | null;
+    finishedAt: string | null;
+    abandonedAt: string | null;
+}): Pick<Book, 'status' | StatusTimestampField> {
+    const toDate = (value: string | null) => (value ? new Date(value) : undefined);
+
+    return {
+        status: isListeningStatus(row.status) ? row.status : 'wishlist',
+        queuedAt: toDate(row.queuedAt),
+        startedAt: toDate(row.startedAt),
+        finishedAt: toDate(row.finishedAt),
+        abandonedAt: toDate(row.abandonedAt)
+    };
+}
+
+/**
+ * When a book was added and when it last entered each status, oldest first.
+ * Dates may arrive as ISO strings when the book came straight from JSON.
+ */
+export function getStatusHistory(
+    book: Pick<Book, 'dateAdded' | StatusTimestampField>
+): Array<{ label: string; at: Date }> {
+    const events = [{ label: 'Added', at: book.dateAdded }];
+
+    for (const status of LISTENING_STATUSES) {
+        const field = STATUS_TIMESTAMP_FIELDS[status];
+        const at = field ? book[field] : undefined;
+        if (at) events.push({ label: STATUS_LABELS[status], at });
+    }
+
+    return events
+        .map(event => ({ label: event.label, at: new Date(event.at) }))
+        .sort((a, b) => a.at.getTime() - b.at.getTime());
+}
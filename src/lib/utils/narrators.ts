@@ -0,0 +1,44 @@
+/**
+ * Narrator list utilities
+ * Narrators are stored as a list of names; forms and Audible exports use a
+ * comma-separated string
+ */
+
+/**
+ * Splits a comma-separated narrator string into unique, trimmed names
+ */
+export function parseNarrators(value?: string | null): string[] {
+    if (!value?.trim()) return [];
+    return normalizeNarrators(value.split(','));
+}
+
+/**
+ * Trims narrator names and drops blanks and case-insensitive duplicates
+ */
+export function normalizeNarrators(narrators?: string[] | null): string[] {
+    const seen = new Set<string>();
+    const result: string[] = [];
+
+    for (const narrator of narrators ?? []) {
+        const name = narrator.trim();
+        if (!name || seen.has(name.toLowerCase())) continue;
+        seen.add(name.toLowerCase());
+        result.push(name);
+    }
+
+    return result;
+}
+
+/**
+ * Joins narrator names for display or CSV output
+ */
+export function formatNarrators(narrators?: string[] | null): string {
+    return (narrators ?? []).join(', ');
+}
+
+/**
+ * Checks whether a value is a list of narrator names
+ */
+export function isValidNarratorList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(name => typeof name === 'string');
+}
@@ -0,0 +1,365 @@
+/**
+ * Search query language
+ * The search box accepts plain words plus filters such as
+ * `author:weir tag:funny -tag:series story>=4.5 added:2024`. Queries are
+ * parsed into a list of terms that must all match; the wishlist evaluates
+ * them in the browser and GET /api/books turns them into SQL, so both give
+ * the same books. Plain words match exactly, ignoring case and accents; only
+ * when no book matches them all are books with typos found (see fuzzy.ts).
+ */
+
+import type { Book, ListeningStatus } from '../types/book.js';
+import { parseDuration } from './duration.js';
+import { fuzzyScore, suggestCorrection } from './fuzzy.js';
+import { LISTENING_STATUSES, isListeningStatus } from './listening-status.js';
+
+export type TextField = 'title' | 'author' | 'narrator' | 'series';
+export type NumberField = 'performanceRating' | 'storyRating' | 'personalRating' | 'durationMinutes';
+export type CompareOperator = '=' | '>' | '>=' | '<' | '<=';
+
+export type SearchTerm =
+    // Plain words match the title, author or a narrator
+    | { type: 'text'; value: string; negated: boolean }
+    | { type: 'field'; field: TextField; value: string; negated: boolean }
+    | { type: 'tag'; name: string; negated: boolean }
+    | { type: 'status'; status: ListeningStatus; negated: boolean }
+    | { type: 'number'; field: NumberField; operator: CompareOperator; value: number; negated: boolean }
+    // Dates are ranges so `added:2024` covers the whole year; `to` is exclusive
+    | { type: 'added'; operator: CompareOperator; from: string; to: string; negated: boolean };
+
+export interface SearchQuery {
+    terms: SearchTerm[];
+}
+
+export interface SearchQueryError {
+    message: string;
+    // Where in the query the problem starts
+    position: number;
+}
+
+export type SearchQueryResult =
+    | { success: true; query: SearchQuery }
+    | { success: false; error: SearchQueryError };
+
+const TEXT_FIELDS: Record<string, TextField> = {
+    title: 'title',
+    author: 'author',
+    narrator: 'narrator',
+    series: 'series'
+};
+
+const NUMBER_FIELDS: Record<string, NumberField> = {
+    performance: 'performanceRating',
+    perf: 'performanceRating',
+    story: 'storyRating',
+    mine: 'personalRating',
+    length: 'durationMinutes'
+};
+
+// Most books a search with typos finds, on the wishlist and in GET /api/books alike
+export const CLOSE_MATCH_LIMIT = 50;
+
+const OTHER_KEYS = ['tag', 'status', 'added'];
+
+const OPERATOR_PATTERN = /^(>=|<=|:|=|>|<)/;
+const DATE_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+
+/**
+ * Reads a value at the start of the text, quoted or up to the next space
+ * @returns the value and how many characters it took, or an error message
+ */
+function readValue(text: string): { value: string; length: number } | { error: string } {
+    if (text.startsWith('"')) {
+        const end = text.indexOf('"', 1);
+        if (end === -1) return { error: 'Missing closing quote' };
+        return { value: text.slice(1, end), length: end + 1 };
+    }
+
+    const match = text.match(/^\S*/)!;
+    return { value: match[0], length: match[0].length };
+}
+
+/**
+ * Turns `added` values (2024, 2024-05 or 2024-05-03) into a date range
+ */
+function parseDateRange(value: string): { from: string; to: string } | null {
+    const match = value.match(DATE_PATTERN);
+    if (!match) return null;
+
+    const [, year, month, day] = match.map(part => (part === undefined ? undefined : Number(part)));
+    const from = new Date(Date.UTC(year!, (month ?? 1) - 1, day ?? 1));
+    if (Number.isNaN(from.getTime()) || from.getUTCMonth() !== (month ?? 1) - 1) return null;
+
+    const to = new Date(from);
+    if (day !== undefined) to.setUTCDate(to.getUTCDate() + 1);
+    else if (month !== undefined) to.setUTCMonth(to.getUTCMonth() + 1);
+    else to.setUTCFullYear(to.getUTCFullYear() + 1);
+
+    return { from: from.toISOString(), to: to.toISOString() };
+}
+
+/**
+ * Parses a number for a field; lengths are in hours unless a unit is given
+ */
+function parseNumber(field: NumberField, value: string): number | null {
+    if (field === 'durationMinutes') {
+        return /^\d+(\.\d+)?$/.test(value) ? Math.round(Number(value) * 60) : parseDuration(value);
+    }
+
+    const number = Number(value);
+    return value !== '' && Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Builds the term for `key<operator>value` of a known key
+ */
+function toFieldTerm(key: string, operator: string, value: string, negated: boolean): SearchTerm | string {
+    const compare = (operator === ':' ? '=' : operator) as CompareOperator;
+
+    if (key === 'tag') {
+        return operator === ':' || operator === '=' ? { type: 'tag', name: value, negated } : 'Use tag:name';
+    }
+
+    if (key === 'status') {
+        if (operator !== ':' && operator !== '=') return 'Use status:name';
+        const status = value.toLowerCase();
+        return isListeningStatus(status)
+            ? { type: 'status', status, negated }
+            : `Status must be one of: ${LISTENING_STATUSES.join(', ')}`;
+    }
+
+    if (key in TEXT_FIELDS) {
+        return operator === ':' || operator === '='
+            ? { type: 'field', field: TEXT_FIELDS[key], value, negated }
+            : `Use ${key}:text`;
+    }
+
+    if (key in NUMBER_FIELDS) {
+        const field = NUMBER_FIELDS[key];
+        const number = parseNumber(field, value);
+        return number === null
+            ? `"${value}" is not a ${field === 'durationMinutes' ? 'length' : 'number'}`
+            : { type: 'number', field, operator: compare, value: number, negated };
+    }
+
+    const range = parseDateRange(value);
+    return range
+        ? { type: 'added', operator: compare, ...range, negated }
+        : `"${value}" is not a date; use 2024, 2024-05 or 2024-05-03`;
+}
+
+/**
+ * Filters are known keys with the value right after the operator, so
+ * `Dune: Messiah` and `note:` are searched for as they are
+ */
+function isFilter(key: string | undefined, rest: string): key is string {
+    return key !== undefined
+        && (Object.hasOwn(TEXT_FIELDS, key) || Object.hasOwn(NUMBER_FIELDS, key) || OTHER_KEYS.includes(key))
+        && !/^\s/.test(rest);
+}
+
+// A parsed term and where it was in the query
+interface ParsedTerm {
+    term: SearchTerm;
+    start: number;
+    end: number;
+}
+
+/**
+ * Parses a search box query, keeping where each term came from
+ */
+function parseTerms(input: string): { success: true; terms: ParsedTerm[] } | { success: false; error: SearchQueryError } {
+    const terms: ParsedTerm[] = [];
+    let position = 0;
+
+    const fail = (message: string, at: number) => ({
+        success: false as const,
+        error: { message, position: at }
+    });
+
+    while (position < input.length) {
+        if (/\s/.test(input[position])) {
+            position++;
+            continue;
+        }
+
+        const start = position;
+        const negated = input[position] === '-' && position + 1 < input.length && !/\s/.test(input[position + 1]);
+        if (negated) position++;
+
+        const key = input.slice(position).match(/^[a-z]+/i)?.[0].toLowerCase();
+        const operator = key ? input.slice(position + key.length).match(OPERATOR_PATTERN)?.[0] : undefined;
+        const valueStart = position + (key?.length ?? 0) + (operator?.length ?? 0);
+
+        if (operator && isFilter(key, input.slice(valueStart))) {
+            const read = readValue(input.slice(valueStart));
+            if ('error' in read) return fail(read.error, valueStart);
+            if (!read.value.trim()) return fail(`Missing value after ${key}${operator}`, start);
+
+            const term = toFieldTerm(key, operator, read.value.trim(), negated);
+            if (typeof term === 'string') return fail(term, start);
+
+            position = valueStart + read.length;
+            terms.push({ term, start, end: position });
+            continue;
+        }
+
+        const read = readValue(input.slice(position));
+        if ('error' in read) return fail(read.error, position);
+        position += read.length;
+        if (read.value.trim()) {
+            terms.push({ term: { type: 'text', value: read.value.trim(), negated }, start, end: position });
+        }
+    }
+
+    return { success: true, terms };
+}
+
+/**
+ * Parses a search box query
+ */
+export function parseSearchQuery(input: string): SearchQueryResult {
+    const parsed = parseTerms(input);
+    return parsed.success
+        ? { success: true, query: { terms: parsed.terms.map(({ term }) => term) } }
+        : parsed;
+}
+
+type SearchText = Pick<Book, 'title' | 'author' | 'narrators'>;
+
+/**
+ * Closeness of plain search text to a book's title, author or narrators;
+ * 1 for an exact match, lower with typos, 0 for none
+ */
+export function scoreText(book: SearchText, text: string): number {
+    return fuzzyScore(text, [book.title, book.author, ...(book.narrators ?? [])]);
+}
+
+function includesText(value: string | undefined, text: string): boolean {
+    return (value ?? '').toLowerCase().includes(text.toLowerCase());
+}
+
+function compare(value: number | string, operator: CompareOperator, target: number | string): boolean {
+    switch (operator) {
+        case '=': return value === target;
+        case '>': return value > target;
+        case '>=': return value >= target;
+        case '<': return value < target;
+        case '<=': return value <= target;
+    }
+}
+
+/**
+ * Checks a book against one term, ignoring negation
+ */
+function matchesTerm(book: Book, term: SearchTerm): boolean {
+    switch (term.type) {
+        case 'text':
+            // Typos are only allowed by filterBySearchQuery when nothing matches
+            return scoreText(book, term.value) === 1;
+        case 'field':
+            if (term.field === 'narrator') {
+                return (book.narrators ?? []).some(narrator => includesText(narrator, term.value));
+            }
+            if (term.field === 'series') return includesText(book.series?.name, term.value);
+            return includesText(book[term.field], term.value);
+        case 'tag':
+            return book.tags.some(tag => tag.name.toLowerCase() === term.name.toLowerCase());
+        case 'status':
+            return (book.status ?? 'wishlist') === term.status;
+        case 'number': {
+            const value = book[term.field];
+            return value !== undefined && value !== null && compare(value, term.operator, term.value);
+        }
+        case 'added': {
+            const added = new Date(book.dateAdded).toISOString();
+            switch (term.operator) {
+                case '=': return added >= term.from && added < term.to;
+                case '>': return added >= term.to;
+                case '>=': return added >= term.from;
+                case '<': return added < term.from;
+                case '<=': return added < term.to;
+            }
+        }
+    }
+}
+
+/**
+ * Checks whether a book matches every term of a query, plain words exactly
+ */
+export function matchesSearchQuery(book: Book, query: SearchQuery): boolean {
+    return query.terms.every(term => matchesTerm(book, term) !== term.negated);
+}
+
+/**
+ * How closely a matching book fits the query's plain words, for ranking
+ * exact hits above ones with typos; 1 when there are no plain words
+ */
+export function scoreSearchQuery(book: SearchText, query: SearchQuery): number {
+    return Math.min(
+        1,
+        ...query.terms.flatMap(term =>
+            term.type === 'text' && !term.negated ? [scoreText(book, term.value)] : []
+        )
+    );
+}
+
+/**
+ * The books closest to a query's plain words, closest first with ties in id
+ * order, up to CLOSE_MATCH_LIMIT of them; books that do not match at all are
+ * left out
+ */
+export function findCloseMatches<T extends SearchText & Pick<Book, 'id'>>(
+    books: T[],
+    query: SearchQuery
+): Array<{ book: T; score: number }> {
+    return books
+        .map(book => ({ book, score: scoreSearchQuery(book, query) }))
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score || (a.book.id < b.book.id ? -1 : a.book.id > b.book.id ? 1 : 0))
+        .slice(0, CLOSE_MATCH_LIMIT);
+}
+
+/**
+ * Books matching a query. When no book matches the plain words exactly,
+ * the closest books despite typos are kept instead (see findCloseMatches);
+ * GET /api/books applies the same rule in SQL.
+ */
+export function filterBySearchQuery<T extends Book>(books: T[], query: SearchQuery): T[] {
+    const matching = books.filter(book => matchesSearchQuery(book, query));
+    const isWord = (term: SearchTerm) => term.type === 'text' && !term.negated;
+    if (matching.length > 0 || !query.terms.some(isWord)) return matching;
+
+    const others = { terms: query.terms.filter(term => !isWord(term)) };
+    return findCloseMatches(books.filter(book => matchesSearchQuery(book, others)), query).map(match => match.book);
+}
+
+/**
+ * A corrected query to offer as "did you mean", when no book matches the
+ * query's plain words exactly; null otherwise
+ */
+export function suggestSearchQuery(input: string, books: SearchText[]): string | null {
+    const parsed = parseTerms(input);
+    if (!parsed.success) return null;
+
+    const query = { terms: parsed.terms.map(({ term }) => term) };
+    const words = parsed.terms.flatMap(({ term, start, end }) =>
+        term.type === 'text' && !term.negated && !/\s/.test(term.value) ? [{ word: term.value, start, end }] : []
+    );
+    if (words.length === 0 || books.some(book => scoreSearchQuery(book, query) === 1)) return null;
+
+    const corrections = suggestCorrection(
+        words.map(({ word }) => word),
+        books.flatMap(book => [book.title, book.author, ...(book.narrators ?? [])])
+    );
+    if (!corrections) return null;
+
+    // Replace each word where it was typed, so filters and other words keep their text
+    let suggestion = input;
+    for (const { word, start, end } of [...words].reverse()) {
+        const correction = corrections.get(word);
+        if (!correction) continue;
+        suggestion = suggestion.slice(0, start) + input.slice(start, end).replace(word, correction) + suggestion.slice(end);
+    }
+    return suggestion;
+}
@@ -0,0 +1,104 @@
+/**
+ * Series grouping
+ * Groups books by series in volume order and works out which volumes are
+ * missing and which queued books jump ahead of an earlier volume
+ */
+
+import type { Book, BookSeries } from '../types/book.js';
+
+export interface SeriesGroup {
+    series: BookSeries;
+    // Books in volume order; books without a position come last
+    books: Book[];
+    // Volume numbers with no book on the wishlist, once the series is started
+    missingVolumes: number[];
+    // Queued books that come after an earlier volume that is not read or queued ahead of them
+    outOfOrder: Array<{ book: Book; before: Book }>;
+    started: boolean;
+}
+
+/**
+ * Checks whether a book is in the listening queue, by status or 'next' tag
+ */
+export function isQueued(book: Pick<Book, 'status' | 'tags'>): boolean {
+    return book.status === 'queued' || book.tags.some(tag => tag.name === 'next');
+}
+
+function isStarted(book: Book): boolean {
+    return book.status === 'listening' || book.status === 'finished';
+}
+
+function compareByPosition(a: Book, b: Book): number {
+    return (a.seriesPosition ?? Infinity) - (b.seriesPosition ?? Infinity) || a.title.localeCompare(b.title);
+}
+
+/**
+ * Whole volume numbers up to the series length (or the highest position
+ * held) that no book covers
+ */
+export function findMissingVolumes(series: BookSeries, books: Book[]): number[] {
+    const positions = books.flatMap(book => book.seriesPosition !== undefined ? [book.seriesPosition] : []);
+    const last = series.totalVolumes ?? Math.floor(Math.max(0, ...positions));
+    const held = new Set(positions);
+
+    return Array.from({ length: last }, (_, i) => i + 1).filter(volume => !held.has(volume));
+}
+
+/**
+ * Queued books that would be listened to before an earlier volume of the
+ * same series. An earlier volume is fine once it is being listened to or
+ * finished, or when it is queued ahead of the later one.
+ */
+export function findOutOfOrderQueued(books: Book[]): Array<{ book: Book; before: Book }> {
+    const ordered = books.filter(book => book.seriesPosition !== undefined).sort(compareByPosition);
+    const warnings: Array<{ book: Book; before: Book }> = [];
+
+    for (const [index, book] of ordered.entries()) {
+        if (!isQueued(book)) continue;
+
+        const before = ordered.slice(0, index).find(earlier =>
+            earlier.seriesPosition! < book.seriesPosition! &&
+            !isStarted(earlier) &&
+            earlier.status !== 'abandoned' &&
+            !(isQueued(earlier) && (earlier.queuePosition ?? Infinity) <= (book.queuePosition ?? Infinity))
+        );
+        if (before) warnings.push({ book, before });
+    }
+
+    return warnings;
+}
+
+/**
+ * Groups books that belong to a series, sorted by series name
+ */
+export function groupBooksBySeries(books: Book[]): SeriesGroup[] {
+    const groups = new Map<string, { series: BookSeries; books: Book[] }>();
+
+    for (const book of books) {
+        if (!book.series) continue;
+        const group = groups.get(book.series.id) ?? { series: book.series, books: [] };
+        group.books.push(book);
+        groups.set(book.series.id, group);
+    }
+
+    return Array.from(groups.values())
+        .sort((a, b) => a.series.name.localeCompare(b.series.name))
+        .map(({ series, books: seriesBooks }) => {
+            const started = seriesBooks.some(isStarted);
+            return {
+                series,
+                books: [...seriesBooks].sort(compareByPosition),
+                missingVolumes: started ? findMissingVolumes(series, seriesBooks) : [],
+                outOfOrder: findOutOfOrderQueued(seriesBooks),
+                started
+            };
+        });
+}
+
+/**
+ * Formats a book's place in its series, e.g. "The Expanse #3"
+ */
+export function formatSeriesPosition(book: Pick<Book, 'series' | 'seriesPosition'>): string {
+    if (!book.series) return '';
+    return book.seriesPosition !== undefined ? `${book.series.name} #${book.seriesPosition}` : book.series.name;
+}
@@ -50,6 +50,43 @@ export function createPredefinedTag(tagName: keyof typeof PREDEFINED_TAGS): Book
     };
 }
 
+/**
+ * Color used for tags that are not predefined (e.g. imported Audible categories)
+ */
+export const DEFAULT_TAG_COLOR = '#6b7280'; // gray-500
+
+/**
+ * Creates a BookTag from an arbitrary name, normalizing it to lowercase and
+ * reusing the predefined color when the name matches a predefined tag
+ */
+export function createTagFromName(tagName: string): BookTag {
+    const name = tagName.trim().toLowerCase();
+    if (isPredefinedTag(name)) {
+        return createPredefinedTag(name);
+    }
+
+    return {
+        id: generateTagId(),
+        name,
+        color: DEFAULT_TAG_COLOR
+    };
+}
+
+/**
+ * Checks whether tags include the "next" tag that marks the listening queue
+ */
+export function hasNextTag(tags: Array<Pick<BookTag, 'name'>>): boolean {
+    return tags.some(tag => tag.name === 'next');
+}
+
+/**
+ * Adds or removes the "next" tag, leaving the other tags as they are
+ */
+export function setNextTag(tags: BookTag[], next: boolean): BookTag[] {
+    if (hasNextTag(tags) === next) return tags;
+    return next ? [...tags, createPredefinedTag('next')] : tags.filter(tag => tag.name !== 'next');
+}
+
 /**
  * Gets all available predefined tag names
  */
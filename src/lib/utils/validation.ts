@@ -2,7 +2,21 @@
  * JSON data validation functions for the Audiobook Wishlist Manager
  */
 
-import type { Book, BookTag, WishlistData, CreateBookInput } from '../types/book.js';
+import type { Book, BookTag, WishlistData, CreateBookInput, FilterState } from '../types/book.js';
+import type { CreateSmartListInput } from '../types/smart-list.js';
+import { isValidNarratorList } from './narrators.js';
+import { isListeningStatus } from './listening-status.js';
+
+export const BOOK_SORT_FIELDS: FilterState['sortBy'][] = [
+    'dateAdded', 'title', 'author', 'narrator', 'performanceRating', 'storyRating', 'personalRating', 'duration'
+];
+
+/**
+ * Checks whether a value names a field books can be sorted by
+ */
+export function isBookSortField(value: unknown): value is FilterState['sortBy'] {
+    return typeof value === 'string' && (BOOK_SORT_FIELDS as string[]).includes(value);
+}
 
 /**
  * Validates if a value is a valid BookTag
@@ -20,6 +34,55 @@ export function isValidBookTag(tag: any): tag is BookTag {
     );
 }
 
+/**
+ * Validates a series' number of volumes
+ */
+function isValidTotalVolumes(totalVolumes: any): boolean {
+    return Number.isInteger(totalVolumes) && totalVolumes > 0;
+}
+
+/**
+ * Validates the series a book belongs to
+ */
+function isValidSeries(series: any): boolean {
+    return (
+        !!series &&
+        typeof series === 'object' &&
+        typeof series.id === 'string' &&
+        typeof series.name === 'string' &&
+        series.name.trim().length > 0 &&
+        (series.totalVolumes === undefined || isValidTotalVolumes(series.totalVolumes))
+    );
+}
+
+/**
+ * Validates a position within a series (e.g. 2, or 1.5 for a novella)
+ */
+function isValidSeriesPosition(position: any): boolean {
+    return typeof position === 'number' && !isNaN(position) && position >= 0;
+}
+
+/**
+ * Validates a length in whole minutes
+ */
+function isValidDuration(minutes: any): boolean {
+    return Number.isInteger(minutes) && minutes >= 0;
+}
+
+/**
+ * Validates a personal rating: half stars from 0 to 5, where 0 means unrated
+ */
+function isValidPersonalRating(rating: any): boolean {
+    return typeof rating === 'number' && rating >= 0 && rating <= 5 && Number.isInteger(rating * 2);
+}
+
+/**
+ * Validates a date given as a Date or a date string
+ */
+function isValidDateInput(value: any): boolean {
+    return (value instanceof Date || typeof value === 'string') && !isNaN(new Date(value).getTime());
+}
+
 /**
  * Validates if a value is a valid Book object
  */
@@ -73,6 +136,34 @@ export function isValidBook(book: any): book is Book {
         return false;
     }
 
+    if (book.narrators !== undefined && !isValidNarratorList(book.narrators)) {
+        return false;
+    }
+
+    if (book.status !== undefined && !isListeningStatus(book.status)) {
+        return false;
+    }
+
+    if (book.series !== undefined && !isValidSeries(book.series)) {
+        return false;
+    }
+
+    if (book.seriesPosition !== undefined && !isValidSeriesPosition(book.seriesPosition)) {
+        return false;
+    }
+
+    if (book.durationMinutes !== undefined && !isValidDuration(book.durationMinutes)) {
+        return false;
+    }
+
+    if (book.personalRating !== undefined && !isValidPersonalRating(book.personalRating)) {
+        return false;
+    }
+
+    if (book.review !== undefined && typeof book.review !== 'string') {
+        return false;
+    }
+
     return true;
 }
 
@@ -120,6 +211,75 @@ export function isValidCreateTagInput(input: any): boolean {
     return true;
 }
 
+/**
+ * Validates the body of a new or edited book note
+ */
+export function isValidNoteBody(input: any): input is { body: string } {
+    return (
+        !!input &&
+        typeof input === 'object' &&
+        typeof input.body === 'string' &&
+        input.body.trim().length > 0
+    );
+}
+
+/**
+ * Checks a rating filter bound, given as a number or query param text
+ */
+export function isValidRatingBound(value: unknown): boolean {
+    if (typeof value === 'string') {
+        return /^\d+(\.\d+)?$/.test(value) && isValidRatingBound(Number(value));
+    }
+    return typeof value === 'number' && value >= 0 && value <= 5;
+}
+
+/**
+ * Validates a saved set of wishlist filters
+ */
+export function isValidFilterState(value: any): value is FilterState {
+    const isOptionalMinutes = (minutes: unknown) =>
+        minutes === undefined || (Number.isInteger(minutes) && (minutes as number) >= 0);
+    const isOptionalRating = (rating: unknown) => rating === undefined || isValidRatingBound(rating);
+    const isOptionalFlag = (flag: unknown) => flag === undefined || typeof flag === 'boolean';
+
+    return (
+        !!value &&
+        typeof value === 'object' &&
+        typeof value.searchQuery === 'string' &&
+        Array.isArray(value.selectedTags) &&
+        value.selectedTags.every((tag: unknown) => typeof tag === 'string') &&
+        (value.tagMatch === undefined || value.tagMatch === 'all' || value.tagMatch === 'any') &&
+        (value.excludedTags === undefined ||
+            (Array.isArray(value.excludedTags) && value.excludedTags.every((tag: unknown) => typeof tag === 'string'))) &&
+        isBookSortField(value.sortBy) &&
+        (value.sortOrder === 'asc' || value.sortOrder === 'desc') &&
+        isOptionalMinutes(value.minDuration) &&
+        isOptionalMinutes(value.maxDuration) &&
+        isOptionalRating(value.minPerformanceRating) &&
+        isOptionalRating(value.maxPerformanceRating) &&
+        isOptionalRating(value.minStoryRating) &&
+        isOptionalRating(value.maxStoryRating) &&
+        isOptionalFlag(value.unratedPerformance) &&
+        isOptionalFlag(value.unratedStory)
+    );
+}
+
+/**
+ * Validates a new smart list, or an edit when `partial` is set
+ */
+export function isValidSmartListInput(input: any, partial = false): input is CreateSmartListInput {
+    if (!input || typeof input !== 'object') return false;
+
+    const hasName = typeof input.name === 'string' && input.name.trim().length > 0;
+    const hasFilters = isValidFilterState(input.filters);
+
+    return partial
+        ? (input.name === undefined || hasName) &&
+            (input.filters === undefined || hasFilters) &&
+            (input.name !== undefined || input.filters !== undefined)
+        : hasName && hasFilters;
+}
+
 /**
  * Validates CreateBookInput for adding new books
  */
@@ -192,6 +352,51 @@ export function isValidCreateBookInput(input: any): input is CreateBookInput {
         return false;
     }
 
+    if (input.narrators !== undefined && input.narrators !== null && !isValidNarratorList(input.narrators)) {
+        console.error('Validation failed: narrators invalid', input.narrators);
+        return false;
+    }
+
+    if (input.status !== undefined && input.status !== null && !isListeningStatus(input.status)) {
+        console.error('Validation failed: status invalid', input.status);
+        return false;
+    }
+
+    if (input.seriesName !== undefined && typeof input.seriesName !== 'string') {
+        console.error('Validation failed: seriesName invalid', input.seriesName);
+        return false;
+    }
+
+    if (input.seriesTotalVolumes !== undefined && !isValidTotalVolumes(input.seriesTotalVolumes)) {
+        console.error('Validation failed: seriesTotalVolumes invalid', input.seriesTotalVolumes);
+        return false;
+    }
+
+    if (input.seriesPosition !== undefined && input.seriesPosition !== null && !isValidSeriesPosition(input.seriesPosition)) {
+        console.error('Validation failed: seriesPosition invalid', input.seriesPosition);
+        return false;
+    }
+
+    if (input.durationMinutes !== undefined && input.durationMinutes !== null && !isValidDuration(input.durationMinutes)) {
+        console.error('Validation failed: durationMinutes invalid', input.durationMinutes);
+        return false;
+    }
+
+    if (input.personalRating !== undefined && !isValidPersonalRating(input.personalRating)) {
+        console.error('Validation failed: personalRating invalid', input.personalRating);
+        return false;
+    }
+
+    if (input.review !== undefined && typeof input.review !== 'string') {
+        console.error('Validation failed: review invalid', input.review);
+        return false;
+    }
+
+    if (input.finishedAt !== undefined && !isValidDateInput(input.finishedAt)) {
+        console.error('Validation failed: finishedAt invalid', input.finishedAt);
+        return false;
+    }
+
     console.log('Validation passed for CreateBookInput:', {
         title: input.title,
         performanceRating: input.performanceRating,
@@ -262,6 +467,42 @@ export function isValidUpdateBookInput(input: any): boolean {
         return false;
     }
 
+    if (input.narrators !== undefined && input.narrators !== null && !isValidNarratorList(input.narrators)) {
+        return false;
+    }
+
+    if (input.status !== undefined && input.status !== null && !isListeningStatus(input.status)) {
+        return false;
+    }
+
+    if (input.seriesName !== undefined && typeof input.seriesName !== 'string') {
+        return false;
+    }
+
+    if (input.seriesTotalVolumes !== undefined && !isValidTotalVolumes(input.seriesTotalVolumes)) {
+        return false;
+    }
+
+    if (input.seriesPosition !== undefined && input.seriesPosition !== null && !isValidSeriesPosition(input.seriesPosition)) {
+        return false;
+    }
+
+    if (input.durationMinutes !== undefined && input.durationMinutes !== null && !isValidDuration(input.durationMinutes)) {
+        return false;
+    }
+
+    if (input.personalRating !== undefined && !isValidPersonalRating(input.personalRating)) {
+        return false;
+    }
+
+    if (input.review !== undefined && typeof input.review !== 'string') {
+        return false;
+    }
+
+    if (input.finishedAt !== undefined && !isValidDateInput(input.finishedAt)) {
+        return false;
+    }
+
     return true;
 }
 
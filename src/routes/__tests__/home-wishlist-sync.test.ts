@@ -357,7 +357,7 @@ describe('Home and Wishlist Page Synchronization', () => {
             // Mock successful updates
             vi.mocked(apiClient.updateBook).mockImplementation((id, updates) => {
                 const book = mockBooks.find(b => b.id === id);
-                return Promise.resolve({ ...book!, ...updates });
+                return Promise.resolve({ ...book!, ...updates } as Book);
             });
 
             // Perform many rapid updates
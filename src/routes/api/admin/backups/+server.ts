@@ -0,0 +1,110 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { createBackup, listBackups } from '$lib/server/db/backup.js';
+import { isAdminRequest } from '$lib/server/utils/admin-auth.js';
+import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
+import {
+    createSuccessResponse,
+    createErrorResponse,
+    classifyDatabaseError,
+    getErrorStatus,
+    sanitizeErrorDetails
+} from '$lib/server/utils/errors.js';
+
+const requestLogger = createRequestLogger();
+
+function unauthorized(requestId: string, logRequest: (statusCode: number) => void) {
+    const errorResponse = createErrorResponse(
+        'UNAUTHORIZED',
+        'Admin token required',
+        undefined,
+        requestId
+    );
+
+    logRequest(401);
+    return json(errorResponse, { status: 401 });
+}
+
+// GET /api/admin/backups - List database backups, newest first
+export const GET: RequestHandler = async ({ request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+
+    if (!isAdminRequest(request)) {
+        ServerLogger.warn('Unauthorized backup list request', 'API_ADMIN_BACKUPS_GET', requestId);
+        return unauthorized(requestId, logRequest);
+    }
+
+    try {
+        const backups = listBackups();
+
+        const response = createSuccessResponse(
+            backups,
+            `Found ${backups.length} backups`,
+            requestId
+        );
+
+        logRequest(200);
+        return json(response);
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to list backups', err, 'API_ADMIN_BACKUPS_GET', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to list backups',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
+
+// POST /api/admin/backups - Take a backup now
+export const POST: RequestHandler = async ({ request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+
+    if (!isAdminRequest(request)) {
+        ServerLogger.warn('Unauthorized backup request', 'API_ADMIN_BACKUPS_POST', requestId);
+        return unauthorized(requestId, logRequest);
+    }
+
+    try {
+        ServerLogger.info('Creating database backup', 'API_ADMIN_BACKUPS_POST', requestId);
+
+        const backup = await createBackup();
+
+        const response = createSuccessResponse(
+            backup,
+            `Created backup ${backup.fileName}`,
+            requestId
+        );
+
+        logRequest(201);
+        return json(response, { status: 201 });
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to create backup', err, 'API_ADMIN_BACKUPS_POST', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to create backup',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
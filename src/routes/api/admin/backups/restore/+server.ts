@@ -0,0 +1,100 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { restoreBackup } from '$lib/server/db/backup.js';
+import { isAdminRequest } from '$lib/server/utils/admin-auth.js';
+import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
+import {
+    createSuccessResponse,
+    createErrorResponse,
+    classifyDatabaseError,
+    getErrorStatus,
+    sanitizeErrorDetails
+} from '$lib/server/utils/errors.js';
+
+const requestLogger = createRequestLogger();
+
+// POST /api/admin/backups/restore - Replace the database with a backup
+export const POST: RequestHandler = async ({ request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+
+    if (!isAdminRequest(request)) {
+        ServerLogger.warn('Unauthorized restore request', 'API_ADMIN_BACKUPS_RESTORE_POST', requestId);
+
+        const errorResponse = createErrorResponse(
+            'UNAUTHORIZED',
+            'Admin token required',
+            undefined,
+            requestId
+        );
+
+        logRequest(401);
+        return json(errorResponse, { status: 401 });
+    }
+
+    try {
+        const body = await request.json();
+
+        if (!body || typeof body.fileName !== 'string' || !body.fileName.trim()) {
+            ServerLogger.warn('Invalid restore payload provided', 'API_ADMIN_BACKUPS_RESTORE_POST', requestId);
+
+            const errorResponse = createErrorResponse(
+                'VALIDATION_ERROR',
+                'Backup fileName is required',
+                undefined,
+                requestId
+            );
+
+            logRequest(400);
+            return json(errorResponse, { status: 400 });
+        }
+
+        ServerLogger.info('Restoring database backup', 'API_ADMIN_BACKUPS_RESTORE_POST', requestId, {
+            fileName: body.fileName
+        });
+
+        const result = await restoreBackup(body.fileName);
+
+        if (!result) {
+            ServerLogger.warn('Backup not found', 'API_ADMIN_BACKUPS_RESTORE_POST', requestId, {
+                fileName: body.fileName
+            });
+
+            const errorResponse = createErrorResponse(
+                'BACKUP_NOT_FOUND',
+                `Backup ${body.fileName} not found`,
+                undefined,
+                requestId
+            );
+
+            logRequest(404);
+            return json(errorResponse, { status: 404 });
+        }
+
+        const response = createSuccessResponse(
+            result,
+            `Restored backup ${result.restored.fileName}`,
+            requestId
+        );
+
+        logRequest(200);
+        return json(response);
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to restore backup', err, 'API_ADMIN_BACKUPS_RESTORE_POST', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to restore backup',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
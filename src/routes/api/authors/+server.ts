@@ -0,0 +1,51 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { listAuthors } from '$lib/server/authors/authors.js';
+import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
+import {
+    createSuccessResponse,
+    createErrorResponse,
+    classifyDatabaseError,
+    getErrorStatus,
+    sanitizeErrorDetails
+} from '$lib/server/utils/errors.js';
+
+const requestLogger = createRequestLogger();
+
+// GET /api/authors - List authors with their book counts, average ratings and queued books
+export const GET: RequestHandler = async ({ request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+
+    try {
+        ServerLogger.info('Fetching authors', 'API_AUTHORS_GET', requestId);
+
+        const authors = listAuthors();
+
+        const response = createSuccessResponse(
+            authors,
+            `Retrieved ${authors.length} authors`,
+            requestId
+        );
+
+        logRequest(200);
+        return json(response);
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to fetch authors', err, 'API_AUTHORS_GET', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to fetch authors',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
@@ -0,0 +1,64 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getAuthor } from '$lib/server/authors/authors.js';
+import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
+import {
+    createSuccessResponse,
+    createErrorResponse,
+    classifyDatabaseError,
+    getErrorStatus,
+    sanitizeErrorDetails
+} from '$lib/server/utils/errors.js';
+
+const requestLogger = createRequestLogger();
+
+// GET /api/authors/[name] - Get one author's book count, average ratings and queued books
+export const GET: RequestHandler = async ({ params, request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+    const { name } = params;
+
+    try {
+        const author = getAuthor(name);
+
+        if (!author) {
+            ServerLogger.warn(`Author not found: ${name}`, 'API_AUTHORS_GET_BY_NAME', requestId);
+
+            const errorResponse = createErrorResponse(
+                'AUTHOR_NOT_FOUND',
+                'No books by this author',
+                { author: name },
+                requestId
+            );
+
+            logRequest(404);
+            return json(errorResponse, { status: 404 });
+        }
+
+        const response = createSuccessResponse(
+            author,
+            'Author retrieved successfully',
+            requestId
+        );
+
+        logRequest(200);
+        return json(response);
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to fetch author', err, 'API_AUTHORS_GET_BY_NAME', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to fetch author',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GET as listAuthors } from '../+server.js';
+import { GET as getAuthor } from '../[name]/+server.js';
+import { GET as getBooks } from '../../books/+server.js';
+import { db } from '$lib/server/db/connection.js';
+import { books, bookTags, tags } from '$lib/server/db/schema.js';
+import { generateId } from '$lib/utils/id.js';
+import { createMockEvent } from '../../../../test-utils.js';
+
+async function seedBook(title: string, author: string, fields: Partial<typeof books.$inferInsert> = {}) {
+    await db.insert(books).values({ id: generateId(), title, author, dateAdded: new Date().toISOString(), ...fields });
+}
+
+describe('Authors API', () => {
+    beforeEach(async () => {
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+
+        await seedBook('A Man Called Ove', 'Fredrik Backman', { storyRating: 4.8, status: 'queued' });
+        await seedBook('Anxious People', 'Fredrik Backman', { storyRating: 4.4, personalRating: 4 });
+        await seedBook('Good Omens', 'Terry Pratchett & Neil Gaiman', { performanceRating: 4.6 });
+    });
+
+    afterEach(async () => {
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+    });
+
+    it('should list each author once, splitting co-authored books', async () => {
+        const response = await listAuthors(createMockEvent('/api/authors'));
+        const data = await response.json();
+
+        expect(data.data.map((author: any) => author.name)).toEqual(['Fredrik Backman', 'Neil Gaiman', 'Terry Pratchett']);
+        expect(data.data[0]).toMatchObject({ bookCount: 2, queuedCount: 1, averageStoryRating: 4.6, averagePersonalRating: 4 });
+        expect(data.data[1]).toMatchObject({ bookCount: 1, averagePerformanceRating: 4.6 });
+    });
+
+    it('should count books queued by the next tag and keep commas in names', async () => {
+        const bookId = generateId();
+        const tagId = generateId();
+        await db.insert(books).values({ id: bookId, title: 'Why We Can\'t Wait', author: 'Martin Luther King, Jr.', dateAdded: new Date().toISOString() });
+        await db.insert(tags).values({ id: tagId, name: 'next', color: '#10b981', createdAt: new Date().toISOString() });
+        await db.insert(bookTags).values({ bookId, tagId });
+
+        const response = await listAuthors(createMockEvent('/api/authors'));
+        const data = await response.json();
+
+        expect(data.data.find((author: any) => author.name === 'Martin Luther King, Jr.')).toMatchObject({ bookCount: 1, queuedCount: 1 });
+    });
+
+    it('should return one author by name, ignoring case', async () => {
+        const response = await getAuthor(createMockEvent('/api/authors/fredrik%20backman', undefined, { name: 'fredrik backman' }));
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.data).toMatchObject({ name: 'Fredrik Backman', bookCount: 2 });
+    });
+
+    it('should return 404 for an author with no books', async () => {
+        const response = await getAuthor(createMockEvent('/api/authors/Nobody', undefined, { name: 'Nobody' }));
+
+        expect(response.status).toBe(404);
+        expect((await response.json()).error).toBe('AUTHOR_NOT_FOUND');
+    });
+
+    it('should filter books by any of their authors', async () => {
+        const response = await getBooks(createMockEvent('/api/books?author=neil%20gaiman'));
+        const data = await response.json();
+
+        expect(data.data.map((book: any) => book.title)).toEqual(['Good Omens']);
+    });
+
+    it('should match whole author names, keeping commas and accents', async () => {
+        await seedBook('Why We Can\'t Wait', 'Martin Luther King, Jr.');
+        await seedBook('Waiting for Jr.', 'King');
+        await seedBook('The Ice Princess', 'Camilla Läckberg and Åsa Larsson');
+
+        const titles = async (author: string) => {
+            const response = await getBooks(createMockEvent(`/api/books?author=${encodeURIComponent(author)}`));
+            return (await response.json()).data.map((book: any) => book.title);
+        };
+
+        expect(await titles('martin luther king, jr.')).toEqual(['Why We Can\'t Wait']);
+        expect(await titles('King')).toEqual(['Waiting for Jr.']);
+        expect(await titles('Åsa Larsson')).toEqual(['The Ice Princess']);
+        expect(await titles('Backman')).toEqual([]);
+
+        await seedBook('Short Names', 'Ann  A');
+        expect(await titles('ann a')).toEqual(['Short Names']);
+        expect(await titles('AnnA')).toEqual([]);
+
+        const response = await getAuthor(createMockEvent('/api/authors/Camilla%20L%C3%A4ckberg', undefined, { name: 'Camilla Läckberg' }));
+        expect((await response.json()).data).toMatchObject({ name: 'Camilla Läckberg', bookCount: 1 });
+    });
+});
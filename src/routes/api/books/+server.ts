@@ -1,10 +1,16 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { db } from '$lib/server/db/connection.js';
-import { books, bookTags, tags } from '$lib/server/db/schema.js';
-import { eq, desc } from 'drizzle-orm';
+import { books, bookTags, series, tags } from '$lib/server/db/schema.js';
+import { resolveSeriesId, toSeriesFields } from '$lib/server/series/series.js';
+import { queryBooks } from '$lib/server/books/book-query.js';
+import { parseBookQueryParams } from '$lib/server/books/book-params.js';
+import { eq } from 'drizzle-orm';
 import { generateId } from '$lib/utils/id.js';
 import { isValidCreateBookInput } from '$lib/utils/validation.js';
+import { normalizeNarrators } from '$lib/utils/narrators.js';
+import { getStatusTransition, reconcileQueue, toStatusFields } from '$lib/utils/listening-status.js';
+import { hasNextTag, setNextTag } from '$lib/utils/tags.js';
 import type { CreateBookInput } from '$lib/types/book.js';
 import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
 import {
@@ -17,118 +23,44 @@ import {
 
 const requestLogger = createRequestLogger();
 
-// GET /api/books - Get all books with their tags, with optional filtering
+// GET /api/books - Get a page of books with their tags, filtered and sorted in SQL
 export const GET: RequestHandler = async ({ request, url }) => {
     const logRequest = requestLogger.logRequest(request);
     const requestId = requestLogger.getRequestId();
 
     try {
-        // Parse query parameters for filtering
-        const filterTag = url.searchParams.get('filter');
-        const tagFilter = url.searchParams.get('tag');
-        const limit = url.searchParams.get('limit');
-        const offset = url.searchParams.get('offset');
-
-        // Determine if we need to filter by specific tag
-        const targetTag = filterTag === 'next' ? 'next' : tagFilter;
-
-        ServerLogger.info('Fetching books', 'API_BOOKS_GET', requestId, {
-            filterTag,
-            tagFilter: targetTag,
-            limit,
-            offset
-        });
-
-        let query = db
-            .select({
-                id: books.id,
-                title: books.title,
-                author: books.author,
-                performanceRating: books.performanceRating,
-                storyRating: books.storyRating,
-                description: books.description,
-                coverImageUrl: books.coverImageUrl,
-                audibleUrl: books.audibleUrl,
-                queuePosition: books.queuePosition,
-                dateAdded: books.dateAdded,
-                highlyRatedFor: books.highlyRatedFor,
-                tagId: tags.id,
-                tagName: tags.name,
-                tagColor: tags.color
-            })
-            .from(books)
-            .leftJoin(bookTags, eq(books.id, bookTags.bookId))
-            .leftJoin(tags, eq(bookTags.tagId, tags.id));
+        const parsed = parseBookQueryParams(url.searchParams);
 
-        // Apply tag filtering if specified
-        if (targetTag) {
-            // For tag filtering, we need to ensure the book has the specific tag
-            // This requires a different approach - we'll filter after grouping
-            ServerLogger.info(`Applying tag filter: ${targetTag}`, 'API_BOOKS_GET', requestId);
-        }
+        if (!parsed.success) {
+            ServerLogger.warn('Invalid book query provided', 'API_BOOKS_GET', requestId, {
+                query: Object.fromEntries(url.searchParams)
+            });
 
-        // Apply ordering
-        query = query.orderBy(desc(books.dateAdded));
-
-        // Execute query
-        const booksWithTags = await query;
-
-        // Group books and their tags
-        const booksMap = new Map();
-
-        for (const row of booksWithTags) {
-            if (!booksMap.has(row.id)) {
-                booksMap.set(row.id, {
-                    id: row.id,
-                    title: row.title,
-                    author: row.author,
-                    performanceRating: row.performanceRating,
-                    storyRating: row.storyRating,
-                    description: row.description,
-                    coverImageUrl: row.coverImageUrl,
-                    audibleUrl: row.audibleUrl,
-                    queuePosition: row.queuePosition,
-                    dateAdded: new Date(row.dateAdded),
-                    highlyRatedFor: row.highlyRatedFor,
-                    tags: []
-                });
-            }
+            const errorResponse = createErrorResponse(
+                'VALIDATION_ERROR',
+                parsed.error,
+                { query: Object.fromEntries(url.searchParams) },
+                requestId
+            );
 
-            // Add tag if it exists
-            if (row.tagId) {
-                booksMap.get(row.id).tags.push({
-                    id: row.tagId,
-                    name: row.tagName,
-                    color: row.tagColor
-                });
-            }
+            logRequest(400);
+            return json(errorResponse, { status: 400 });
         }
 
-        let result = Array.from(booksMap.values());
+        const { query } = parsed;
+        const tagFilter = [...(query.nextOnly ? ['next'] : []), ...(query.tags ?? [])];
 
-        // Apply tag filtering after grouping if specified
-        if (targetTag) {
-            const originalCount = result.length;
-            result = result.filter(book =>
-                book.tags.some((tag: any) => tag.name === targetTag)
-            );
-            ServerLogger.info(`Tag filter applied: ${originalCount} -> ${result.length} books`, 'API_BOOKS_GET', requestId);
-        }
+        ServerLogger.info('Fetching books', 'API_BOOKS_GET', requestId, query);
 
-        // Apply pagination if specified
-        if (limit || offset) {
-            const limitNum = limit ? parseInt(limit, 10) : undefined;
-            const offsetNum = offset ? parseInt(offset, 10) : 0;
+        const { books: result, total } = queryBooks(query);
 
-            if (limitNum && limitNum > 0) {
-                result = result.slice(offsetNum, offsetNum + limitNum);
-                ServerLogger.info(`Pagination applied: limit=${limitNum}, offset=${offsetNum}`, 'API_BOOKS_GET', requestId);
-            }
-        }
+        // Where the next page starts, or null when this is the last one
+        const offset = query.offset ?? 0;
+        const nextOffset = offset + result.length < total && result.length > 0 ? offset + result.length : null;
 
-        const message = targetTag
-            ? `Retrieved ${result.length} books with tag "${targetTag}"`
-            : `Retrieved ${result.length} books`;
+        const message = tagFilter.length > 0
+            ? `Retrieved ${result.length} of ${total} books with tag "${tagFilter.join('", "')}"`
+            : `Retrieved ${result.length} of ${total} books`;
 
         ServerLogger.info(message, 'API_BOOKS_GET', requestId);
 
@@ -139,7 +71,10 @@ export const GET: RequestHandler = async ({ request, url }) => {
         );
 
         logRequest(200);
-        return json(response);
+        return json({
+            ...response,
+            pagination: { total, limit: query.limit ?? null, offset, nextOffset }
+        });
 
     } catch (error) {
         const err = error as Error;
@@ -194,6 +129,13 @@ export const POST: RequestHandler = async ({ request }) => {
         const bookId = generateId();
         const now = new Date().toISOString();
 
+        // Queued books carry the "next" tag and tagged books start queued
+        const queue = reconcileQueue(
+            { status: 'wishlist', hasNextTag: false },
+            { status: input.status, hasNextTag: input.tags ? hasNextTag(input.tags) : undefined }
+        );
+        const inputTags = setNextTag(input.tags ?? [], queue.hasNextTag);
+
         // Insert the book
         await db.insert(books).values({
             id: bookId,
@@ -206,13 +148,21 @@ export const POST: RequestHandler = async ({ request }) => {
             audibleUrl: input.audibleUrl?.trim() || null,
             queuePosition: input.queuePosition || null,
             dateAdded: now,
-            highlyRatedFor: input.highlyRatedFor?.trim() || null
+            highlyRatedFor: input.highlyRatedFor?.trim() || null,
+            narrators: normalizeNarrators(input.narrators),
+            ...getStatusTransition(queue.status, now),
+            ...(input.finishedAt ? { finishedAt: new Date(input.finishedAt).toISOString() } : {}),
+            seriesId: resolveSeriesId(db, input.seriesName, input.seriesTotalVolumes, now) ?? null,
+            seriesPosition: input.seriesName?.trim() ? input.seriesPosition ?? null : null,
+            durationMinutes: input.durationMinutes ?? null,
+            personalRating: input.personalRating || null,
+            review: input.review?.trim() || null
         });
 
         // Handle tags if provided
-        if (input.tags && input.tags.length > 0) {
+        if (inputTags.length > 0) {
             const bookTagsToInsert = [];
-            for (const tag of input.tags) {
+            for (const tag of inputTags) {
                 // Check if tag exists, create if not
                 const existingTag = await db
                     .select()
@@ -259,6 +209,19 @@ export const POST: RequestHandler = async ({ request }) => {
                 queuePosition: books.queuePosition,
                 dateAdded: books.dateAdded,
                 highlyRatedFor: books.highlyRatedFor,
+                narrators: books.narrators,
+                status: books.status,
+                queuedAt: books.queuedAt,
+                startedAt: books.startedAt,
+                finishedAt: books.finishedAt,
+                abandonedAt: books.abandonedAt,
+                seriesId: books.seriesId,
+                seriesName: series.name,
+                seriesTotalVolumes: series.totalVolumes,
+                seriesPosition: books.seriesPosition,
+                durationMinutes: books.durationMinutes,
+                personalRating: books.personalRating,
+                review: books.review,
                 tagId: tags.id,
                 tagName: tags.name,
                 tagColor: tags.color
@@ -266,6 +229,7 @@ export const POST: RequestHandler = async ({ request }) => {
             .from(books)
             .leftJoin(bookTags, eq(books.id, bookTags.bookId))
             .leftJoin(tags, eq(bookTags.tagId, tags.id))
+            .leftJoin(series, eq(books.seriesId, series.id))
             .where(eq(books.id, bookId));
 
         if (createdBookWithTags.length === 0) {
@@ -285,6 +249,12 @@ export const POST: RequestHandler = async ({ request }) => {
             queuePosition: createdBookWithTags[0].queuePosition,
             dateAdded: new Date(createdBookWithTags[0].dateAdded),
             highlyRatedFor: createdBookWithTags[0].highlyRatedFor,
+            narrators: createdBookWithTags[0].narrators ?? [],
+            ...toStatusFields(createdBookWithTags[0]),
+            ...toSeriesFields(createdBookWithTags[0]),
+            durationMinutes: createdBookWithTags[0].durationMinutes ?? undefined,
+            personalRating: createdBookWithTags[0].personalRating ?? undefined,
+            review: createdBookWithTags[0].review ?? undefined,
             tags: createdBookWithTags
                 .filter(row => row.tagId)
                 .map(row => ({
@@ -1,10 +1,15 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { db } from '$lib/server/db/connection.js';
-import { books, bookTags, tags } from '$lib/server/db/schema.js';
+import { books, bookTags, series, tags } from '$lib/server/db/schema.js';
+import { resolveSeriesId, toSeriesFields } from '$lib/server/series/series.js';
+import { listNotes } from '$lib/server/notes/notes.js';
 import { eq } from 'drizzle-orm';
 import { isValidId } from '$lib/utils/id.js';
 import { isValidCreateBookInput, isValidUpdateBookInput } from '$lib/utils/validation.js';
+import { normalizeNarrators } from '$lib/utils/narrators.js';
+import { getStatusTransition, reconcileQueue, toStatusFields } from '$lib/utils/listening-status.js';
+import { hasNextTag, setNextTag } from '$lib/utils/tags.js';
 import type { UpdateBookInput } from '$lib/types/book.js';
 import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
 import {
@@ -57,6 +62,19 @@ export const GET: RequestHandler = async ({ params, request }) => {
                 queuePosition: books.queuePosition,
                 dateAdded: books.dateAdded,
                 highlyRatedFor: books.highlyRatedFor,
+                narrators: books.narrators,
+                status: books.status,
+                queuedAt: books.queuedAt,
+                startedAt: books.startedAt,
+                finishedAt: books.finishedAt,
+                abandonedAt: books.abandonedAt,
+                seriesId: books.seriesId,
+                seriesName: series.name,
+                seriesTotalVolumes: series.totalVolumes,
+                seriesPosition: books.seriesPosition,
+                durationMinutes: books.durationMinutes,
+                personalRating: books.personalRating,
+                review: books.review,
                 tagId: tags.id,
                 tagName: tags.name,
                 tagColor: tags.color
@@ -64,6 +82,7 @@ export const GET: RequestHandler = async ({ params, request }) => {
             .from(books)
             .leftJoin(bookTags, eq(books.id, bookTags.bookId))
             .leftJoin(tags, eq(bookTags.tagId, tags.id))
+            .leftJoin(series, eq(books.seriesId, series.id))
             .where(eq(books.id, id));
 
         if (bookWithTags.length === 0) {
@@ -93,6 +112,13 @@ export const GET: RequestHandler = async ({ params, request }) => {
             queuePosition: bookWithTags[0].queuePosition,
             dateAdded: new Date(bookWithTags[0].dateAdded),
             highlyRatedFor: bookWithTags[0].highlyRatedFor,
+            narrators: bookWithTags[0].narrators ?? [],
+            ...toStatusFields(bookWithTags[0]),
+            ...toSeriesFields(bookWithTags[0]),
+            durationMinutes: bookWithTags[0].durationMinutes ?? undefined,
+            personalRating: bookWithTags[0].personalRating ?? undefined,
+            review: bookWithTags[0].review ?? undefined,
+            notes: listNotes(bookWithTags[0].id),
             tags: bookWithTags
                 .filter(row => row.tagId)
                 .map(row => ({
@@ -212,22 +238,55 @@ export const PUT: RequestHandler = async ({ params, request }) => {
         if (input.audibleUrl !== undefined) updateData.audibleUrl = input.audibleUrl?.trim() || null;
         if (input.queuePosition !== undefined) updateData.queuePosition = input.queuePosition;
         if (input.highlyRatedFor !== undefined) updateData.highlyRatedFor = input.highlyRatedFor?.trim() || null;
+        if (input.narrators !== undefined) updateData.narrators = normalizeNarrators(input.narrators);
+        if (input.seriesPosition !== undefined) updateData.seriesPosition = input.seriesPosition;
+        if (input.durationMinutes !== undefined) updateData.durationMinutes = input.durationMinutes;
+        // A personal rating of 0 clears it
+        if (input.personalRating !== undefined) updateData.personalRating = input.personalRating || null;
+        if (input.review !== undefined) updateData.review = input.review?.trim() || null;
+
+        const seriesId = resolveSeriesId(db, input.seriesName, input.seriesTotalVolumes, now);
+        if (seriesId !== undefined) updateData.seriesId = seriesId;
+        // A book outside any series has no position in one
+        if (seriesId === null) updateData.seriesPosition = null;
+
+        // Keep the queued status and the "next" tag in step
+        const currentTags = await db
+            .select({ id: tags.id, name: tags.name, color: tags.color })
+            .from(bookTags)
+            .innerJoin(tags, eq(tags.id, bookTags.tagId))
+            .where(eq(bookTags.bookId, id));
+        const queue = reconcileQueue(
+            { status: toStatusFields(existingBook[0]).status ?? 'wishlist', hasNextTag: hasNextTag(currentTags) },
+            { status: input.status, hasNextTag: input.tags ? hasNextTag(input.tags) : undefined }
+        );
+        const requestedTags = input.tags ?? currentTags;
+        const savedTags = setNextTag(requestedTags, queue.hasNextTag);
+        const tagsChanged = input.tags !== undefined || savedTags !== requestedTags;
+
+        // Record when the book moved into its new status
+        if (queue.status !== existingBook[0].status) {
+            Object.assign(updateData, getStatusTransition(queue.status, now));
+        }
+
+        // An explicit finished date wins over the transition time
+        if (input.finishedAt !== undefined) updateData.finishedAt = new Date(input.finishedAt).toISOString();
 
         // Update the book
         if (Object.keys(updateData).length > 0) {
             await db.update(books).set(updateData).where(eq(books.id, id));
         }
 
-        // Handle tags if provided
-        if (input.tags !== undefined) {
+        // Handle tags if provided or changed by the queue
+        if (tagsChanged) {
             // Remove existing tag relationships
             await db.delete(bookTags).where(eq(bookTags.bookId, id));
 
             // Add new tag relationships
-            if (input.tags.length > 0) {
+            if (savedTags.length > 0) {
                 const bookTagsToInsert = [];
 
-                for (const tag of input.tags) {
+                for (const tag of savedTags) {
                     // Check if tag exists
                     const existingTag = await db
                         .select()
@@ -290,6 +349,19 @@ export const PUT: RequestHandler = async ({ params, request }) => {
                 queuePosition: books.queuePosition,
                 dateAdded: books.dateAdded,
                 highlyRatedFor: books.highlyRatedFor,
+                narrators: books.narrators,
+                status: books.status,
+                queuedAt: books.queuedAt,
+                startedAt: books.startedAt,
+                finishedAt: books.finishedAt,
+                abandonedAt: books.abandonedAt,
+                seriesId: books.seriesId,
+                seriesName: series.name,
+                seriesTotalVolumes: series.totalVolumes,
+                seriesPosition: books.seriesPosition,
+                durationMinutes: books.durationMinutes,
+                personalRating: books.personalRating,
+                review: books.review,
                 tagId: tags.id,
                 tagName: tags.name,
                 tagColor: tags.color
@@ -297,6 +369,7 @@ export const PUT: RequestHandler = async ({ params, request }) => {
             .from(books)
             .leftJoin(bookTags, eq(books.id, bookTags.bookId))
             .leftJoin(tags, eq(bookTags.tagId, tags.id))
+            .leftJoin(series, eq(books.seriesId, series.id))
             .where(eq(books.id, id));
 
         // Format the response
@@ -312,6 +385,13 @@ export const PUT: RequestHandler = async ({ params, request }) => {
             queuePosition: updatedBookWithTags[0].queuePosition,
             dateAdded: new Date(updatedBookWithTags[0].dateAdded),
             highlyRatedFor: updatedBookWithTags[0].highlyRatedFor,
+            narrators: updatedBookWithTags[0].narrators ?? [],
+            ...toStatusFields(updatedBookWithTags[0]),
+            ...toSeriesFields(updatedBookWithTags[0]),
+            durationMinutes: updatedBookWithTags[0].durationMinutes ?? undefined,
+            personalRating: updatedBookWithTags[0].personalRating ?? undefined,
+            review: updatedBookWithTags[0].review ?? undefined,
+            notes: listNotes(updatedBookWithTags[0].id),
             tags: updatedBookWithTags
                 .filter(row => row.tagId)
                 .map(row => ({
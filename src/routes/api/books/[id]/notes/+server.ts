@@ -0,0 +1,154 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { db } from '$lib/server/db/connection.js';
+import { books } from '$lib/server/db/schema.js';
+import { createNote, listNotes } from '$lib/server/notes/notes.js';
+import { eq } from 'drizzle-orm';
+import { isValidId } from '$lib/utils/id.js';
+import { isValidNoteBody } from '$lib/utils/validation.js';
+import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
+import {
+    createSuccessResponse,
+    createErrorResponse,
+    classifyDatabaseError,
+    getErrorStatus,
+    sanitizeErrorDetails
+} from '$lib/server/utils/errors.js';
+
+const requestLogger = createRequestLogger();
+
+// GET /api/books/[id]/notes - List a book's notes, newest first
+export const GET: RequestHandler = async ({ params, request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+    const { id } = params;
+
+    try {
+        if (!isValidId(id)) {
+            ServerLogger.warn(`Invalid book ID format: ${id}`, 'API_NOTES_GET', requestId);
+
+            const errorResponse = createErrorResponse(
+                'VALIDATION_ERROR',
+                'Invalid book ID format',
+                { providedId: id },
+                requestId
+            );
+
+            logRequest(400);
+            return json(errorResponse, { status: 400 });
+        }
+
+        const book = db.select({ id: books.id }).from(books).where(eq(books.id, id)).get();
+
+        if (!book) {
+            ServerLogger.warn(`Book not found: ${id}`, 'API_NOTES_GET', requestId);
+
+            const errorResponse = createErrorResponse(
+                'BOOK_NOT_FOUND',
+                'Book not found',
+                { bookId: id },
+                requestId
+            );
+
+            logRequest(404);
+            return json(errorResponse, { status: 404 });
+        }
+
+        const notes = listNotes(id);
+
+        const response = createSuccessResponse(
+            notes,
+            `Retrieved ${notes.length} notes`,
+            requestId
+        );
+
+        logRequest(200);
+        return json(response);
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to fetch notes', err, 'API_NOTES_GET', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to fetch notes',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
+
+// POST /api/books/[id]/notes - Add a note to a book
+export const POST: RequestHandler = async ({ params, request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+    const { id } = params;
+
+    try {
+        const body = await request.json();
+
+        if (!isValidId(id) || !isValidNoteBody(body)) {
+            ServerLogger.warn('Invalid note provided', 'API_NOTES_POST', requestId, { bookId: id, body });
+
+            const errorResponse = createErrorResponse(
+                'VALIDATION_ERROR',
+                'A note needs a non-empty body',
+                sanitizeErrorDetails({ providedData: body }),
+                requestId
+            );
+
+            logRequest(400);
+            return json(errorResponse, { status: 400 });
+        }
+
+        const note = createNote(id, body.body);
+
+        if (!note) {
+            ServerLogger.warn(`Book not found: ${id}`, 'API_NOTES_POST', requestId);
+
+            const errorResponse = createErrorResponse(
+                'BOOK_NOT_FOUND',
+                'Book not found',
+                { bookId: id },
+                requestId
+            );
+
+            logRequest(404);
+            return json(errorResponse, { status: 404 });
+        }
+
+        ServerLogger.info(`Added note to book: ${id}`, 'API_NOTES_POST', requestId, { noteId: note.id });
+
+        const response = createSuccessResponse(
+            note,
+            'Note added successfully',
+            requestId
+        );
+
+        logRequest(201);
+        return json(response, { status: 201 });
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to add note', err, 'API_NOTES_POST', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to add note',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
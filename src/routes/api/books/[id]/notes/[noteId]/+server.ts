@@ -0,0 +1,130 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { deleteNote, updateNote } from '$lib/server/notes/notes.js';
+import { isValidNoteBody } from '$lib/utils/validation.js';
+import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
+import {
+    createSuccessResponse,
+    createErrorResponse,
+    classifyDatabaseError,
+    getErrorStatus,
+    sanitizeErrorDetails
+} from '$lib/server/utils/errors.js';
+
+const requestLogger = createRequestLogger();
+
+// PUT /api/books/[id]/notes/[noteId] - Change the text of a note
+export const PUT: RequestHandler = async ({ params, request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+    const { id, noteId } = params;
+
+    try {
+        const body = await request.json();
+
+        if (!isValidNoteBody(body)) {
+            ServerLogger.warn('Invalid note provided', 'API_NOTES_PUT', requestId, { body });
+
+            const errorResponse = createErrorResponse(
+                'VALIDATION_ERROR',
+                'A note needs a non-empty body',
+                sanitizeErrorDetails({ providedData: body }),
+                requestId
+            );
+
+            logRequest(400);
+            return json(errorResponse, { status: 400 });
+        }
+
+        const note = updateNote(id, noteId, body.body);
+
+        if (!note) {
+            ServerLogger.warn(`Note not found: ${noteId}`, 'API_NOTES_PUT', requestId, { bookId: id });
+
+            const errorResponse = createErrorResponse(
+                'NOTE_NOT_FOUND',
+                'Note not found',
+                { bookId: id, noteId },
+                requestId
+            );
+
+            logRequest(404);
+            return json(errorResponse, { status: 404 });
+        }
+
+        const response = createSuccessResponse(
+            note,
+            'Note updated successfully',
+            requestId
+        );
+
+        logRequest(200);
+        return json(response);
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to update note', err, 'API_NOTES_PUT', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to update note',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
+
+// DELETE /api/books/[id]/notes/[noteId] - Delete a note
+export const DELETE: RequestHandler = async ({ params, request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+    const { id, noteId } = params;
+
+    try {
+        if (!deleteNote(id, noteId)) {
+            ServerLogger.warn(`Note not found: ${noteId}`, 'API_NOTES_DELETE', requestId, { bookId: id });
+
+            const errorResponse = createErrorResponse(
+                'NOTE_NOT_FOUND',
+                'Note not found',
+                { bookId: id, noteId },
+                requestId
+            );
+
+            logRequest(404);
+            return json(errorResponse, { status: 404 });
+        }
+
+        const response = createSuccessResponse(
+            { id: noteId },
+            'Note deleted successfully',
+            requestId
+        );
+
+        logRequest(200);
+        return json(response);
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to delete note', err, 'API_NOTES_DELETE', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to delete note',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
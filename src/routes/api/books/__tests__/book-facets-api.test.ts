@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GET } from '../facets/+server.js';
+import { POST } from '../+server.js';
+import { db } from '$lib/server/db/connection.js';
+import { bookNotes, books, bookTags, tags } from '$lib/server/db/schema.js';
+import { generateId } from '$lib/utils/id.js';
+import { createMockEvent } from '../../../../test-utils.js';
+
+async function seedBook(body: Record<string, unknown>) {
+    await POST(createMockEvent('/api/books', { method: 'POST', body }));
+}
+
+async function getFacets(query: string) {
+    const response = await GET(createMockEvent(`/api/books/facets${query}`));
+    return { response, result: await response.json() };
+}
+
+async function clearDatabase() {
+    await db.delete(bookNotes);
+    await db.delete(bookTags);
+    await db.delete(books);
+    await db.delete(tags);
+}
+
+describe('GET /api/books/facets', () => {
+    beforeEach(async () => {
+        await clearDatabase();
+
+        const funny = { id: generateId(), name: 'funny', color: '#22c55e' };
+        const space = { id: generateId(), name: 'space', color: '#3b82f6' };
+
+        await seedBook({ title: 'The Martian', author: 'Andy Weir', performanceRating: 4.8, storyRating: 4.5, tags: [funny] });
+        await seedBook({ title: 'Project Hail Mary', author: 'Andy Weir', performanceRating: 4.2, storyRating: 5, tags: [funny, space] });
+        await seedBook({ title: 'Good Omens', author: 'Terry Pratchett & Neil Gaiman', performanceRating: 3.2, tags: [funny] });
+        await seedBook({ title: 'Dune', author: 'Frank Herbert' });
+    });
+
+    afterEach(clearDatabase);
+
+    it('should count tags, authors and rating buckets across the library', async () => {
+        const { response, result } = await getFacets('');
+
+        expect(response.status).toBe(200);
+        expect(result.data.total).toBe(4);
+        expect(result.data.tags).toEqual([{ value: 'funny', count: 3 }, { value: 'space', count: 1 }]);
+        expect(result.data.authors).toEqual([
+            { value: 'Andy Weir', count: 2 },
+            { value: 'Frank Herbert', count: 1 },
+            { value: 'Neil Gaiman', count: 1 },
+            { value: 'Terry Pratchett', count: 1 }
+        ]);
+        expect(result.data.performanceRating).toEqual({
+            buckets: [{ min: 3, count: 3 }, { min: 3.5, count: 2 }, { min: 4, count: 2 }, { min: 4.5, count: 1 }],
+            unrated: 1
+        });
+        expect(result.data.storyRating.unrated).toBe(2);
+    });
+
+    it('should count what each option leaves under the current filters', async () => {
+        const { result } = await getFacets('?tag=space');
+
+        expect(result.data.total).toBe(1);
+        expect(result.data.tags).toEqual([{ value: 'funny', count: 1 }, { value: 'space', count: 1 }]);
+        expect(result.data.authors.map((author: any) => author.count)).toEqual([1, 0, 0, 0]);
+    });
+
+    it('should count rating buckets without the rating\'s own minimum', async () => {
+        const { result } = await getFacets('?minPerformance=4.5');
+
+        expect(result.data.total).toBe(1);
+        expect(result.data.performanceRating.buckets[0]).toEqual({ min: 3, count: 3 });
+        expect(result.data.performanceRating.unrated).toBe(1);
+        expect(result.data.storyRating.buckets[0]).toEqual({ min: 3, count: 1 });
+        expect(result.data.storyRating.unrated).toBe(0);
+    });
+
+    it('should reject the same invalid filters as the book list', async () => {
+        expect((await getFacets('?minStory=high')).response.status).toBe(400);
+        expect((await getFacets(`?q=${encodeURIComponent('story>=great')}`)).response.status).toBe(400);
+    });
+});
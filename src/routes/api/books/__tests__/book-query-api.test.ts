@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GET, POST } from '../+server.js';
+import { db } from '$lib/server/db/connection.js';
+import { bookNotes, books, bookTags, tags } from '$lib/server/db/schema.js';
+import { generateId } from '$lib/utils/id.js';
+import { CLOSE_MATCH_LIMIT } from '$lib/utils/search-query.js';
+import { filterAndSortBooks, filtersFromSearchParams, filtersToSearchParams } from '$lib/stores/filter-store.js';
+import type { Book } from '$lib/types/book.js';
+import { createMockEvent } from '../../../../test-utils.js';
+
+async function seedBook(body: Record<string, unknown>) {
+    const response = await POST(createMockEvent('/api/books', { method: 'POST', body }));
+    // Keep dateAdded distinct so the default order is predictable; setTimeout
+    // runs at once in tests, so the clock is moved on by hand
+    vi.setSystemTime(Date.now() + 1000);
+    return (await response.json()).data.id as string;
+}
+
+async function listBooks(query: string) {
+    const response = await GET(createMockEvent(`/api/books${query}`));
+    return { response, result: await response.json() };
+}
+
+async function clearDatabase() {
+    await db.delete(bookNotes);
+    await db.delete(bookTags);
+    await db.delete(books);
+    await db.delete(tags);
+}
+
+describe('GET /api/books filtering, sorting and pagination', () => {
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        await clearDatabase();
+
+        const funny = { id: generateId(), name: 'funny', color: '#22c55e' };
+        const space = { id: generateId(), name: 'space', color: '#3b82f6' };
+
+        await seedBook({
+            title: 'The Martian',
+            author: 'Andy Weir',
+            narrators: ['R.C. Bray'],
+            performanceRating: 4.8,
+            storyRating: 4.5,
+            durationMinutes: 653,
+            tags: [funny]
+        });
+        await seedBook({
+            title: 'Project Hail Mary',
+            author: 'Andy Weir',
+            narrators: ['Ray Porter'],
+            performanceRating: 4.2,
+            storyRating: 5,
+            tags: [funny, space]
+        });
+        await seedBook({ title: 'dune', author: 'Frank Herbert', storyRating: 4 });
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await clearDatabase();
+    });
+
+    it('should return every book newest first with pagination metadata', async () => {
+        const { response, result } = await listBooks('');
+
+        expect(response.status).toBe(200);
+        expect(result.data.map((book: any) => book.title)).toEqual(['dune', 'Project Hail Mary', 'The Martian']);
+        expect(result.pagination).toEqual({ total: 3, limit: null, offset: 0, nextOffset: null });
+    });
+
+    it('should require every tag and match search against narrators', async () => {
+        const tagged = await listBooks('?tag=funny,space');
+        expect(tagged.result.data.map((book: any) => book.title)).toEqual(['Project Hail Mary']);
+
+        const searched = await listBooks('?q=bray');
+        expect(searched.result.data.map((book: any) => book.title)).toEqual(['The Martian']);
+        expect(searched.result.data[0].tags).toHaveLength(1);
+    });
+
+    it('should match any tag and leave out excluded tags', async () => {
+        const any = await listBooks('?tag=space,missing&tagMatch=any&sort=title');
+        expect(any.result.data.map((book: any) => book.title)).toEqual(['Project Hail Mary']);
+
+        const excluded = await listBooks('?excludeTag=space&sort=title');
+        expect(excluded.result.data.map((book: any) => book.title)).toEqual(['dune', 'The Martian']);
+
+        const funnyNotSpace = await listBooks('?tag=funny&excludeTag=space');
+        expect(funnyNotSpace.result.data.map((book: any) => book.title)).toEqual(['The Martian']);
+
+        expect((await listBooks('?tagMatch=some')).response.status).toBe(400);
+    });
+
+    it('should keep filter=next required when any tag will do', async () => {
+        const next = { id: generateId(), name: 'next', color: '#ef4444' };
+        await seedBook({ title: 'Next Up', author: 'Jo Cook', tags: [next] });
+        await seedBook({ title: 'Next In Space', author: 'Jo Cook', tags: [next, { id: generateId(), name: 'space', color: '#3b82f6' }] });
+
+        const { result } = await listBooks('?filter=next&tag=space,funny&tagMatch=any');
+        expect(result.data.map((book: any) => book.title)).toEqual(['Next In Space']);
+    });
+
+    it('should match typos only when nothing matches exactly, closest first', async () => {
+        await seedBook({ title: 'Dine Out', author: 'Jo Cook' });
+        await seedBook({ title: 'The Silmarillion', author: 'J.R.R. Tolkien' });
+        await seedBook({ title: 'The Silmaralon', author: 'Jo Cook' });
+
+        const typo = await listBooks('?q=herbret');
+        expect(typo.result.data.map((book: any) => book.title)).toEqual(['dune']);
+
+        const exact = await listBooks('?q=DÚNE&sort=title');
+        expect(exact.result.data.map((book: any) => book.title)).toEqual(['dune']);
+
+        const ranked = await listBooks('?q=silmarilion');
+        expect(ranked.result.data.map((book: any) => book.title)).toEqual(['The Silmarillion', 'The Silmaralon']);
+        expect(ranked.result.pagination.total).toBe(2);
+    });
+
+    it('should find the same books as the wishlist for any search', async () => {
+        await seedBook({ title: 'Dine Out', author: 'Jo Cook' });
+        // More near misses than the typo cap, so both sides have to cut the same ones
+        const start = Date.now();
+        await db.insert(books).values(Array.from({ length: CLOSE_MATCH_LIMIT + 5 }, (_, i) => ({
+            id: generateId(),
+            title: `Herbertson Papers ${String(i).padStart(2, '0')}`,
+            author: 'Jo Cook',
+            dateAdded: new Date(start + i * 1000).toISOString()
+        })));
+        const library = (await listBooks('')).result.data as Book[];
+
+        for (const q of ['dune', 'dnue', 'herbret', 'herbret -tag:space', 'weir story>=4.5', 'zzzz']) {
+            const filters = filtersFromSearchParams(new URLSearchParams({ q, sort: 'dateAdded', order: 'desc' }));
+            const { result } = await listBooks(`?${filtersToSearchParams(filters)}`);
+
+            expect(result.data.map((book: Book) => book.id), q)
+                .toEqual(filterAndSortBooks(library, filters).map(book => book.id));
+        }
+    });
+
+    it('should filter with the search query language', async () => {
+        const filtered = await listBooks(`?q=${encodeURIComponent('author:weir -tag:space story>=4.5')}`);
+        expect(filtered.result.data.map((book: any) => book.title)).toEqual(['The Martian']);
+
+        const unrated = await listBooks(`?q=${encodeURIComponent('-story>4.2 added:2020')}`);
+        expect(unrated.result.data).toEqual([]);
+
+        const invalid = await listBooks(`?q=${encodeURIComponent('story>=great')}`);
+        expect(invalid.response.status).toBe(400);
+        expect(invalid.result.message).toContain('at character 1');
+    });
+
+    it('should filter by rating and length ranges and missing ratings', async () => {
+        const ranged = await listBooks('?minPerformance=4.5&maxStory=4.5');
+        expect(ranged.result.data.map((book: any) => book.title)).toEqual(['The Martian']);
+
+        const unrated = await listBooks('?unrated=performance&minStory=4');
+        expect(unrated.result.data.map((book: any) => book.title)).toEqual(['dune']);
+
+        const long = await listBooks('?minLength=600');
+        expect(long.result.data.map((book: any) => book.title)).toEqual(['The Martian']);
+
+        expect((await listBooks('?minStory=6')).response.status).toBe(400);
+        expect((await listBooks('?maxLength=long')).response.status).toBe(400);
+        expect((await listBooks('?unrated=narrator')).response.status).toBe(400);
+    });
+
+    it('should sort case-insensitively in either direction', async () => {
+        const ascending = await listBooks('?sort=title');
+        expect(ascending.result.data.map((book: any) => book.title)).toEqual(['dune', 'Project Hail Mary', 'The Martian']);
+
+        const byRating = await listBooks('?sort=storyRating&order=desc');
+        expect(byRating.result.data.map((book: any) => book.storyRating)).toEqual([5, 4.5, 4]);
+    });
+
+    it('should page with limit and offset', async () => {
+        const first = await listBooks('?sort=title&limit=2');
+        expect(first.result.data.map((book: any) => book.title)).toEqual(['dune', 'Project Hail Mary']);
+        expect(first.result.pagination).toEqual({ total: 3, limit: 2, offset: 0, nextOffset: 2 });
+
+        const second = await listBooks('?sort=title&limit=2&offset=2');
+        expect(second.result.data.map((book: any) => book.title)).toEqual(['The Martian']);
+        expect(second.result.pagination.nextOffset).toBeNull();
+    });
+
+    it('should reject unknown sort fields and bad page sizes', async () => {
+        expect((await listBooks('?sort=colour')).response.status).toBe(400);
+        expect((await listBooks('?limit=0')).response.status).toBe(400);
+        expect((await listBooks('?offset=-1')).response.status).toBe(400);
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GET, POST } from '../+server.js';
+import { GET as getById, PUT } from '../[id]/+server.js';
+import { db } from '$lib/server/db/connection.js';
+import { books, bookTags, tags } from '$lib/server/db/schema.js';
+import { createMockEvent } from '../../../../test-utils.js';
+
+describe('Books API narrators', () => {
+    beforeEach(async () => {
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+    });
+
+    afterEach(async () => {
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+    });
+
+    it('should store normalized narrators on create', async () => {
+        const response = await POST(createMockEvent('/api/books', {
+            method: 'POST',
+            body: { title: 'Project Hail Mary', author: 'Andy Weir', narrators: [' Ray Porter ', '', 'ray porter'] }
+        }));
+        const result = await response.json();
+
+        expect(response.status).toBe(201);
+        expect(result.data.narrators).toEqual(['Ray Porter']);
+
+        const fetched = await (await getById(createMockEvent(`/api/books/${result.data.id}`, undefined, { id: result.data.id }))).json();
+        expect(fetched.data.narrators).toEqual(['Ray Porter']);
+    });
+
+    it('should reject narrators that are not a list of names', async () => {
+        const response = await POST(createMockEvent('/api/books', {
+            method: 'POST',
+            body: { title: 'Dune', author: 'Frank Herbert', narrators: 'Scott Brick' }
+        }));
+
+        expect(response.status).toBe(400);
+    });
+
+    it('should update and clear narrators', async () => {
+        const created = await (await POST(createMockEvent('/api/books', {
+            method: 'POST',
+            body: { title: 'Dune', author: 'Frank Herbert' }
+        }))).json();
+        const id = created.data.id;
+        expect(created.data.narrators).toEqual([]);
+
+        const updated = await (await PUT(createMockEvent(`/api/books/${id}`, {
+            method: 'PUT',
+            body: { narrators: ['Scott Brick', 'Orlagh Cassidy'] }
+        }, { id }))).json();
+        expect(updated.data.narrators).toEqual(['Scott Brick', 'Orlagh Cassidy']);
+
+        const cleared = await (await PUT(createMockEvent(`/api/books/${id}`, {
+            method: 'PUT',
+            body: { narrators: [] }
+        }, { id }))).json();
+        expect(cleared.data.narrators).toEqual([]);
+    });
+
+    it('should filter books by narrator, case-insensitively', async () => {
+        const now = new Date().toISOString();
+        await db.insert(books).values([
+            { id: 'book-a', title: 'Project Hail Mary', author: 'Andy Weir', narrators: ['Ray Porter'], dateAdded: now },
+            { id: 'book-b', title: 'Dune', author: 'Frank Herbert', narrators: ['Scott Brick', 'Orlagh Cassidy'], dateAdded: now },
+            { id: 'book-c', title: 'Emma', author: 'Jane Austen', dateAdded: now }
+        ]);
+
+        const response = await GET(createMockEvent('/api/books?narrator=orlagh%20cassidy'));
+        const result = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(result.data.map((book: { id: string }) => book.id)).toEqual(['book-b']);
+    });
+});
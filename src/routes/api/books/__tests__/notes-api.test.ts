@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { POST as createBook } from '../+server.js';
+import { GET as getBook } from '../[id]/+server.js';
+import { GET as listNotes, POST as addNote } from '../[id]/notes/+server.js';
+import { PUT as updateNote, DELETE as deleteNote } from '../[id]/notes/[noteId]/+server.js';
+import { db } from '$lib/server/db/connection.js';
+import { bookNotes, books, bookTags, tags } from '$lib/server/db/schema.js';
+import { generateId } from '$lib/utils/id.js';
+import { eq } from 'drizzle-orm';
+import { createMockEvent } from '../../../../test-utils.js';
+
+async function seedBook() {
+    const response = await createBook(createMockEvent('/api/books', {
+        method: 'POST',
+        body: { title: 'Project Hail Mary', author: 'Andy Weir' }
+    }));
+    return (await response.json()).data.id as string;
+}
+
+async function postNote(id: string, body: unknown) {
+    const response = await addNote(createMockEvent(`/api/books/${id}/notes`, { method: 'POST', body }, { id }));
+    return { response, result: await response.json() };
+}
+
+describe('Book notes API', () => {
+    beforeEach(async () => {
+        await db.delete(bookNotes);
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+    });
+
+    afterEach(async () => {
+        await db.delete(bookNotes);
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+    });
+
+    it('should add notes and list them newest first', async () => {
+        const id = await seedBook();
+
+        const { response, result } = await postNote(id, { body: '  Recommended by Sam  ' });
+        expect(response.status).toBe(201);
+        expect(result.data.body).toBe('Recommended by Sam');
+
+        const second = await postNote(id, { body: 'Wait for the sale' });
+
+        // Both notes can be added within the same millisecond, so date them apart
+        await db.update(bookNotes).set({ createdAt: '2024-01-01T00:00:00.000Z' }).where(eq(bookNotes.id, result.data.id));
+        await db.update(bookNotes).set({ createdAt: '2024-02-01T00:00:00.000Z' }).where(eq(bookNotes.id, second.result.data.id));
+
+        const listed = await (await listNotes(createMockEvent(`/api/books/${id}/notes`, undefined, { id }))).json();
+        expect(listed.data.map((note: any) => note.body)).toEqual(['Wait for the sale', 'Recommended by Sam']);
+
+        const book = await (await getBook(createMockEvent(`/api/books/${id}`, undefined, { id }))).json();
+        expect(book.data.notes).toHaveLength(2);
+    });
+
+    it('should reject empty notes and notes on missing books', async () => {
+        const id = await seedBook();
+
+        expect((await postNote(id, { body: '   ' })).response.status).toBe(400);
+        expect((await postNote(generateId(), { body: 'Hello' })).response.status).toBe(404);
+    });
+
+    it('should edit and delete a note', async () => {
+        const id = await seedBook();
+        const { result } = await postNote(id, { body: 'First draft' });
+        const noteId = result.data.id;
+
+        const updateResponse = await updateNote(createMockEvent(
+            `/api/books/${id}/notes/${noteId}`,
+            { method: 'PUT', body: { body: 'Second draft' } },
+            { id, noteId }
+        ));
+        const updated = await updateResponse.json();
+        expect(updated.data.body).toBe('Second draft');
+        expect(new Date(updated.data.updatedAt).getTime()).toBeGreaterThanOrEqual(new Date(updated.data.createdAt).getTime());
+
+        const deleteResponse = await deleteNote(createMockEvent(
+            `/api/books/${id}/notes/${noteId}`,
+            { method: 'DELETE', body: {} },
+            { id, noteId }
+        ));
+        expect(deleteResponse.status).toBe(200);
+
+        const missingResponse = await deleteNote(createMockEvent(
+            `/api/books/${id}/notes/${noteId}`,
+            { method: 'DELETE', body: {} },
+            { id, noteId }
+        ));
+        expect(missingResponse.status).toBe(404);
+    });
+
+    it('should remove notes along with their book', async () => {
+        const id = await seedBook();
+        await postNote(id, { body: 'Gone soon' });
+
+        await db.delete(books);
+
+        expect(await db.select().from(bookNotes)).toHaveLength(0);
+    });
+});
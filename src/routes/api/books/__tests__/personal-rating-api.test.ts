@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { POST } from '../+server.js';
+import { PUT } from '../[id]/+server.js';
+import { db } from '$lib/server/db/connection.js';
+import { books, bookTags, tags } from '$lib/server/db/schema.js';
+import { createMockEvent } from '../../../../test-utils.js';
+
+async function createBook(body: Record<string, unknown>) {
+    const response = await POST(createMockEvent('/api/books', { method: 'POST', body }));
+    return (await response.json()).data;
+}
+
+async function updateBook(id: string, body: Record<string, unknown>) {
+    const response = await PUT(createMockEvent(`/api/books/${id}`, { method: 'PUT', body }, { id }));
+    return { response, result: await response.json() };
+}
+
+describe('Books API personal rating and review', () => {
+    beforeEach(async () => {
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+    });
+
+    afterEach(async () => {
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+    });
+
+    it('should store a half-star rating and review apart from the Audible ratings', async () => {
+        const book = await createBook({
+            title: 'Project Hail Mary',
+            author: 'Andy Weir',
+            storyRating: 4.8,
+            personalRating: 4.5,
+            review: '  Rocky is the best.  '
+        });
+
+        expect(book).toMatchObject({ storyRating: 4.8, personalRating: 4.5, review: 'Rocky is the best.' });
+    });
+
+    it('should reject ratings that are not half stars', async () => {
+        const book = await createBook({ title: 'Dune', author: 'Frank Herbert' });
+
+        const { response } = await updateBook(book.id, { personalRating: 4.3 });
+
+        expect(response.status).toBe(400);
+    });
+
+    it('should clear the rating with 0 and the review with an empty string', async () => {
+        const book = await createBook({ title: 'Dune', author: 'Frank Herbert', personalRating: 3, review: 'Slow start' });
+
+        const { result } = await updateBook(book.id, { personalRating: 0, review: '' });
+
+        expect(result.data.personalRating).toBeUndefined();
+        expect(result.data.review).toBeUndefined();
+    });
+
+    it('should let the finished date be set by hand', async () => {
+        const book = await createBook({ title: 'Dune', author: 'Frank Herbert' });
+
+        const { result } = await updateBook(book.id, { status: 'finished', finishedAt: '2024-03-01T12:00:00.000Z' });
+
+        expect(result.data.status).toBe('finished');
+        expect(result.data.finishedAt).toBe('2024-03-01T12:00:00.000Z');
+    });
+
+    it('should reject an invalid finished date', async () => {
+        const book = await createBook({ title: 'Dune', author: 'Frank Herbert' });
+
+        const { response } = await updateBook(book.id, { finishedAt: 'last week' });
+
+        expect(response.status).toBe(400);
+    });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { POST } from '../+server.js';
+import { PUT } from '../[id]/+server.js';
+import { GET as listSeries } from '../../series/+server.js';
+import { PUT as updateSeries } from '../../series/[id]/+server.js';
+import { db } from '$lib/server/db/connection.js';
+import { books, bookTags, series, tags } from '$lib/server/db/schema.js';
+import { createMockEvent } from '../../../../test-utils.js';
+
+async function createBook(body: Record<string, unknown>) {
+    const response = await POST(createMockEvent('/api/books', { method: 'POST', body }));
+    return (await response.json()).data;
+}
+
+async function updateBook(id: string, body: Record<string, unknown>) {
+    const response = await PUT(createMockEvent(`/api/books/${id}`, { method: 'PUT', body }, { id }));
+    return { response, result: await response.json() };
+}
+
+async function clearTables() {
+    await db.delete(bookTags);
+    await db.delete(books);
+    await db.delete(tags);
+    await db.delete(series);
+}
+
+describe('Books API series', () => {
+    beforeEach(clearTables);
+    afterEach(clearTables);
+
+    it('should create a series the first time it is named', async () => {
+        const book = await createBook({
+            title: 'Leviathan Wakes',
+            author: 'James S. A. Corey',
+            seriesName: 'The Expanse',
+            seriesTotalVolumes: 9,
+            seriesPosition: 1
+        });
+
+        expect(book.series).toEqual({ id: expect.any(String), name: 'The Expanse', totalVolumes: 9 });
+        expect(book.seriesPosition).toBe(1);
+    });
+
+    it('should match an existing series by name regardless of case', async () => {
+        const first = await createBook({ title: 'Leviathan Wakes', author: 'Corey', seriesName: 'The Expanse', seriesPosition: 1 });
+        const second = await createBook({ title: "Caliban's War", author: 'Corey', seriesName: 'the expanse', seriesPosition: 2 });
+
+        expect(second.series.id).toBe(first.series.id);
+        expect(second.series.name).toBe('The Expanse');
+    });
+
+    it('should move a book out of its series when the name is empty', async () => {
+        const book = await createBook({ title: 'Leviathan Wakes', author: 'Corey', seriesName: 'The Expanse', seriesPosition: 1 });
+
+        const { result } = await updateBook(book.id, { seriesName: '' });
+
+        expect(result.data.series).toBeUndefined();
+        expect(result.data.seriesPosition).toBeUndefined();
+    });
+
+    it('should reject an invalid series position', async () => {
+        const book = await createBook({ title: 'Leviathan Wakes', author: 'Corey' });
+
+        const { response } = await updateBook(book.id, { seriesPosition: -1 });
+
+        expect(response.status).toBe(400);
+    });
+
+    it('should clear the series position and length when they are sent as null', async () => {
+        const book = await createBook({
+            title: 'Dune', author: 'Frank Herbert', seriesName: 'Dune', seriesPosition: 1, durationMinutes: 1262
+        });
+
+        const { response, result } = await updateBook(book.id, { seriesPosition: null, durationMinutes: null });
+
+        expect(response.status).toBe(200);
+        expect(result.data.series.name).toBe('Dune');
+        expect(result.data.seriesPosition).toBeUndefined();
+        expect(result.data.durationMinutes).toBeUndefined();
+    });
+
+    it('should list series with their book counts', async () => {
+        await createBook({ title: 'Leviathan Wakes', author: 'Corey', seriesName: 'The Expanse', seriesPosition: 1 });
+        await createBook({ title: "Caliban's War", author: 'Corey', seriesName: 'The Expanse', seriesPosition: 2 });
+        await createBook({ title: 'Dune', author: 'Frank Herbert', seriesName: 'Dune', seriesTotalVolumes: 6, seriesPosition: 1 });
+
+        const result = await (await listSeries(createMockEvent('/api/series'))).json();
+
+        expect(result.data).toEqual([
+            expect.objectContaining({ name: 'Dune', totalVolumes: 6, bookCount: 1 }),
+            expect.objectContaining({ name: 'The Expanse', bookCount: 2 })
+        ]);
+    });
+
+    it('should update the total volumes of a series', async () => {
+        const book = await createBook({ title: 'Dune', author: 'Frank Herbert', seriesName: 'Dune', seriesPosition: 1 });
+
+        const response = await updateSeries(createMockEvent(
+            `/api/series/${book.series.id}`,
+            { method: 'PUT', body: { totalVolumes: 6 } },
+            { id: book.series.id }
+        ));
+        const result = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(result.data).toEqual({ id: book.series.id, name: 'Dune', totalVolumes: 6 });
+    });
+
+    it('should reject an empty name and a name another series has', async () => {
+        const dune = await createBook({ title: 'Dune', author: 'Frank Herbert', seriesName: 'Dune' });
+        await createBook({ title: 'Foundation', author: 'Isaac Asimov', seriesName: 'Foundation' });
+        const rename = (name: string) => updateSeries(createMockEvent(
+            `/api/series/${dune.series.id}`,
+            { method: 'PUT', body: { name } },
+            { id: dune.series.id }
+        ));
+
+        expect((await rename('  ')).status).toBe(400);
+        expect((await rename('foundation')).status).toBe(409);
+
+        const response = await rename('DUNE');
+        expect(response.status).toBe(200);
+        expect((await response.json()).data.name).toBe('DUNE');
+    });
+
+    it('should return 404 for an unknown series', async () => {
+        const response = await updateSeries(createMockEvent(
+            '/api/series/missing',
+            { method: 'PUT', body: { totalVolumes: 6 } },
+            { id: 'missing' }
+        ));
+
+        expect(response.status).toBe(404);
+    });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GET, POST } from '../+server.js';
+import { PUT } from '../[id]/+server.js';
+import { db } from '$lib/server/db/connection.js';
+import { books, bookTags, tags } from '$lib/server/db/schema.js';
+import { generateId } from '$lib/utils/id.js';
+import { createMockEvent } from '../../../../test-utils.js';
+
+async function createBook(body: Record<string, unknown>) {
+    const response = await POST(createMockEvent('/api/books', { method: 'POST', body }));
+    return (await response.json()).data;
+}
+
+async function updateBook(id: string, body: Record<string, unknown>) {
+    const response = await PUT(createMockEvent(`/api/books/${id}`, { method: 'PUT', body }, { id }));
+    return (await response.json()).data;
+}
+
+function tagNames(book: { tags: Array<{ name: string }> }) {
+    return book.tags.map(tag => tag.name).sort();
+}
+
+async function setStatus(id: string, status: string) {
+    const response = await PUT(createMockEvent(`/api/books/${id}`, { method: 'PUT', body: { status } }, { id }));
+    return { response, result: await response.json() };
+}
+
+describe('Books API listening status', () => {
+    beforeEach(async () => {
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+    });
+
+    afterEach(async () => {
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+    });
+
+    it('should start new books on the wishlist', async () => {
+        const book = await createBook({ title: 'Dune', author: 'Frank Herbert' });
+
+        expect(book.status).toBe('wishlist');
+        expect(book.queuedAt).toBeUndefined();
+    });
+
+    it('should record when each transition happened', async () => {
+        const book = await createBook({ title: 'Dune', author: 'Frank Herbert', status: 'queued' });
+        expect(book.queuedAt).toEqual(expect.any(String));
+
+        const { result: listening } = await setStatus(book.id, 'listening');
+        expect(listening.data.status).toBe('listening');
+        expect(listening.data.queuedAt).toBe(book.queuedAt);
+        expect(listening.data.startedAt).toEqual(expect.any(String));
+
+        const { result: finished } = await setStatus(book.id, 'finished');
+        expect(finished.data.status).toBe('finished');
+        expect(finished.data.startedAt).toBe(listening.data.startedAt);
+        expect(finished.data.finishedAt).toEqual(expect.any(String));
+    });
+
+    it('should keep the timestamp when the status does not change', async () => {
+        const book = await createBook({ title: 'Dune', author: 'Frank Herbert', status: 'listening' });
+
+        const { result } = await setStatus(book.id, 'listening');
+
+        expect(result.data.startedAt).toBe(book.startedAt);
+    });
+
+    it('should add and remove the next tag as books enter and leave the queue', async () => {
+        const funny = { id: generateId(), name: 'funny', color: '#fbbf24' };
+        const book = await createBook({ title: 'Dune', author: 'Frank Herbert', tags: [funny] });
+
+        const { result: queued } = await setStatus(book.id, 'queued');
+        expect(tagNames(queued.data)).toEqual(['funny', 'next']);
+
+        const { result: listening } = await setStatus(book.id, 'listening');
+        expect(tagNames(listening.data)).toEqual(['funny']);
+    });
+
+    it('should queue books tagged next and unqueue them when the tag is removed', async () => {
+        const next = { id: generateId(), name: 'next', color: '#10b981' };
+        const created = await createBook({ title: 'Dune', author: 'Frank Herbert', tags: [next] });
+        expect(created.status).toBe('queued');
+        expect(created.queuedAt).toEqual(expect.any(String));
+
+        const untagged = await updateBook(created.id, { tags: [] });
+        expect(untagged.status).toBe('wishlist');
+
+        const tagged = await updateBook(created.id, { tags: [next] });
+        expect(tagged.status).toBe('queued');
+        expect(tagNames(tagged)).toEqual(['next']);
+    });
+
+    it('should reject unknown statuses', async () => {
+        const book = await createBook({ title: 'Dune', author: 'Frank Herbert' });
+
+        const { response } = await setStatus(book.id, 'read');
+
+        expect(response.status).toBe(400);
+    });
+
+    it('should filter books by one or more statuses', async () => {
+        const now = new Date().toISOString();
+        await db.insert(books).values([
+            { id: 'book-a', title: 'A', author: 'X', dateAdded: now },
+            { id: 'book-b', title: 'B', author: 'X', status: 'listening', startedAt: now, dateAdded: now },
+            { id: 'book-c', title: 'C', author: 'X', status: 'finished', finishedAt: now, dateAdded: now }
+        ]);
+
+        const listening = await (await GET(createMockEvent('/api/books?status=listening'))).json();
+        expect(listening.data.map((book: { id: string }) => book.id)).toEqual(['book-b']);
+
+        const done = await (await GET(createMockEvent('/api/books?status=listening,finished'))).json();
+        expect(done.data.map((book: { id: string }) => book.id).sort()).toEqual(['book-b', 'book-c']);
+    });
+
+    it('should return 400 for an unknown status filter', async () => {
+        const response = await GET(createMockEvent('/api/books?status=read'));
+
+        expect(response.status).toBe(400);
+    });
+});
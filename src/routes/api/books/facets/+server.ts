@@ -0,0 +1,68 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getBookFacets } from '$lib/server/books/book-facets.js';
+import { parseBookQueryParams } from '$lib/server/books/book-params.js';
+import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
+import {
+    createSuccessResponse,
+    createErrorResponse,
+    classifyDatabaseError,
+    getErrorStatus,
+    sanitizeErrorDetails
+} from '$lib/server/utils/errors.js';
+
+const requestLogger = createRequestLogger();
+
+// GET /api/books/facets - Count the books each filter option would leave, with the same filters as GET /api/books
+export const GET: RequestHandler = async ({ request, url }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+
+    try {
+        const parsed = parseBookQueryParams(url.searchParams);
+
+        if (!parsed.success) {
+            ServerLogger.warn('Invalid facet query provided', 'API_BOOK_FACETS_GET', requestId, {
+                query: Object.fromEntries(url.searchParams)
+            });
+
+            const errorResponse = createErrorResponse(
+                'VALIDATION_ERROR',
+                parsed.error,
+                { query: Object.fromEntries(url.searchParams) },
+                requestId
+            );
+
+            logRequest(400);
+            return json(errorResponse, { status: 400 });
+        }
+
+        const facets = getBookFacets(parsed.query);
+
+        const response = createSuccessResponse(
+            facets,
+            `Counted facets for ${facets.total} books`,
+            requestId
+        );
+
+        logRequest(200);
+        return json(response);
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to count book facets', err, 'API_BOOK_FACETS_GET', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to count book facets',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
@@ -0,0 +1,72 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+    createExportStream,
+    getExportFileName,
+    isStreamExportFormat,
+    STREAM_EXPORT_FORMATS
+} from '$lib/server/export/wishlist-export.js';
+import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
+import {
+    createErrorResponse,
+    classifyDatabaseError,
+    getErrorStatus,
+    sanitizeErrorDetails
+} from '$lib/server/utils/errors.js';
+
+const requestLogger = createRequestLogger();
+
+// GET /api/export?format=json|csv|ndjson - Stream the whole wishlist as a download
+export const GET: RequestHandler = async ({ request, url }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+
+    try {
+        const format = url.searchParams.get('format') ?? 'json';
+
+        if (!isStreamExportFormat(format)) {
+            ServerLogger.warn(`Unsupported export format: ${format}`, 'API_EXPORT_GET', requestId);
+
+            const errorResponse = createErrorResponse(
+                'VALIDATION_ERROR',
+                `Unsupported export format. Use one of: ${Object.keys(STREAM_EXPORT_FORMATS).join(', ')}`,
+                { format },
+                requestId
+            );
+
+            logRequest(400);
+            return json(errorResponse, { status: 400 });
+        }
+
+        ServerLogger.info('Streaming wishlist export', 'API_EXPORT_GET', requestId, { format });
+
+        const fileName = getExportFileName(format);
+        const stream = createExportStream(format);
+
+        logRequest(200);
+        return new Response(stream, {
+            headers: {
+                'Content-Type': STREAM_EXPORT_FORMATS[format].contentType,
+                'Content-Disposition': `attachment; filename="${fileName}"`,
+                'Cache-Control': 'no-store'
+            }
+        });
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to export wishlist', err, 'API_EXPORT_GET', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to export wishlist',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
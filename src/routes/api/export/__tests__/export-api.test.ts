@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GET } from '../+server.js';
+import { db } from '$lib/server/db/connection.js';
+import { tags, bookTags, books } from '$lib/server/db/schema.js';
+import { parseCsv } from '$lib/utils/csv.js';
+import { parseAudibleCsv } from '$lib/utils/audible-import.js';
+
+// Mock request event helper; the request logger needs a real URL and headers
+function createMockEvent(query: string) {
+    const url = new URL(`http://localhost/api/export${query}`);
+    return { request: new Request(url), url } as any;
+}
+
+async function seedWishlist() {
+    const now = new Date('2024-05-01T10:00:00.000Z').toISOString();
+    await db.insert(tags).values([
+        { id: 'tag-funny', name: 'funny', color: '#fbbf24', createdAt: now },
+        { id: 'tag-next', name: 'next', color: '#10b981', createdAt: now }
+    ]);
+    await db.insert(books).values([
+        { id: 'book-a', title: 'Dune', author: 'Frank Herbert', storyRating: 4.5, queuePosition: 2, dateAdded: now },
+        { id: 'book-b', title: 'Emma, "Revised"', author: 'Jane Austen', dateAdded: now }
+    ]);
+    await db.insert(bookTags).values([
+        { bookId: 'book-a', tagId: 'tag-funny' },
+        { bookId: 'book-a', tagId: 'tag-next' }
+    ]);
+}
+
+describe('Export API', () => {
+    beforeEach(async () => {
+        // Clean up database before each test
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+    });
+
+    afterEach(async () => {
+        // Clean up database after each test
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+    });
+
+    describe('GET /api/export', () => {
+        it('should stream JSON with books, tags, book_tags and queue positions', async () => {
+            await seedWishlist();
+
+            const response = await GET(createMockEvent('?format=json'));
+            const data = JSON.parse(await response.text());
+
+            expect(response.status).toBe(200);
+            expect(response.headers.get('Content-Type')).toContain('application/json');
+            expect(response.headers.get('Content-Disposition')).toMatch(
+                /^attachment; filename="audiobook-wishlist-\d{4}-\d{2}-\d{2}\.json"$/
+            );
+            expect(data.books).toHaveLength(2);
+            expect(data.books[0]).toMatchObject({
+                id: 'book-a',
+                storyRating: 4.5,
+                queuePosition: 2,
+                dateAdded: '2024-05-01T10:00:00.000Z'
+            });
+            expect(data.books[0].tags.map((tag: any) => tag.name)).toEqual(['funny', 'next']);
+            expect(data.tags.map((tag: any) => tag.name)).toEqual(['funny', 'next']);
+            expect(data.bookTags).toEqual([
+                { bookId: 'book-a', tagId: 'tag-funny' },
+                { bookId: 'book-a', tagId: 'tag-next' }
+            ]);
+        });
+
+        it('should default to JSON', async () => {
+            const response = await GET(createMockEvent(''));
+            const data = JSON.parse(await response.text());
+
+            expect(data).toMatchObject({ books: [], tags: [], bookTags: [] });
+        });
+
+        it('should stream CSV readable by the CSV importer', async () => {
+            await seedWishlist();
+
+            const response = await GET(createMockEvent('?format=csv'));
+            const text = await response.text();
+
+            expect(response.headers.get('Content-Disposition')).toContain('.csv"');
+            expect(parseCsv(text)[0]).toContain('Queue Position');
+
+            const imported = parseAudibleCsv(text);
+            expect(imported.errors).toEqual([]);
+            expect(imported.books.map(book => book.title)).toEqual(['Dune', 'Emma, "Revised"']);
+            expect(imported.books[0].tags?.map(tag => tag.name)).toEqual(['funny', 'next']);
+        });
+
+        it('should stream one typed record per line as NDJSON', async () => {
+            await seedWishlist();
+
+            const response = await GET(createMockEvent('?format=ndjson'));
+            const records = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+
+            expect(response.headers.get('Content-Type')).toContain('application/x-ndjson');
+            expect(records.map(record => record.type)).toEqual([
+                'meta', 'tag', 'tag', 'book', 'book', 'bookTag', 'bookTag'
+            ]);
+            expect(records[3]).toMatchObject({ id: 'book-a', queuePosition: 2 });
+        });
+
+        it('should page through more books than fit in one batch', async () => {
+            const now = new Date().toISOString();
+            await db.insert(books).values(Array.from({ length: 450 }, (_, index) => ({
+                id: `book-${String(index).padStart(4, '0')}`,
+                title: `Book ${index}`,
+                author: 'Author',
+                dateAdded: now
+            })));
+
+            const response = await GET(createMockEvent('?format=ndjson'));
+            const bookIds = (await response.text())
+                .trim()
+                .split('\n')
+                .map(line => JSON.parse(line))
+                .filter(record => record.type === 'book')
+                .map(record => record.id);
+
+            expect(bookIds).toHaveLength(450);
+            expect(new Set(bookIds).size).toBe(450);
+        });
+
+        it('should reject unsupported formats', async () => {
+            const response = await GET(createMockEvent('?format=xml'));
+            const data = await response.json();
+
+            expect(response.status).toBe(400);
+            expect(data.error).toBe('VALIDATION_ERROR');
+        });
+    });
+});
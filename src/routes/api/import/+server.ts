@@ -0,0 +1,110 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { previewBulkImport, runBulkImport } from '$lib/server/import/bulk-import.js';
+import { IMPORT_STRATEGIES, type BulkImportRequest } from '$lib/types/import.js';
+import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
+import {
+    createSuccessResponse,
+    createErrorResponse,
+    classifyDatabaseError,
+    getErrorStatus,
+    sanitizeErrorDetails
+} from '$lib/server/utils/errors.js';
+
+const requestLogger = createRequestLogger();
+
+/**
+ * Type guard for the bulk import payload
+ */
+function isValidBulkImportRequest(body: any): body is BulkImportRequest {
+    return (
+        !!body &&
+        typeof body === 'object' &&
+        Array.isArray(body.books) &&
+        IMPORT_STRATEGIES.includes(body.strategy) &&
+        (body.dryRun === undefined || typeof body.dryRun === 'boolean') &&
+        (body.sourceFileName === undefined || typeof body.sourceFileName === 'string')
+    );
+}
+
+// POST /api/import - Import a batch of books in a single transaction, or preview it with dryRun
+export const POST: RequestHandler = async ({ request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+
+    try {
+        const body = await request.json();
+
+        if (!isValidBulkImportRequest(body)) {
+            ServerLogger.warn('Invalid import payload provided', 'API_IMPORT_POST', requestId, {
+                strategy: body?.strategy,
+                hasBooks: Array.isArray(body?.books)
+            });
+
+            const errorResponse = createErrorResponse(
+                'VALIDATION_ERROR',
+                `Import payload must include a books array and a strategy (${IMPORT_STRATEGIES.join(', ')})`,
+                sanitizeErrorDetails({ strategy: body?.strategy }),
+                requestId
+            );
+
+            logRequest(400);
+            return json(errorResponse, { status: 400 });
+        }
+
+        ServerLogger.info(body.dryRun ? 'Previewing import' : 'Importing books', 'API_IMPORT_POST', requestId, {
+            bookCount: body.books.length,
+            strategy: body.strategy
+        });
+
+        if (body.dryRun) {
+            const preview = previewBulkImport(body.books, body.strategy);
+
+            const response = createSuccessResponse(
+                preview,
+                `Import would create ${preview.created}, update ${preview.updated} and skip ${preview.skipped} books`,
+                requestId
+            );
+
+            logRequest(200);
+            return json(response);
+        }
+
+        const result = runBulkImport(body.books, body.strategy, body.sourceFileName);
+
+        ServerLogger.info('Successfully imported books', 'API_IMPORT_POST', requestId, {
+            created: result.created,
+            updated: result.updated,
+            skipped: result.skipped,
+            deleted: result.deleted,
+            warnings: result.warnings.length,
+            sessionId: result.sessionId
+        });
+
+        const response = createSuccessResponse(
+            result,
+            `Imported ${result.created + result.updated} books (${result.skipped} skipped)`,
+            requestId
+        );
+
+        logRequest(200);
+        return json(response);
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to import books', err, 'API_IMPORT_POST', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to import books; no changes were saved',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
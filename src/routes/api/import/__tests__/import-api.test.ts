@@ -0,0 +1,354 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { POST } from '../+server.js';
+import { db } from '$lib/server/db/connection.js';
+import { tags, bookTags, books, importSessions, series } from '$lib/server/db/schema.js';
+import { eq } from 'drizzle-orm';
+import { generateId } from '$lib/utils/id.js';
+
+// Mock request event helper; the request logger needs a real URL and headers
+function createMockRequest(body?: any) {
+    return {
+        request: new Request('http://localhost/api/import', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        })
+    } as any;
+}
+
+async function insertBook(title: string, author: string, id = generateId()) {
+    await db.insert(books).values({
+        id,
+        title,
+        author,
+        dateAdded: new Date().toISOString()
+    });
+    return id;
+}
+
+describe('Import API', () => {
+    beforeEach(async () => {
+        // Clean up database before each test
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+        await db.delete(importSessions);
+        await db.delete(series);
+    });
+
+    afterEach(async () => {
+        // Clean up database after each test
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+        await db.delete(importSessions);
+        await db.delete(series);
+    });
+
+    describe('POST /api/import', () => {
+        it('should reject payloads without books or with an unknown strategy', async () => {
+            const missingBooks = await POST(createMockRequest({ strategy: 'merge' }));
+            expect(missingBooks.status).toBe(400);
+
+            const badStrategy = await POST(createMockRequest({ books: [], strategy: 'overwrite' }));
+            const data = await badStrategy.json();
+            expect(badStrategy.status).toBe(400);
+            expect(data.success).toBe(false);
+        });
+
+        it('should replace all existing books', async () => {
+            await insertBook('Old Book', 'Old Author');
+
+            const response = await POST(createMockRequest({
+                strategy: 'replace',
+                books: [
+                    { title: 'Dune', author: 'Frank Herbert', tags: [{ name: 'sci-fi', color: '#6b7280' }] },
+                    { title: 'Emma', author: 'Jane Austen' }
+                ]
+            }));
+            const data = await response.json();
+
+            expect(response.status).toBe(200);
+            expect(data.data).toMatchObject({ strategy: 'replace', created: 2, updated: 0, skipped: 0, deleted: 1 });
+
+            const allBooks = await db.select().from(books);
+            expect(allBooks.map(book => book.title).sort()).toEqual(['Dune', 'Emma']);
+
+            const allTags = await db.select().from(tags);
+            expect(allTags.map(tag => tag.name)).toEqual(['sci-fi']);
+            expect(await db.select().from(bookTags)).toHaveLength(1);
+        });
+
+        it('should merge by title and author and keep existing fields that are not provided', async () => {
+            const bookId = await insertBook('Dune', 'Frank Herbert');
+            await db.update(books).set({ description: 'Spice' }).where(eq(books.id, bookId));
+
+            const response = await POST(createMockRequest({
+                strategy: 'merge',
+                books: [
+                    { title: 'dune', author: 'frank herbert', storyRating: 4.5 },
+                    { title: 'Emma', author: 'Jane Austen' }
+                ]
+            }));
+            const data = await response.json();
+
+            expect(data.data).toMatchObject({ created: 1, updated: 1, skipped: 0, deleted: 0 });
+
+            const [merged] = await db.select().from(books).where(eq(books.id, bookId));
+            expect(merged.storyRating).toBe(4.5);
+            expect(merged.description).toBe('Spice');
+        });
+
+        it('should skip duplicates with a warning per book', async () => {
+            const bookId = await insertBook('Dune', 'Frank Herbert');
+
+            const response = await POST(createMockRequest({
+                strategy: 'skip-duplicates',
+                books: [
+                    { id: bookId, title: 'Dune (Renamed)', author: 'Frank Herbert' },
+                    { title: 'Dune', author: 'Frank Herbert' },
+                    { title: 'Emma', author: 'Jane Austen' }
+                ]
+            }));
+            const data = await response.json();
+
+            expect(data.data).toMatchObject({ created: 1, updated: 0, skipped: 2 });
+            expect(data.data.warnings).toEqual([
+                { index: 0, title: 'Dune (Renamed)', message: 'Skipped duplicate book' },
+                { index: 1, title: 'Dune', message: 'Skipped duplicate book' }
+            ]);
+        });
+
+        it('should skip invalid books and keep ids and dates from backups', async () => {
+            const response = await POST(createMockRequest({
+                strategy: 'merge',
+                books: [
+                    { id: 'backup-id', title: 'Dune', author: 'Frank Herbert', dateAdded: '2024-01-02T00:00:00.000Z' },
+                    { title: '', author: 'Nobody' },
+                    { title: 'Too Good', author: 'A', storyRating: 7 }
+                ]
+            }));
+            const data = await response.json();
+
+            expect(data.data).toMatchObject({ created: 1, skipped: 2 });
+            expect(data.data.warnings.map((warning: any) => warning.index)).toEqual([1, 2]);
+
+            const [created] = await db.select().from(books);
+            expect(created.id).toBe('backup-id');
+            expect(created.dateAdded).toBe('2024-01-02T00:00:00.000Z');
+        });
+
+        it('should keep listening status and transition times from backups', async () => {
+            await POST(createMockRequest({
+                strategy: 'replace',
+                books: [{
+                    title: 'Dune',
+                    author: 'Frank Herbert',
+                    status: 'finished',
+                    startedAt: '2024-02-01T00:00:00.000Z',
+                    finishedAt: '2024-03-01T00:00:00.000Z'
+                }]
+            }));
+
+            const [created] = await db.select().from(books);
+            expect(created).toMatchObject({
+                status: 'finished',
+                queuedAt: null,
+                startedAt: '2024-02-01T00:00:00.000Z',
+                finishedAt: '2024-03-01T00:00:00.000Z'
+            });
+        });
+
+        it('should restore series from exported books', async () => {
+            await POST(createMockRequest({
+                strategy: 'replace',
+                books: [
+                    {
+                        title: 'Leviathan Wakes',
+                        author: 'James S. A. Corey',
+                        series: { id: 'old-series', name: 'The Expanse', totalVolumes: 9 },
+                        seriesPosition: 1
+                    },
+                    {
+                        title: "Caliban's War",
+                        author: 'James S. A. Corey',
+                        seriesName: 'The Expanse',
+                        seriesPosition: 2
+                    }
+                ]
+            }));
+
+            const allSeries = await db.select().from(series);
+            expect(allSeries).toEqual([expect.objectContaining({ name: 'The Expanse', totalVolumes: 9 })]);
+
+            const created = await db.select().from(books);
+            expect(created.map(book => [book.seriesId, book.seriesPosition]).sort()).toEqual([
+                [allSeries[0].id, 1],
+                [allSeries[0].id, 2]
+            ]);
+        });
+
+        it('should queue imported books tagged next and tag imported queued books', async () => {
+            await POST(createMockRequest({
+                strategy: 'merge',
+                books: [
+                    { title: 'Dune', author: 'Frank Herbert', tags: [{ name: 'next', color: '#f59e0b' }] },
+                    { title: 'Emma', author: 'Jane Austen', status: 'queued' }
+                ]
+            }));
+
+            const created = await db
+                .select({ title: books.title, status: books.status, queuedAt: books.queuedAt, tagName: tags.name })
+                .from(books)
+                .leftJoin(bookTags, eq(bookTags.bookId, books.id))
+                .leftJoin(tags, eq(tags.id, bookTags.tagId))
+                .orderBy(books.title);
+            expect(created).toEqual([
+                { title: 'Dune', status: 'queued', queuedAt: expect.any(String), tagName: 'next' },
+                { title: 'Emma', status: 'queued', queuedAt: expect.any(String), tagName: 'next' }
+            ]);
+        });
+
+        it('should keep the queued status and the next tag in step when merging', async () => {
+            const now = new Date().toISOString();
+            const duneId = await insertBook('Dune', 'Frank Herbert');
+            const emmaId = await insertBook('Emma', 'Jane Austen');
+            const nextId = generateId();
+            await db.insert(tags).values({ id: nextId, name: 'next', color: '#f59e0b', createdAt: now });
+            await db.update(books).set({ status: 'queued', queuedAt: now }).where(eq(books.id, emmaId));
+            await db.insert(bookTags).values({ bookId: emmaId, tagId: nextId });
+
+            const payload = {
+                strategy: 'merge',
+                books: [
+                    { title: 'Dune', author: 'Frank Herbert', tags: [{ name: 'next', color: '#f59e0b' }] },
+                    { title: 'Emma', author: 'Jane Austen', tags: [] }
+                ]
+            };
+
+            const preview = (await (await POST(createMockRequest({ ...payload, dryRun: true }))).json()).data;
+            expect(preview.entries.map((entry: any) => [entry.changes, entry.addedTags, entry.removedTags])).toEqual([
+                [[{ field: 'status', from: 'wishlist', to: 'queued' }], ['next'], []],
+                [[{ field: 'status', from: 'queued', to: 'wishlist' }], [], ['next']]
+            ]);
+
+            await POST(createMockRequest(payload));
+
+            const [dune] = await db.select().from(books).where(eq(books.id, duneId));
+            const [emma] = await db.select().from(books).where(eq(books.id, emmaId));
+            expect(dune.status).toBe('queued');
+            expect(emma.status).toBe('wishlist');
+            expect(await db.select().from(bookTags)).toEqual([{ bookId: duneId, tagId: nextId }]);
+        });
+
+        it('should count books created earlier in the same payload as duplicates', async () => {
+            const response = await POST(createMockRequest({
+                strategy: 'skip-duplicates',
+                books: [
+                    { title: 'Dune', author: 'Frank Herbert' },
+                    { title: 'DUNE', author: 'Frank Herbert' }
+                ]
+            }));
+            const data = await response.json();
+
+            expect(data.data).toMatchObject({ created: 1, skipped: 1 });
+        });
+    });
+
+    describe('POST /api/import with dryRun', () => {
+        it('should report matches, field changes and tag changes without writing', async () => {
+            const bookId = await insertBook('Dune', 'Frank Herbert');
+            const tagId = generateId();
+            await db.update(books).set({ storyRating: 4 }).where(eq(books.id, bookId));
+            await db.insert(tags).values({ id: tagId, name: 'classic', color: '#6b7280', createdAt: new Date().toISOString() });
+            await db.insert(bookTags).values({ bookId, tagId });
+
+            const response = await POST(createMockRequest({
+                strategy: 'merge',
+                dryRun: true,
+                books: [
+                    {
+                        title: 'DUNE',
+                        author: 'Frank Herbert',
+                        storyRating: 4.5,
+                        tags: [{ name: 'sci-fi', color: '#6b7280' }]
+                    },
+                    { id: bookId, title: 'Dune', author: 'Frank Herbert', storyRating: 4 },
+                    { title: 'Emma', author: 'Jane Austen', tags: [{ name: 'classic', color: '#6b7280' }] },
+                    { title: '', author: 'Nobody' }
+                ]
+            }));
+            const data = await response.json();
+
+            expect(response.status).toBe(200);
+            expect(data.data).toMatchObject({ strategy: 'merge', created: 1, updated: 2, skipped: 1, deleted: 0 });
+
+            const [first, second, third, fourth] = data.data.entries;
+            expect(first).toMatchObject({
+                action: 'update',
+                matchedBookId: bookId,
+                matchedBy: 'title-author',
+                addedTags: ['sci-fi'],
+                removedTags: ['classic']
+            });
+            expect(first.changes).toEqual([
+                { field: 'title', from: 'Dune', to: 'DUNE' },
+                { field: 'storyRating', from: 4, to: 4.5 }
+            ]);
+            // Later rows are compared against the result of earlier ones
+            expect(second).toMatchObject({ action: 'update', matchedBy: 'id' });
+            expect(second.changes).toEqual([
+                { field: 'title', from: 'DUNE', to: 'Dune' },
+                { field: 'storyRating', from: 4.5, to: 4 }
+            ]);
+            expect(third).toMatchObject({ action: 'create', addedTags: ['classic'], changes: [] });
+            expect(fourth).toMatchObject({ action: 'invalid', message: 'Invalid book data' });
+
+            const [unchanged] = await db.select().from(books).where(eq(books.id, bookId));
+            expect(unchanged.title).toBe('Dune');
+            expect(unchanged.storyRating).toBe(4);
+            expect(await db.select().from(books)).toHaveLength(1);
+            expect(await db.select().from(tags)).toHaveLength(1);
+        });
+
+        it('should apply exactly what the preview reported', async () => {
+            await insertBook('Dune', 'Frank Herbert');
+            const payload = {
+                strategy: 'skip-duplicates',
+                books: [
+                    { title: 'Dune', author: 'Frank Herbert' },
+                    { title: 'Emma', author: 'Jane Austen' }
+                ]
+            };
+
+            const preview = await (await POST(createMockRequest({ ...payload, dryRun: true }))).json();
+            const result = await (await POST(createMockRequest(payload))).json();
+
+            expect(preview.data.entries.map((entry: any) => entry.action)).toEqual(['skip', 'create']);
+            expect(result.data).toMatchObject({
+                created: preview.data.created,
+                updated: preview.data.updated,
+                skipped: preview.data.skipped
+            });
+        });
+
+        it('should report every book as new when replacing', async () => {
+            await insertBook('Dune', 'Frank Herbert');
+
+            const response = await POST(createMockRequest({
+                strategy: 'replace',
+                dryRun: true,
+                books: [{ title: 'Dune', author: 'Frank Herbert' }]
+            }));
+            const data = await response.json();
+
+            expect(data.data).toMatchObject({ created: 1, updated: 0, deleted: 1 });
+            expect(await db.select().from(books)).toHaveLength(1);
+        });
+
+        it('should reject a non-boolean dryRun flag', async () => {
+            const response = await POST(createMockRequest({ strategy: 'merge', books: [], dryRun: 'yes' }));
+            expect(response.status).toBe(400);
+        });
+    });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { POST as importBooks } from '../+server.js';
+import { GET as getSessions } from '../sessions/+server.js';
+import { POST as undoImport } from '../undo/+server.js';
+import { db } from '$lib/server/db/connection.js';
+import { tags, bookTags, bookNotes, books, importSessions, series } from '$lib/server/db/schema.js';
+import { eq } from 'drizzle-orm';
+import { generateId } from '$lib/utils/id.js';
+
+// Mock request event helper; the request logger needs a real URL and headers
+function createMockRequest(path: string, body?: any) {
+    return {
+        request: new Request(`http://localhost${path}`, {
+            method: body === undefined ? 'GET' : 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: body === undefined ? undefined : JSON.stringify(body)
+        })
+    } as any;
+}
+
+async function runImport(body: any) {
+    const response = await importBooks(createMockRequest('/api/import', body));
+    return (await response.json()).data;
+}
+
+async function undo() {
+    return undoImport(createMockRequest('/api/import/undo', {}));
+}
+
+async function seedBook(title: string, tagName?: string) {
+    const bookId = generateId();
+    const now = new Date().toISOString();
+    await db.insert(books).values({ id: bookId, title, author: 'Author', storyRating: 3, dateAdded: now });
+
+    if (tagName) {
+        const tagId = generateId();
+        await db.insert(tags).values({ id: tagId, name: tagName, color: '#6b7280', createdAt: now });
+        await db.insert(bookTags).values({ bookId, tagId });
+    }
+
+    return bookId;
+}
+
+describe('Import sessions API', () => {
+    beforeEach(async () => {
+        // Clean up database before each test
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+        await db.delete(series);
+        await db.delete(importSessions);
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+
+        // Clean up database after each test
+        await db.delete(bookTags);
+        await db.delete(books);
+        await db.delete(tags);
+        await db.delete(series);
+        await db.delete(importSessions);
+    });
+
+    it('should record each import with its source file name and counts', async () => {
+        await seedBook('Dune');
+        const result = await runImport({
+            strategy: 'skip-duplicates',
+            sourceFileName: 'page-1.csv',
+            books: [
+                { title: 'Dune', author: 'Author' },
+                { title: 'Emma', author: 'Jane Austen' }
+            ]
+        });
+
+        const response = await getSessions(createMockRequest('/api/import/sessions'));
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.data).toHaveLength(1);
+        expect(data.data[0]).toMatchObject({
+            id: result.sessionId,
+            sourceFileName: 'page-1.csv',
+            strategy: 'skip-duplicates',
+            created: 1,
+            updated: 0,
+            skipped: 1,
+            deleted: 0,
+            undoneAt: null
+        });
+    });
+
+    it('should not record dry-runs', async () => {
+        await runImport({ strategy: 'merge', dryRun: true, books: [{ title: 'Emma', author: 'Jane Austen' }] });
+        expect(await db.select().from(importSessions)).toHaveLength(0);
+    });
+
+    it('should undo a merge by restoring changed books and removing created ones', async () => {
+        const bookId = await seedBook('Dune', 'classic');
+
+        await runImport({
+            strategy: 'merge',
+            books: [
+                { title: 'Dune', author: 'Author', storyRating: 5, tags: [{ name: 'sci-fi', color: '#6b7280' }] },
+                { title: 'Emma', author: 'Jane Austen' }
+            ]
+        });
+
+        const response = await undo();
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.data).toMatchObject({ booksRestored: 1, booksRemoved: 1, tagsRemoved: 1 });
+
+        const allBooks = await db.select().from(books);
+        expect(allBooks).toHaveLength(1);
+        expect(allBooks[0]).toMatchObject({ id: bookId, storyRating: 3 });
+
+        const restoredTags = await db
+            .select({ name: tags.name })
+            .from(bookTags)
+            .innerJoin(tags, eq(bookTags.tagId, tags.id));
+        expect(restoredTags).toEqual([{ name: 'classic' }]);
+        expect((await db.select().from(tags)).map(tag => tag.name)).toEqual(['classic']);
+    });
+
+    it('should remove series created by the import unless a book still uses them', async () => {
+        const now = new Date().toISOString();
+        await db.insert(series).values({ id: generateId(), name: 'Discworld', createdAt: now });
+        const duneId = await seedBook('Dune');
+
+        await runImport({
+            strategy: 'merge',
+            books: [
+                { title: 'Dune', author: 'Author', seriesName: 'Dune Chronicles' },
+                { title: 'Guards! Guards!', author: 'Terry Pratchett', seriesName: 'Discworld' },
+                { title: 'Emma', author: 'Jane Austen', seriesName: 'Austen Novels' }
+            ]
+        });
+        expect(await db.select().from(series)).toHaveLength(3);
+
+        // A book moved into a series the import created keeps it
+        const [chronicles] = await db.select().from(series).where(eq(series.name, 'Dune Chronicles'));
+        await seedBook('Children of Dune');
+        await db.update(books).set({ seriesId: chronicles.id }).where(eq(books.title, 'Children of Dune'));
+
+        const data = await (await undo()).json();
+
+        expect(data.data.seriesRemoved).toBe(1);
+        expect((await db.select().from(series)).map(row => row.name).sort()).toEqual(['Discworld', 'Dune Chronicles']);
+        expect((await db.select().from(books).where(eq(books.id, duneId)))[0].seriesId).toBeNull();
+    });
+
+    it('should restore books without a series that was deleted after the import', async () => {
+        const seriesId = generateId();
+        await db.insert(series).values({ id: seriesId, name: 'Dune Chronicles', createdAt: new Date().toISOString() });
+        const duneId = await seedBook('Dune');
+        await db.update(books).set({ seriesId, seriesPosition: 1 }).where(eq(books.id, duneId));
+
+        await runImport({ strategy: 'merge', books: [{ title: 'Dune', author: 'Author', storyRating: 5 }] });
+        await db.delete(series).where(eq(series.id, seriesId));
+
+        const response = await undo();
+
+        expect(response.status).toBe(200);
+        expect((await db.select().from(books).where(eq(books.id, duneId)))[0]).toMatchObject({
+            storyRating: 3,
+            seriesId: null,
+            seriesPosition: null
+        });
+    });
+
+    it('should undo a replace by bringing back every deleted book', async () => {
+        const duneId = await seedBook('Dune', 'classic');
+        const emmaId = await seedBook('Emma');
+
+        await runImport({ strategy: 'replace', books: [{ id: duneId, title: 'New Dune', author: 'Author' }] });
+        expect(await db.select().from(books)).toHaveLength(1);
+
+        await undo();
+
+        const allBooks = await db.select().from(books);
+        expect(allBooks.map(book => book.id).sort()).toEqual([duneId, emmaId].sort());
+        expect(allBooks.find(book => book.id === duneId)?.title).toBe('Dune');
+        expect(await db.select().from(bookTags)).toHaveLength(1);
+    });
+
+    it('should undo imports newest first and mark them as undone', async () => {
+        // setTimeout runs at once in tests, so move the clock on to order the sessions
+        vi.useFakeTimers({ toFake: ['Date'] });
+        await runImport({ strategy: 'merge', sourceFileName: 'first.json', books: [{ title: 'One', author: 'A' }] });
+        vi.setSystemTime(Date.now() + 1000);
+        await runImport({ strategy: 'merge', sourceFileName: 'second.json', books: [{ title: 'Two', author: 'B' }] });
+
+        const first = await (await undo()).json();
+        expect(first.data.session.sourceFileName).toBe('second.json');
+        expect((await db.select().from(books)).map(book => book.title)).toEqual(['One']);
+
+        const second = await (await undo()).json();
+        expect(second.data.session.sourceFileName).toBe('first.json');
+        expect(await db.select().from(books)).toHaveLength(0);
+
+        const sessions = await (await getSessions(createMockRequest('/api/import/sessions'))).json();
+        expect(sessions.data.every((session: any) => session.undoneAt !== null)).toBe(true);
+    });
+
+    it('should keep notes through a merge, a replace and their undo', async () => {
+        const duneId = await seedBook('Dune');
+        const now = new Date().toISOString();
+        await db.insert(bookNotes).values({ id: generateId(), bookId: duneId, body: 'Our note', createdAt: now, updatedAt: now });
+
+        await runImport({ strategy: 'merge', books: [{ title: 'Dune', author: 'Author', description: 'Imported blurb' }] });
+        expect((await db.select().from(bookNotes))[0]).toMatchObject({ bookId: duneId, body: 'Our note' });
+
+        // The replacement copy has a new id, so the note follows it by title and author
+        await runImport({ strategy: 'replace', books: [{ title: 'Dune', author: 'Author' }] });
+        const [replaced] = await db.select().from(books);
+        expect(replaced.id).not.toBe(duneId);
+        expect((await db.select().from(bookNotes))[0]).toMatchObject({ bookId: replaced.id, body: 'Our note' });
+
+        await undo();
+        expect((await db.select().from(bookNotes))[0]).toMatchObject({ bookId: duneId, body: 'Our note' });
+
+        await undo();
+        expect((await db.select().from(bookNotes))[0]).toMatchObject({ bookId: duneId, body: 'Our note' });
+    });
+
+    it('should return 404 when there is nothing to undo', async () => {
+        const response = await undo();
+        const data = await response.json();
+
+        expect(response.status).toBe(404);
+        expect(data.error).toBe('IMPORT_SESSION_NOT_FOUND');
+    });
+});
@@ -0,0 +1,73 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { undoLastImport } from '$lib/server/import/import-sessions.js';
+import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
+import {
+    createSuccessResponse,
+    createErrorResponse,
+    classifyDatabaseError,
+    getErrorStatus,
+    sanitizeErrorDetails
+} from '$lib/server/utils/errors.js';
+
+const requestLogger = createRequestLogger();
+
+// POST /api/import/undo - Restore the state from before the last import
+export const POST: RequestHandler = async ({ request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+
+    try {
+        ServerLogger.info('Undoing last import', 'API_IMPORT_UNDO_POST', requestId);
+
+        const result = undoLastImport();
+
+        if (!result) {
+            ServerLogger.warn('No import to undo', 'API_IMPORT_UNDO_POST', requestId);
+
+            const errorResponse = createErrorResponse(
+                'IMPORT_SESSION_NOT_FOUND',
+                'There is no import to undo',
+                undefined,
+                requestId
+            );
+
+            logRequest(404);
+            return json(errorResponse, { status: 404 });
+        }
+
+        ServerLogger.info('Successfully undid import', 'API_IMPORT_UNDO_POST', requestId, {
+            sessionId: result.session.id,
+            booksRestored: result.booksRestored,
+            booksRemoved: result.booksRemoved,
+            tagsRemoved: result.tagsRemoved,
+            seriesRemoved: result.seriesRemoved
+        });
+
+        const response = createSuccessResponse(
+            result,
+            `Undid import of ${result.session.sourceFileName ?? 'unnamed file'}`,
+            requestId
+        );
+
+        logRequest(200);
+        return json(response);
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to undo import', err, 'API_IMPORT_UNDO_POST', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to undo import',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
@@ -0,0 +1,120 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { createSmartList, isSmartListNameTaken, listSmartLists } from '$lib/server/smart-lists/smart-lists.js';
+import { isValidSmartListInput } from '$lib/utils/validation.js';
+import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
+import {
+    createSuccessResponse,
+    createErrorResponse,
+    classifyDatabaseError,
+    getErrorStatus,
+    sanitizeErrorDetails
+} from '$lib/server/utils/errors.js';
+
+const requestLogger = createRequestLogger();
+
+// GET /api/lists - List smart lists by name
+export const GET: RequestHandler = async ({ request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+
+    try {
+        ServerLogger.info('Fetching smart lists', 'API_LISTS_GET', requestId);
+
+        const lists = listSmartLists();
+
+        const response = createSuccessResponse(
+            lists,
+            `Retrieved ${lists.length} smart lists`,
+            requestId
+        );
+
+        logRequest(200);
+        return json(response);
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to fetch smart lists', err, 'API_LISTS_GET', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to fetch smart lists',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
+
+// POST /api/lists - Save the current filters as a named smart list
+export const POST: RequestHandler = async ({ request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+
+    try {
+        const body = await request.json();
+
+        if (!isValidSmartListInput(body)) {
+            ServerLogger.warn('Invalid smart list provided', 'API_LISTS_POST', requestId, { body });
+
+            const errorResponse = createErrorResponse(
+                'VALIDATION_ERROR',
+                'A smart list needs a name and valid filters',
+                sanitizeErrorDetails({ providedData: body }),
+                requestId
+            );
+
+            logRequest(400);
+            return json(errorResponse, { status: 400 });
+        }
+
+        if (isSmartListNameTaken(body.name)) {
+            ServerLogger.warn(`Smart list already exists: ${body.name}`, 'API_LISTS_POST', requestId);
+
+            const errorResponse = createErrorResponse(
+                'CONFLICT',
+                'A smart list with this name already exists',
+                { name: body.name },
+                requestId
+            );
+
+            logRequest(409);
+            return json(errorResponse, { status: 409 });
+        }
+
+        const list = createSmartList(body);
+
+        ServerLogger.info(`Created smart list: ${list.name}`, 'API_LISTS_POST', requestId, { listId: list.id });
+
+        const response = createSuccessResponse(
+            list,
+            'Smart list saved successfully',
+            requestId
+        );
+
+        logRequest(201);
+        return json(response, { status: 201 });
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to save smart list', err, 'API_LISTS_POST', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to save smart list',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
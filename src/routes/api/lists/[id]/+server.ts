@@ -0,0 +1,187 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+    deleteSmartList,
+    getSmartList,
+    isSmartListNameTaken,
+    updateSmartList
+} from '$lib/server/smart-lists/smart-lists.js';
+import { isValidSmartListInput } from '$lib/utils/validation.js';
+import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
+import {
+    createSuccessResponse,
+    createErrorResponse,
+    classifyDatabaseError,
+    getErrorStatus,
+    sanitizeErrorDetails
+} from '$lib/server/utils/errors.js';
+
+const requestLogger = createRequestLogger();
+
+function notFound(id: string, requestId: string) {
+    return json(
+        createErrorResponse('SMART_LIST_NOT_FOUND', 'Smart list not found', { listId: id }, requestId),
+        { status: 404 }
+    );
+}
+
+// GET /api/lists/[id] - Get one smart list
+export const GET: RequestHandler = async ({ params, request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+    const { id } = params;
+
+    try {
+        const list = getSmartList(id);
+
+        if (!list) {
+            ServerLogger.warn(`Smart list not found: ${id}`, 'API_LISTS_GET', requestId);
+            logRequest(404);
+            return notFound(id, requestId);
+        }
+
+        const response = createSuccessResponse(
+            list,
+            'Smart list retrieved successfully',
+            requestId
+        );
+
+        logRequest(200);
+        return json(response);
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to fetch smart list', err, 'API_LISTS_GET', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to fetch smart list',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
+
+// PUT /api/lists/[id] - Rename a smart list or replace its filters
+export const PUT: RequestHandler = async ({ params, request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+    const { id } = params;
+
+    try {
+        const body = await request.json();
+
+        if (!isValidSmartListInput(body, true)) {
+            ServerLogger.warn('Invalid smart list update provided', 'API_LISTS_PUT', requestId, { body });
+
+            const errorResponse = createErrorResponse(
+                'VALIDATION_ERROR',
+                'Provide a non-empty name and/or valid filters',
+                sanitizeErrorDetails({ providedData: body }),
+                requestId
+            );
+
+            logRequest(400);
+            return json(errorResponse, { status: 400 });
+        }
+
+        if (!getSmartList(id)) {
+            ServerLogger.warn(`Smart list not found: ${id}`, 'API_LISTS_PUT', requestId);
+            logRequest(404);
+            return notFound(id, requestId);
+        }
+
+        if (body.name !== undefined && isSmartListNameTaken(body.name, id)) {
+            ServerLogger.warn(`Smart list already exists: ${body.name}`, 'API_LISTS_PUT', requestId);
+
+            const errorResponse = createErrorResponse(
+                'CONFLICT',
+                'A smart list with this name already exists',
+                { name: body.name },
+                requestId
+            );
+
+            logRequest(409);
+            return json(errorResponse, { status: 409 });
+        }
+
+        const list = updateSmartList(id, { name: body.name, filters: body.filters })!;
+
+        ServerLogger.info(`Updated smart list: ${list.name}`, 'API_LISTS_PUT', requestId);
+
+        const response = createSuccessResponse(
+            list,
+            'Smart list updated successfully',
+            requestId
+        );
+
+        logRequest(200);
+        return json(response);
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to update smart list', err, 'API_LISTS_PUT', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to update smart list',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
+
+// DELETE /api/lists/[id] - Delete a smart list; its books are untouched
+export const DELETE: RequestHandler = async ({ params, request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+    const { id } = params;
+
+    try {
+        if (!deleteSmartList(id)) {
+            ServerLogger.warn(`Smart list not found: ${id}`, 'API_LISTS_DELETE', requestId);
+            logRequest(404);
+            return notFound(id, requestId);
+        }
+
+        ServerLogger.info(`Deleted smart list: ${id}`, 'API_LISTS_DELETE', requestId);
+
+        const response = createSuccessResponse(
+            { id },
+            'Smart list deleted successfully',
+            requestId
+        );
+
+        logRequest(200);
+        return json(response);
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to delete smart list', err, 'API_LISTS_DELETE', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to delete smart list',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GET as listLists, POST as createList } from '../+server.js';
+import { GET as getList, PUT as updateList, DELETE as deleteList } from '../[id]/+server.js';
+import { db } from '$lib/server/db/connection.js';
+import { smartLists } from '$lib/server/db/schema.js';
+import type { FilterState } from '$lib/types/book.js';
+import { createMockEvent } from '../../../../test-utils.js';
+
+const funnyFilters: FilterState = {
+    searchQuery: ' story>=4.5 ',
+    selectedTags: ['funny', 'standalone'],
+    sortBy: 'storyRating',
+    sortOrder: 'desc'
+};
+
+async function postList(body: unknown) {
+    const response = await createList(createMockEvent('/api/lists', { method: 'POST', body }));
+    return { response, result: await response.json() };
+}
+
+describe('Smart lists API', () => {
+    beforeEach(async () => {
+        await db.delete(smartLists);
+    });
+
+    afterEach(async () => {
+        await db.delete(smartLists);
+    });
+
+    it('should save a smart list and list them by name', async () => {
+        const { response, result } = await postList({ name: ' Funny standalones ', filters: funnyFilters });
+
+        expect(response.status).toBe(201);
+        expect(result.data).toMatchObject({
+            name: 'Funny standalones',
+            filters: { ...funnyFilters, searchQuery: 'story>=4.5' }
+        });
+
+        await postList({ name: 'after dark', filters: { ...funnyFilters, selectedTags: ['thriller'] } });
+
+        const listed = await (await listLists(createMockEvent('/api/lists'))).json();
+        expect(listed.data.map((list: any) => list.name)).toEqual(['after dark', 'Funny standalones']);
+
+        const { id } = result.data;
+        const fetched = await (await getList(createMockEvent(`/api/lists/${id}`, undefined, { id }))).json();
+        expect(fetched.data.filters.selectedTags).toEqual(['funny', 'standalone']);
+    });
+
+    it('should reject invalid filters and names that are taken', async () => {
+        expect((await postList({ name: 'Bad', filters: { ...funnyFilters, sortBy: 'colour' } })).response.status).toBe(400);
+        expect((await postList({ name: '   ', filters: funnyFilters })).response.status).toBe(400);
+
+        await postList({ name: 'Funny', filters: funnyFilters });
+        expect((await postList({ name: 'FUNNY', filters: funnyFilters })).response.status).toBe(409);
+    });
+
+    it('should rename, refilter and delete a smart list', async () => {
+        const { result } = await postList({ name: 'Funny', filters: funnyFilters });
+        const { id } = result.data;
+
+        const renamed = await updateList(createMockEvent(
+            `/api/lists/${id}`,
+            { method: 'PUT', body: { name: 'Funny ones', filters: { ...funnyFilters, minDuration: 300 } } },
+            { id }
+        ));
+        expect((await renamed.json()).data).toMatchObject({ name: 'Funny ones', filters: { minDuration: 300 } });
+
+        const deleted = await deleteList(createMockEvent(`/api/lists/${id}`, { method: 'DELETE' }, { id }));
+        expect(deleted.status).toBe(200);
+
+        const missing = await getList(createMockEvent(`/api/lists/${id}`, undefined, { id }));
+        expect(missing.status).toBe(404);
+        expect((await deleteList(createMockEvent(`/api/lists/${id}`, { method: 'DELETE' }, { id }))).status).toBe(404);
+    });
+});
@@ -0,0 +1,73 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { searchBooks } from '$lib/server/search/search.js';
+import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
+import {
+    createSuccessResponse,
+    createErrorResponse,
+    classifyDatabaseError,
+    getErrorStatus,
+    sanitizeErrorDetails
+} from '$lib/server/utils/errors.js';
+
+const requestLogger = createRequestLogger();
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// GET /api/search?q= - Full-text and fuzzy search over books, most relevant first with highlighted snippets
+export const GET: RequestHandler = async ({ request, url }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+
+    const query = url.searchParams.get('q') ?? '';
+    const limitParam = url.searchParams.get('limit');
+
+    try {
+        if (!query.trim() || (limitParam !== null && !/^[1-9]\d*$/.test(limitParam))) {
+            ServerLogger.warn('Invalid search provided', 'API_SEARCH_GET', requestId, { query, limit: limitParam });
+
+            const errorResponse = createErrorResponse(
+                'VALIDATION_ERROR',
+                query.trim() ? 'Limit must be a positive integer' : 'Search query (q) is required',
+                { query, limit: limitParam },
+                requestId
+            );
+
+            logRequest(400);
+            return json(errorResponse, { status: 400 });
+        }
+
+        ServerLogger.info('Searching books', 'API_SEARCH_GET', requestId, { query });
+
+        const limit = Math.min(limitParam !== null ? Number(limitParam) : DEFAULT_LIMIT, MAX_LIMIT);
+        // "Did you mean" comes back only when nothing was found
+        const { results, suggestion } = searchBooks(query, limit);
+
+        const response = createSuccessResponse(
+            results,
+            `Found ${results.length} books`,
+            requestId
+        );
+
+        logRequest(200);
+        return json({ ...response, suggestion });
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to search books', err, 'API_SEARCH_GET', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to search books',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
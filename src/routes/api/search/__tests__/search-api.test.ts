@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GET } from '../+server.js';
+import { POST as createBook } from '../../books/+server.js';
+import { PUT as updateBook, DELETE as deleteBook } from '../../books/[id]/+server.js';
+import { db } from '$lib/server/db/connection.js';
+import { bookNotes, books, bookTags, tags } from '$lib/server/db/schema.js';
+import { createMockEvent } from '../../../../test-utils.js';
+
+async function seedBook(body: Record<string, unknown>) {
+    const response = await createBook(createMockEvent('/api/books', { method: 'POST', body }));
+    return (await response.json()).data.id as string;
+}
+
+async function search(query: string) {
+    const response = await GET(createMockEvent(`/api/search?q=${encodeURIComponent(query)}`));
+    return { response, result: await response.json() };
+}
+
+async function clearDatabase() {
+    await db.delete(bookNotes);
+    await db.delete(bookTags);
+    await db.delete(books);
+    await db.delete(tags);
+}
+
+describe('Search API', () => {
+    beforeEach(async () => {
+        await clearDatabase();
+
+        await seedBook({
+            title: 'Project Hail Mary',
+            author: 'Andy Weir',
+            narrators: ['Ray Porter'],
+            description: 'A lone astronaut must save the earth from an extinction-level threat.'
+        });
+        await seedBook({
+            title: 'Red Rising',
+            author: 'Pierce Brown',
+            narrators: ['Tim Gerard Reynolds'],
+            description: 'A mining colony on Mars, and a young man who joins the ruling class.',
+            highlyRatedFor: 'Astronaut-level world building'
+        });
+    });
+
+    afterEach(clearDatabase);
+
+    it('should rank title matches above description matches', async () => {
+        await seedBook({ title: 'The Astronaut Wives Club', author: 'Lily Koppel' });
+
+        const { response, result } = await search('astronaut');
+
+        expect(response.status).toBe(200);
+        expect(result.data).toHaveLength(3);
+        expect(result.data[0].book.title).toBe('The Astronaut Wives Club');
+        expect(result.data[0].score).toBeGreaterThan(result.data[2].score);
+    });
+
+    it('should search narrators and match word prefixes', async () => {
+        const { result } = await search('reyn');
+
+        expect(result.data).toHaveLength(1);
+        expect(result.data[0].book.title).toBe('Red Rising');
+    });
+
+    it('should highlight the matched words in the snippet', async () => {
+        const { result } = await search('extinction');
+
+        expect(result.data[0].snippet).toContainEqual({ text: 'extinction', match: true });
+        expect(result.data[0].snippet.map((part: any) => part.text).join('')).toContain('save the earth from an extinction');
+    });
+
+    it('should keep the index in step with edits and deletes', async () => {
+        const id = await seedBook({ title: 'Dune', author: 'Frank Herbert' });
+
+        await updateBook(createMockEvent(`/api/books/${id}`, { method: 'PUT', body: { description: 'Spice and sandworms' } }, { id }));
+        expect((await search('sandworms')).result.data.map((item: any) => item.book.id)).toEqual([id]);
+
+        await deleteBook(createMockEvent(`/api/books/${id}`, { method: 'DELETE' }, { id }));
+        expect((await search('sandworms')).result.data).toEqual([]);
+    });
+
+    it('should find books despite typos and suggest a correction when nothing is found', async () => {
+        await seedBook({ title: 'A Man Called Ove', author: 'Fredrik Backman' });
+
+        const { result } = await search('backmann');
+        expect(result.data.map((item: any) => item.book.title)).toEqual(['A Man Called Ove']);
+        expect(result.data[0].snippet).toContainEqual({ text: 'Backman', match: true });
+        expect(result.suggestion).toBeNull();
+
+        // No book has both words, even with the typo
+        expect((await search('backmann hail')).result).toMatchObject({ data: [], suggestion: 'Backman hail' });
+        expect((await search('astronaut')).result.suggestion).toBeNull();
+    });
+
+    it('should ignore query syntax and require a query', async () => {
+        expect((await search('"weir* (')).result.data.map((item: any) => item.book.title)).toEqual(['Project Hail Mary']);
+        expect((await search('   ')).response.status).toBe(400);
+    });
+});
@@ -0,0 +1,110 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { isSeriesNameTaken, updateSeries } from '$lib/server/series/series.js';
+import { ServerLogger, createRequestLogger } from '$lib/server/utils/logger.js';
+import {
+    createSuccessResponse,
+    createErrorResponse,
+    classifyDatabaseError,
+    getErrorStatus,
+    sanitizeErrorDetails
+} from '$lib/server/utils/errors.js';
+
+const requestLogger = createRequestLogger();
+
+/**
+ * Checks a series update: an optional non-empty name and an optional
+ * positive integer (or null) number of volumes
+ */
+function isValidSeriesUpdate(body: any): boolean {
+    return (
+        !!body &&
+        typeof body === 'object' &&
+        (body.name === undefined || (typeof body.name === 'string' && body.name.trim().length > 0)) &&
+        (body.totalVolumes === undefined || body.totalVolumes === null ||
+            (Number.isInteger(body.totalVolumes) && body.totalVolumes > 0))
+    );
+}
+
+// PUT /api/series/[id] - Rename a series or set its number of volumes
+export const PUT: RequestHandler = async ({ params, request }) => {
+    const logRequest = requestLogger.logRequest(request);
+    const requestId = requestLogger.getRequestId();
+    const { id } = params;
+
+    try {
+        const body = await request.json();
+
+        if (!isValidSeriesUpdate(body)) {
+            ServerLogger.warn('Invalid series update provided', 'API_SERIES_PUT', requestId, { body });
+
+            const errorResponse = createErrorResponse(
+                'VALIDATION_ERROR',
+                'Series name must be non-empty and totalVolumes a positive integer',
+                sanitizeErrorDetails({ providedData: body }),
+                requestId
+            );
+
+            logRequest(400);
+            return json(errorResponse, { status: 400 });
+        }
+
+        if (body.name !== undefined && isSeriesNameTaken(body.name, id)) {
+            ServerLogger.warn(`Series already exists: ${body.name}`, 'API_SERIES_PUT', requestId);
+
+            const errorResponse = createErrorResponse(
+                'CONFLICT',
+                'A series with this name already exists',
+                { name: body.name },
+                requestId
+            );
+
+            logRequest(409);
+            return json(errorResponse, { status: 409 });
+        }
+
+        const updated = updateSeries(id, { name: body.name, totalVolumes: body.totalVolumes });
+
+        if (!updated) {
+            ServerLogger.warn(`Series not found: ${id}`, 'API_SERIES_PUT', requestId);
+
+            const errorResponse = createErrorResponse(
+                'SERIES_NOT_FOUND',
+                'Series not found',
+                { seriesId: id },
+                requestId
+            );
+
+            logRequest(404);
+            return json(errorResponse, { status: 404 });
+        }
+
+        ServerLogger.info(`Successfully updated series: ${updated.name}`, 'API_SERIES_PUT', requestId);
+
+        const response = createSuccessResponse(
+            updated,
+            'Series updated successfully',
+            requestId
+        );
+
+        logRequest(200);
+        return json(response);
+
+    } catch (error) {
+        const err = error as Error;
+        ServerLogger.error('Failed to update series', err, 'API_SERIES_PUT', requestId);
+
+        const errorCode = classifyDatabaseError(err);
+        const errorResponse = createErrorResponse(
+            errorCode,
+            'Failed to update series',
+            sanitizeErrorDetails({ originalError: err.message }),
+            requestId
+        );
+
+        const statusCode = getErrorStatus(errorCode);
+        logRequest(statusCode, err);
+
+        return json(errorResponse, { status: statusCode });
+    }
+};
@@ -0,0 +1,25 @@
+import type { PageLoad } from './$types';
+import type { AuthorSummary } from '$lib/utils/authors';
+
+export const load: PageLoad = async ({ fetch }) => {
+    try {
+        const response = await fetch('/api/authors');
+        const responseData = await response.json();
+
+        if (!responseData.success) {
+            throw new Error(responseData.message || 'Failed to load authors');
+        }
+
+        return {
+            authors: (responseData.data || []) as AuthorSummary[]
+        };
+    } catch (err) {
+        console.error('Failed to load authors:', err);
+
+        // Return empty data if loading fails
+        return {
+            authors: [] as AuthorSummary[],
+            loadError: err instanceof Error ? err.message : 'Failed to load authors'
+        };
+    }
+};
@@ -0,0 +1,28 @@
+import type { PageLoad } from './$types';
+import { error } from '@sveltejs/kit';
+import type { Book } from '$lib/types/book';
+import type { AuthorSummary } from '$lib/utils/authors';
+
+export const load: PageLoad = async ({ fetch, params }) => {
+    const name = encodeURIComponent(params.name);
+    const [authorResponse, booksResponse] = await Promise.all([
+        fetch(`/api/authors/${name}`),
+        fetch(`/api/books?author=${name}`)
+    ]);
+
+    if (authorResponse.status === 404) {
+        error(404, 'No books by this author');
+    }
+
+    const authorData = await authorResponse.json().catch(() => ({}));
+    const booksData = await booksResponse.json().catch(() => ({}));
+
+    if (!authorData.success || !booksData.success) {
+        error(500, authorData.message || booksData.message || 'Failed to load author');
+    }
+
+    return {
+        author: authorData.data as AuthorSummary,
+        books: booksData.data as Book[]
+    };
+};
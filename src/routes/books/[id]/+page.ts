@@ -0,0 +1,21 @@
+import type { PageLoad } from './$types';
+import { error } from '@sveltejs/kit';
+import type { Book } from '$lib/types/book';
+
+export const load: PageLoad = async ({ fetch, params }) => {
+    const response = await fetch(`/api/books/${encodeURIComponent(params.id)}`);
+    const responseData = await response.json().catch(() => ({}));
+
+    // Unknown or malformed ids get the error page rather than an empty book
+    if (response.status === 404 || response.status === 400) {
+        error(404, 'Book not found');
+    }
+
+    if (!response.ok || !responseData.success) {
+        error(response.status >= 400 ? response.status : 500, responseData.message || 'Failed to load book');
+    }
+
+    return {
+        book: responseData.data as Book
+    };
+};
@@ -0,0 +1,27 @@
+import type { PageLoad } from './$types';
+import { error } from '@sveltejs/kit';
+import type { Book } from '$lib/types/book';
+import type { SmartList } from '$lib/types/smart-list';
+
+export const load: PageLoad = async ({ fetch, params }) => {
+    const [listResponse, booksResponse] = await Promise.all([
+        fetch(`/api/lists/${encodeURIComponent(params.id)}`),
+        fetch('/api/books')
+    ]);
+
+    if (listResponse.status === 404) {
+        error(404, 'Smart list not found');
+    }
+
+    const listData = await listResponse.json().catch(() => ({}));
+    const booksData = await booksResponse.json().catch(() => ({}));
+
+    if (!listData.success || !booksData.success) {
+        error(500, listData.message || booksData.message || 'Failed to load smart list');
+    }
+
+    return {
+        list: listData.data as SmartList,
+        books: booksData.data as Book[]
+    };
+};
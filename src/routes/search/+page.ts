@@ -0,0 +1,33 @@
+import type { PageLoad } from './$types';
+import type { BookSearchResult } from '$lib/types/book';
+
+export const load: PageLoad = async ({ fetch, url }) => {
+    const query = url.searchParams.get('q')?.trim() ?? '';
+
+    if (!query) {
+        return { query, results: [] as BookSearchResult[] };
+    }
+
+    try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(query)}`);
+        const responseData = await response.json();
+
+        if (!responseData.success) {
+            throw new Error(responseData.message || 'Search failed');
+        }
+
+        return {
+            query,
+            results: (responseData.data || []) as BookSearchResult[],
+            suggestion: (responseData.suggestion ?? null) as string | null
+        };
+    } catch (err) {
+        console.error('Failed to search books:', err);
+
+        return {
+            query,
+            results: [] as BookSearchResult[],
+            loadError: err instanceof Error ? err.message : 'Search failed'
+        };
+    }
+};
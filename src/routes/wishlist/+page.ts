@@ -1,9 +1,28 @@
 import type { PageLoad } from './$types';
+import { filtersFromSearchParams, filtersToSearchParams } from '$lib/stores/filter-store';
+
+// Books rendered on the server; the rest are loaded page by page in the browser
+const FIRST_PAGE_SIZE = 100;
+
+export const load: PageLoad = async ({ fetch, url, untrack }) => {
+    // Filters live in the URL; reading them untracked means changing them
+    // does not reload the books, which are filtered in the browser
+    const filters = untrack(() => filtersFromSearchParams(url.searchParams));
+
+    // The first page is filtered on the server as well, so it shows the books
+    // the URL asks for. The sort is always sent, as the API's default order
+    // is not the wishlist's; the browser then loads the rest from the start.
+    const params = filtersToSearchParams(filters);
+    const filtered = params.size > 0;
+    if (filtered) {
+        params.set('sort', filters.sortBy);
+        params.set('order', filters.sortOrder);
+    }
+    params.set('limit', String(FIRST_PAGE_SIZE));
 
-export const load: PageLoad = async ({ fetch }) => {
     try {
         // Use SvelteKit's fetch directly
-        const booksResponse = await fetch('/api/books');
+        const booksResponse = await fetch(`/api/books?${params}`);
         const booksData = await booksResponse.json();
 
         if (!booksData.success) {
@@ -19,7 +38,11 @@ export const load: PageLoad = async ({ fetch }) => {
 
         return {
             books: booksData.data || [],
-            tags: tagsData.data || []
+            tags: tagsData.data || [],
+            totalBooks: booksData.pagination?.total ?? booksData.data?.length ?? 0,
+            nextOffset: booksData.pagination?.nextOffset ?? null,
+            filters,
+            filtered
         };
     } catch (err) {
         console.error('Failed to load wishlist data:', err);
@@ -28,6 +51,10 @@ export const load: PageLoad = async ({ fetch }) => {
         return {
             books: [],
             tags: [],
+            totalBooks: 0,
+            nextOffset: null,
+            filters,
+            filtered,
             loadError: err instanceof Error ? err.message : 'Failed to load data'
         };
     }
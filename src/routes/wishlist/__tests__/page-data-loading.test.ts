@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { load } from '../+page.js';
+
+function respond(data: unknown) {
+    return { json: async () => ({ success: true, data, pagination: { total: 1, nextOffset: null } }) };
+}
+
+async function loadWishlist(path: string) {
+    const fetch = vi.fn()
+        .mockResolvedValueOnce(respond([{ id: 'book-1', title: 'Dune', author: 'Frank Herbert', tags: [] }]))
+        .mockResolvedValueOnce(respond([]));
+    const event = { fetch, url: new URL(`http://localhost${path}`), untrack: <T>(fn: () => T) => fn() };
+
+    const data = await load(event as unknown as Parameters<typeof load>[0]);
+    return { data: data as Exclude<typeof data, void>, booksUrl: fetch.mock.calls[0][0] as string };
+}
+
+describe('Wishlist page data loading', () => {
+    it('should load the first page in the API order without filters', async () => {
+        const { data, booksUrl } = await loadWishlist('/wishlist');
+
+        expect(booksUrl).toBe('/api/books?limit=100');
+        expect(data.filtered).toBe(false);
+    });
+
+    it('should filter and sort the first page as the URL asks', async () => {
+        const { data, booksUrl } = await loadWishlist('/wishlist?q=dune&tag=space&tagMatch=any');
+
+        const params = new URL(booksUrl, 'http://localhost').searchParams;
+        expect(Object.fromEntries(params)).toEqual({
+            q: 'dune',
+            tag: 'space',
+            tagMatch: 'any',
+            sort: 'title',
+            order: 'asc',
+            limit: '100'
+        });
+        expect(data.filtered).toBe(true);
+        expect(data.filters.searchQuery).toBe('dune');
+    });
+});
@@ -0,0 +1,23 @@
+import type { RequestEvent } from '@sveltejs/kit';
+
+/**
+ * Request event for calling an API handler directly in tests. Only the
+ * request, URL and route params are real; the request logger needs a real
+ * URL and headers. The params and route id are inferred from the handler.
+ */
+export function createMockEvent<
+    Params extends Partial<Record<string, string>> = Partial<Record<string, string>>,
+    RouteId extends RequestEvent['route']['id'] = RequestEvent['route']['id']
+>(
+    path: string,
+    init?: { method: string; body?: unknown },
+    params: Record<string, string> = {}
+): RequestEvent<Params, RouteId> {
+    const url = new URL(`http://localhost${path}`);
+    const request = new Request(url, init && {
+        method: init.method,
+        headers: { 'content-type': 'application/json' },
+        body: init.body === undefined ? undefined : JSON.stringify(init.body)
+    });
+    return { request, url, params } as unknown as RequestEvent<Params, RouteId>;
+}